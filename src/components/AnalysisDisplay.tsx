@@ -9,11 +9,21 @@ import { AlertCircle, FileDown, Info } from 'lucide-react';
 import { toast } from './ui/use-toast';
 import { generatePDFReport } from '@/utils/reportGenerator';
 import HeatmapVisualization from './HeatmapVisualization';
+import FaceScoreHistory from './FaceScoreHistory';
+import ElaView from './ElaView';
+import SpectrumView from './SpectrumView';
+import VideoTimelinePlayer from './VideoTimelinePlayer';
+import ContentCredentialsPanel from './ContentCredentialsPanel';
+import type { ForgeryMask } from '@/services/forensics/localization';
 
 interface AnalysisDisplayProps {
   results: DetectionResult;
+  // Empty when the analysis is shown without its source media
   mediaUrl?: string;
   gradCamUrl?: string | null;
+  saliencyUrl?: string | null;
+  // Copy-move and splicing overlays; still images only
+  forgeryMasks?: ForgeryMask[];
   frameImages: string[];
 }
 
@@ -22,6 +32,7 @@ interface HeatmapRegion {
   y: number;
   intensity: number;
   radius: number;
+  source?: 'saliency' | 'copy_move' | 'splicing';
 }
 
 interface HeatmapData {
@@ -29,8 +40,9 @@ interface HeatmapData {
   overallIntensity: number;
 }
 
-const AnalysisDisplay = ({ results, mediaUrl, gradCamUrl, frameImages }: AnalysisDisplayProps) => {
+const AnalysisDisplay = ({ results, mediaUrl, gradCamUrl, saliencyUrl, forgeryMasks = [], frameImages }: AnalysisDisplayProps) => {
   const [activeFrameIndex, setActiveFrameIndex] = useState<number | null>(null);
+  const [selectedTrackId, setSelectedTrackId] = useState<number | null>(null);
 
   const { confidence, analysis, metadata, isManipulated, classification, riskLevel } = results;
   const { faceSwapProbability, voiceCloningProbability, faceMorphingProbability, aiGenerationProbability } = analysis;
@@ -43,6 +55,7 @@ const AnalysisDisplay = ({ results, mediaUrl, gradCamUrl, frameImages }: Analysi
       case 'likely_authentic': return 'Likely Authentic';
       case 'possibly_manipulated': return 'Possibly Manipulated';
       case 'highly_manipulated': return 'Highly Manipulated';
+      case 'ai_generated': return 'AI Generated';
       default: return classification;
     }
   };
@@ -88,15 +101,37 @@ const AnalysisDisplay = ({ results, mediaUrl, gradCamUrl, frameImages }: Analysi
     }
   };
 
-  // Generate a simplified heatmap data for visualization
-  const heatmapData = {
-    regions: [
-      { x: 25, y: 35, intensity: 0.85, radius: 25 },
-      { x: 75, y: 55, intensity: 0.65, radius: 20 },
-      { x: 50, y: 75, intensity: 0.9, radius: 30 },
-    ],
+  // Regions come from the saliency map; without one only the overall score is shown
+  const heatmapData: HeatmapData = analysis.heatmapData ?? {
+    regions: [],
     overallIntensity: confidence / 100
   };
+  // The saliency map was computed for the first frame only
+  const showsSaliencyFrame = !activeFrameIndex;
+
+  // Preview frames are spread evenly over the video, excluding both ends
+  const frameTimestamp = metadata.type === 'video' && metadata.duration
+    ? (metadata.duration * ((activeFrameIndex || 0) + 1)) / (frameImages.length + 1)
+    : (activeFrameIndex || 0) * 1000;
+
+  // Faces of the sampled frame closest to the displayed one
+  const faces = analysis.faces ?? [];
+  const nearestFaceTimestamp = faces.reduce<number | null>(
+    (nearest, face) =>
+      nearest === null || Math.abs(face.timestamp - frameTimestamp) < Math.abs(nearest - frameTimestamp)
+        ? face.timestamp
+        : nearest,
+    null
+  );
+  const visibleFaces = faces.filter(face => face.timestamp === nearestFaceTimestamp);
+
+  const showsEla = metadata.type === 'image' && !!mediaUrl;
+  // The spectrum is computed on the image itself or on the first video frame
+  const spectrumImageUrl = metadata.type === 'image' ? mediaUrl : metadata.type === 'video' ? frameImages[0] : undefined;
+  // Webcam captures are typed as video but are a single still frame
+  const showsTimeline = metadata.type === 'video' && !!mediaUrl && (analysis.framewiseConfidence?.length ?? 0) > 0;
+  const frameRate = metadata.frameCount && metadata.duration ? metadata.frameCount / (metadata.duration / 1000) : undefined;
+  const tabCount = 2 + (showsTimeline ? 1 : 0) + (showsEla ? 1 : 0) + (spectrumImageUrl ? 1 : 0);
 
   return (
     <div className="space-y-8 w-full max-w-4xl mx-auto">
@@ -136,13 +171,26 @@ const AnalysisDisplay = ({ results, mediaUrl, gradCamUrl, frameImages }: Analysi
           </div>
         </div>
 
+        {results.provenance && <ContentCredentialsPanel provenance={results.provenance} />}
+
+        {mediaUrl === '' && (
+          <div className="bg-muted/50 border rounded-lg p-4 flex items-start gap-3">
+            <Info className="w-5 h-5 text-muted-foreground mt-0.5" />
+            <p className="text-sm text-muted-foreground">
+              The original media was not stored with this analysis, so playback and views computed from it are unavailable.
+            </p>
+          </div>
+        )}
+
         {isManipulated && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
             <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
             <div>
               <h4 className="font-semibold text-red-700">Potential Deepfake Detected</h4>
               <p className="text-sm text-red-600 mt-1">
-                Our analysis indicates this media may have been manipulated with {confidence.toFixed(1)}% confidence.
+                {classification === 'ai_generated'
+                  ? `Its verified Content Credentials declare it AI generated; the detector scored it ${confidence.toFixed(1)}%.`
+                  : `Our analysis indicates this media may have been manipulated with ${confidence.toFixed(1)}% confidence.`}
               </p>
             </div>
           </div>
@@ -182,22 +230,50 @@ const AnalysisDisplay = ({ results, mediaUrl, gradCamUrl, frameImages }: Analysi
           </div>
         </div>
 
-        <Tabs defaultValue="visualization" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+        <Tabs defaultValue={showsTimeline ? 'timeline' : 'visualization'} className="w-full">
+          <TabsList className={`grid w-full ${tabCount === 4 ? 'grid-cols-4' : tabCount === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            {showsTimeline && <TabsTrigger value="timeline">Timeline</TabsTrigger>}
             <TabsTrigger value="visualization">Visualization</TabsTrigger>
             <TabsTrigger value="details">Analysis Details</TabsTrigger>
+            {showsEla && <TabsTrigger value="ela">Error Level Analysis</TabsTrigger>}
+            {spectrumImageUrl && <TabsTrigger value="spectrum">Spectrum</TabsTrigger>}
           </TabsList>
+          {showsTimeline && (
+            <TabsContent value="timeline" className="py-4">
+              <VideoTimelinePlayer
+                videoUrl={mediaUrl!}
+                framewiseConfidence={analysis.framewiseConfidence!}
+                suspiciousFrames={analysis.suspiciousFrames ?? []}
+                faces={faces}
+                lipSync={analysis.lipSync}
+                frameRate={frameRate}
+              />
+            </TabsContent>
+          )}
           <TabsContent value="visualization" className="space-y-4 py-4">
             {/* Visualization Tab Content */}
             <HeatmapVisualization 
               heatmapData={heatmapData}
               mediaType={metadata.type as 'image' | 'video' | 'audio'}
-              frameInfo={activeFrameIndex !== null && frameImages.length > 0 ? { timestamp: activeFrameIndex * 1000 } : undefined}
+              frameInfo={activeFrameIndex !== null && frameImages.length > 0 ? { timestamp: frameTimestamp } : undefined}
               gradCamUrl={gradCamUrl}
+              saliencyUrl={showsSaliencyFrame ? saliencyUrl : null}
+              forgeryMasks={showsSaliencyFrame ? forgeryMasks : []}
               frameImageUrl={frameImages.length > 0 ? frameImages[Math.min(activeFrameIndex || 0, frameImages.length - 1)] : null}
               isDeepfake={isManipulated}
+              faces={visibleFaces}
+              selectedTrackId={selectedTrackId}
+              onFaceSelect={setSelectedTrackId}
             />
             
+            {selectedTrackId !== null && faces.some(face => face.trackId === selectedTrackId) && (
+              <FaceScoreHistory
+                trackId={selectedTrackId}
+                observations={faces.filter(face => face.trackId === selectedTrackId)}
+                onClose={() => setSelectedTrackId(null)}
+              />
+            )}
+            
             {metadata.type === 'video' && frameImages.length > 1 && (
               <div className="flex flex-wrap gap-2 justify-center mt-4">
                 {frameImages.slice(0, 4).map((frame, index) => (
@@ -290,6 +366,17 @@ const AnalysisDisplay = ({ results, mediaUrl, gradCamUrl, frameImages }: Analysi
               </div>
             </div>
           </TabsContent>
+          {showsEla && (
+            <TabsContent value="ela" className="py-4">
+              {/* Only JPEG sources get an ELA score during analysis */}
+              <ElaView mediaUrl={mediaUrl!} isJpeg={analysis.elaScore !== undefined} />
+            </TabsContent>
+          )}
+          {spectrumImageUrl && (
+            <TabsContent value="spectrum" className="py-4">
+              <SpectrumView imageUrl={spectrumImageUrl} isVideoFrame={metadata.type === 'video'} />
+            </TabsContent>
+          )}
         </Tabs>
         
         <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 dark:bg-blue-900/20 dark:border-blue-800">
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { FileAudio, History, Trash2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { toast } from './ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from './ui/dialog';
+import { HistoryRecord, clearHistory, deleteHistoryRecord, listHistory } from '@/services/historyStore';
+
+interface AnalysisHistoryProps {
+  onOpen: (record: HistoryRecord) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AnalysisHistory = ({ onOpen }: AnalysisHistoryProps) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reload on every open so analyses finished in the meantime show up
+  useEffect(() => {
+    if (!isDialogOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    listHistory()
+      .then(loaded => {
+        if (!cancelled) setRecords(loaded);
+      })
+      .catch(error => {
+        console.error('Failed to load analysis history:', error);
+        toast({
+          title: "History unavailable",
+          description: "Could not read the local analysis history.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isDialogOpen]);
+
+  const handleOpen = (record: HistoryRecord) => {
+    setIsDialogOpen(false);
+    onOpen(record);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryRecord(id);
+      setRecords(prev => prev.filter(record => record.id !== id));
+    } catch (error) {
+      console.error('Failed to delete history entry:', error);
+      toast({
+        title: "Entry not deleted",
+        description: "Could not remove the analysis from the local history.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearHistory();
+      setRecords([]);
+      toast({
+        title: "History cleared",
+        description: "All stored analyses were removed from this device.",
+      });
+    } catch (error) {
+      console.error('Failed to clear analysis history:', error);
+      toast({
+        title: "History not cleared",
+        description: "Could not remove the stored analyses from this device.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsDialogOpen(true)}>
+        <History className="w-4 h-4" />
+        History
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-auto">
+          <DialogHeader>
+            <DialogTitle>Analysis History</DialogTitle>
+            <DialogDescription>
+              Past analyses are stored on this device. Open one to view it exactly as it was displayed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 mt-2">
+            {records.length > 0 ? (
+              records.map(record => (
+                <div
+                  key={record.id}
+                  className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center gap-3 cursor-pointer hover:bg-muted/50"
+                  onClick={() => handleOpen(record)}
+                >
+                  <div className="w-16 h-12 rounded bg-muted flex items-center justify-center overflow-hidden shrink-0">
+                    {record.thumbnail ? (
+                      <img src={record.thumbnail} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <FileAudio className="w-5 h-5 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{record.fileName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(record.createdAt).toLocaleString()}
+                      {record.fileSize !== null && ` · ${formatFileSize(record.fileSize)}`}
+                      {` · ${record.settings.detectors[record.results.metadata.type]}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-500">{record.results.confidence.toFixed(1)}%</span>
+                  <Badge variant={record.results.isManipulated ? "destructive" : "default"} className="capitalize">
+                    {record.results.classification.replace(/_/g, ' ')}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Delete ${record.fileName}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(record.id);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            ) : (
+              <p className="h-24 flex items-center justify-center text-sm text-muted-foreground">
+                {isLoading ? 'Loading history...' : 'No stored analyses yet.'}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" className="gap-2" onClick={handleClear} disabled={records.length === 0}>
+              <Trash2 className="w-4 h-4" />
+              Clear History
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AnalysisHistory;
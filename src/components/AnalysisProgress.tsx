@@ -0,0 +1,41 @@
+import { motion } from 'framer-motion';
+import { Loader2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+
+interface AnalysisProgressProps {
+  // Percentage (0-100); null while the job hasn't reported any progress yet
+  progress: number | null;
+  status: string;
+  onCancel: () => void;
+}
+
+const AnalysisProgress = ({ progress, status, onCancel }: AnalysisProgressProps) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="max-w-3xl mx-auto bg-white/5 backdrop-blur-sm border rounded-lg p-4 space-y-3"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          <span>{status}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          {progress !== null && (
+            <span className="text-sm font-medium">{Math.round(progress)}%</span>
+          )}
+          <Button variant="outline" size="sm" className="gap-1" onClick={onCancel}>
+            <X className="w-4 h-4" />
+            Cancel
+          </Button>
+        </div>
+      </div>
+      <Progress value={progress ?? 0} className="h-2" />
+    </motion.div>
+  );
+};
+
+export default AnalysisProgress;
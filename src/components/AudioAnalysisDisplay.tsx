@@ -4,64 +4,45 @@ import { motion } from 'framer-motion';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
-import { Slider } from './ui/slider';
-import { FileDown, AlertCircle, Volume, Volume2, VolumeX, Play, Pause, Info } from 'lucide-react';
+import { FileDown, AlertCircle, Volume, Volume2, VolumeX, Info } from 'lucide-react';
 import { Button } from './ui/button';
 import { DetectionResult } from '@/services/detectionService';
 import { generatePDFReport } from '@/utils/reportGenerator';
 import { toast } from './ui/use-toast';
-
-interface AudioAnalysis {
-  pitchConsistency: number;
-  frequencyDistortion: number;
-  artificialPatterns: number;
-  suspiciousSegments: {
-    timestamp: number;
-    duration: number;
-    confidence: number;
-    type: string;
-  }[];
-}
+import ContentCredentialsPanel from './ContentCredentialsPanel';
+import AudioPlayer, { LoopRange } from './AudioPlayer';
+import { AUDIO_SEGMENT_LABELS, AudioSegmentType } from '@/services/forensics/audio';
 
 interface AudioAnalysisDisplayProps {
   results: DetectionResult;
   audioUrl?: string;
 }
 
-// Generate frequency data for visualization
-const generateFrequencyData = (count = 50) => {
-  const data = [];
-  let prevValue = Math.random() * 40 + 10;
-  
-  for (let i = 0; i < count; i++) {
-    // Create more realistic audio-like pattern
-    const change = (Math.random() - 0.5) * 15;
-    prevValue = Math.max(5, Math.min(100, prevValue + change));
-    data.push({
-      frequency: i * 100,
-      amplitude: prevValue
-    });
-  }
-  return data;
+// Segments can be a few ms long (a clipped peak); shorter ones are looped
+// with some context around them so they can be heard
+const MIN_LOOP_MS = 1000;
+
+const getSegmentLoop = ({ timestamp, duration }: { timestamp: number; duration: number }): LoopRange => {
+  const padding = Math.max(0, (MIN_LOOP_MS - duration) / 2);
+  return { start: Math.max(0, timestamp - padding), end: timestamp + duration + padding };
 };
 
+const getSegmentLabel = (type: string) =>
+  AUDIO_SEGMENT_LABELS[type as AudioSegmentType] ?? type.replace('_', ' ');
+
 const AudioAnalysisDisplay = ({ results, audioUrl }: AudioAnalysisDisplayProps) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
   const [activeSegmentIndex, setActiveSegmentIndex] = useState(0);
+  const [loop, setLoop] = useState<LoopRange | null>(null);
   
   const { confidence, analysis, metadata, isManipulated, classification, riskLevel } = results;
   
-  // Type assertion for audioAnalysis
-  const audioAnalysis = analysis.audioAnalysis as AudioAnalysis | undefined;
+  const audioAnalysis = analysis.audioAnalysis;
   
   if (!audioAnalysis) {
     return <div className="p-6 text-center">No audio analysis data available</div>;
   }
   
-  const { pitchConsistency, frequencyDistortion, artificialPatterns, suspiciousSegments } = audioAnalysis;
-  
-  const audioDuration = metadata.duration || 30; // fallback to 30 seconds
+  const { pitchConsistency, frequencyDistortion, artificialPatterns, suspiciousSegments, frequencyProfile, pitchContour, bandwidth } = audioAnalysis;
   
   const pieChartData = [
     { name: 'Manipulated', value: confidence },
@@ -74,8 +55,6 @@ const AudioAnalysisDisplay = ({ results, audioUrl }: AudioAnalysisDisplayProps)
     { name: 'Artificial Patterns', value: artificialPatterns },
   ];
   
-  const frequencyData = generateFrequencyData();
-  
   const COLORS = ['#FF4560', '#00C292', '#FEB019'];
   
   const getConfidenceLevel = (score: number) => {
@@ -86,20 +65,10 @@ const AudioAnalysisDisplay = ({ results, audioUrl }: AudioAnalysisDisplayProps)
   
   const confidenceLevel = getConfidenceLevel(confidence);
   
-  const handlePlayPause = () => {
-    setIsPlaying(!isPlaying);
-    // In a real implementation, this would control audio playback
-  };
-  
-  const handleTimeChange = (value: number[]) => {
-    setCurrentTime(value[0]);
-    // In a real implementation, this would seek to the specified time
-  };
-  
   const handleSegmentSelect = (index: number) => {
     setActiveSegmentIndex(index);
     if (suspiciousSegments[index]) {
-      setCurrentTime(suspiciousSegments[index].timestamp / 1000);
+      setLoop(getSegmentLoop(suspiciousSegments[index]));
     }
   };
   
@@ -126,6 +95,7 @@ const AudioAnalysisDisplay = ({ results, audioUrl }: AudioAnalysisDisplayProps)
       case 'likely_authentic': return 'Likely Authentic';
       case 'possibly_manipulated': return 'Possibly Manipulated';
       case 'highly_manipulated': return 'Highly Manipulated';
+      case 'ai_generated': return 'AI Generated';
       default: return classification;
     }
   };
@@ -187,13 +157,17 @@ const AudioAnalysisDisplay = ({ results, audioUrl }: AudioAnalysisDisplayProps)
           </div>
         </div>
 
+        {results.provenance && <ContentCredentialsPanel provenance={results.provenance} />}
+
         {results.isManipulated && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
             <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
             <div>
               <h4 className="font-semibold text-red-700">Potential Audio Manipulation Detected</h4>
               <p className="text-sm text-red-600 mt-1">
-                Our analysis indicates this audio may have been synthetically generated or manipulated with {confidence.toFixed(1)}% confidence.
+                {classification === 'ai_generated'
+                  ? `Its verified Content Credentials declare it AI generated; the detector scored it ${confidence.toFixed(1)}%.`
+                  : `Our analysis indicates this audio may have been synthetically generated or manipulated with ${confidence.toFixed(1)}% confidence.`}
               </p>
             </div>
           </div>
@@ -239,79 +213,65 @@ const AudioAnalysisDisplay = ({ results, audioUrl }: AudioAnalysisDisplayProps)
           </div>
         </div>
 
-        <div className="space-y-4">
-          <h4 className="font-medium text-sm text-gray-600">Audio Frequency Visualization</h4>
-          <div className="h-40 w-full bg-gray-50 rounded-lg overflow-hidden">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={frequencyData}>
-                <XAxis dataKey="frequency" label={{ value: 'Frequency (Hz)', position: 'insideBottom', offset: -5 }} />
-                <YAxis label={{ value: 'Amplitude', angle: -90, position: 'insideLeft' }} />
-                <Tooltip />
-                <Line type="monotone" dataKey="amplitude" stroke="#4f46e5" />
-              </LineChart>
-            </ResponsiveContainer>
+        {frequencyProfile && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-sm text-gray-600">Frequency Profile</h4>
+              {bandwidth !== undefined && (
+                <span className="text-xs text-gray-500">Content up to {(bandwidth / 1000).toFixed(2)} kHz</span>
+              )}
+            </div>
+            <div className="h-40 w-full bg-gray-50 rounded-lg overflow-hidden">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={frequencyProfile}>
+                  <XAxis dataKey="frequency" tickFormatter={(frequency: number) => `${(frequency / 1000).toFixed(0)}k`} />
+                  <YAxis tickFormatter={(level: number) => level.toFixed(0)} width={40} />
+                  <Tooltip
+                    labelFormatter={(frequency: number) => `${frequency.toFixed(0)} Hz`}
+                    formatter={(level: number) => [`${level.toFixed(1)} dB`, 'Level']}
+                  />
+                  <Line type="monotone" dataKey="level" stroke="#4f46e5" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
           </div>
-        </div>
+        )}
+
+        {pitchContour && pitchContour.some(point => point.f0 !== null) && (
+          <div className="space-y-4">
+            <h4 className="font-medium text-sm text-gray-600">Pitch Contour (F0)</h4>
+            <div className="h-40 w-full bg-gray-50 rounded-lg overflow-hidden">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={pitchContour}>
+                  <XAxis dataKey="timestamp" tickFormatter={(timestamp: number) => `${(timestamp / 1000).toFixed(0)}s`} />
+                  <YAxis tickFormatter={(f0: number) => f0.toFixed(0)} width={40} />
+                  <Tooltip
+                    labelFormatter={(timestamp: number) => `${(timestamp / 1000).toFixed(2)}s`}
+                    formatter={(f0: number) => [`${f0.toFixed(1)} Hz`, 'F0']}
+                  />
+                  <Line type="linear" dataKey="f0" stroke="#0ea5e9" dot={false} connectNulls={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
 
         <div className="space-y-4">
           <h4 className="font-medium text-sm text-gray-600">Audio Waveform</h4>
-          <div className="relative h-24 bg-gray-50 rounded-lg overflow-hidden">
-            {/* Audio waveform visualization would go here in a real implementation */}
-            <div className="absolute inset-0 flex items-center justify-center">
-              <div className="w-full h-12 flex items-center">
-                {Array.from({ length: 100 }).map((_, i) => {
-                  const height = 5 + Math.random() * 30;
-                  const isSuspicious = suspiciousSegments.some(
-                    seg => (i / 100) * audioDuration >= seg.timestamp / 1000 && 
-                           (i / 100) * audioDuration <= (seg.timestamp + seg.duration) / 1000
-                  );
-                  return (
-                    <div 
-                      key={i} 
-                      className={`mx-[1px] ${isSuspicious ? 'bg-red-400' : 'bg-blue-400'}`}
-                      style={{ height: `${height}px`, width: '2px' }}
-                    />
-                  );
-                })}
-              </div>
-            </div>
-            
-            {/* Playback position indicator */}
-            <div 
-              className="absolute top-0 bottom-0 w-0.5 bg-black"
-              style={{ left: `${(currentTime / audioDuration) * 100}%` }}
+          {audioUrl ? (
+            <AudioPlayer
+              audioUrl={audioUrl}
+              segments={suspiciousSegments}
+              activeSegmentIndex={activeSegmentIndex}
+              loop={loop}
+              onLoopChange={setLoop}
+              onSegmentClick={handleSegmentSelect}
             />
-            
-            {/* Suspicious segments highlights */}
-            {suspiciousSegments.map((segment, index) => (
-              <div
-                key={index}
-                className="absolute top-0 bottom-0 bg-red-200 opacity-50"
-                style={{ 
-                  left: `${(segment.timestamp / 1000 / audioDuration) * 100}%`,
-                  width: `${(segment.duration / 1000 / audioDuration) * 100}%`
-                }}
-                onClick={() => handleSegmentSelect(index)}
-              />
-            ))}
-          </div>
-          
-          <div className="flex items-center gap-4">
-            <Button variant="outline" size="sm" onClick={handlePlayPause}>
-              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-            </Button>
-            <div className="flex-1">
-              <Slider
-                value={[currentTime]}
-                max={audioDuration}
-                step={0.1}
-                onValueChange={handleTimeChange}
-              />
-            </div>
-            <div className="text-xs text-gray-500 min-w-16">
-              {currentTime.toFixed(1)}s / {audioDuration.toFixed(1)}s
+          ) : (
+            <div className="text-center p-4 bg-gray-50 rounded-lg text-gray-500">
+              The audio is no longer available for playback
             </div>
-          </div>
+          )}
         </div>
         
         <div className="space-y-4">
@@ -329,7 +289,7 @@ const AudioAnalysisDisplay = ({ results, audioUrl }: AudioAnalysisDisplayProps)
                       <Badge variant={index === activeSegmentIndex ? "default" : "outline"} className="h-6">
                         {(segment.timestamp / 1000).toFixed(1)}s - {((segment.timestamp + segment.duration) / 1000).toFixed(1)}s
                       </Badge>
-                      <span className="text-sm font-medium">{segment.type.replace('_', ' ')}</span>
+                      <span className="text-sm font-medium">{getSegmentLabel(segment.type)}</span>
                     </div>
                     <Badge variant="outline" className={segment.confidence > 70 ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-700'}>
                       {segment.confidence.toFixed(1)}%
@@ -0,0 +1,268 @@
+import { useState, useEffect, useRef } from 'react';
+import { Loader2, Play, Pause, Repeat, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { DetectionResult } from '@/services/detectionService';
+import { AUDIO_SEGMENT_LABELS, AudioSegmentType, computeWaveform } from '@/services/forensics/audio';
+
+type AudioSegment = NonNullable<DetectionResult['analysis']['audioAnalysis']>['suspiciousSegments'][number];
+
+// Span in ms
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+interface AudioPlayerProps {
+  audioUrl: string;
+  segments: AudioSegment[];
+  activeSegmentIndex?: number;
+  // Played over and over while set; null plays through
+  loop: LoopRange | null;
+  onLoopChange: (loop: LoopRange | null) => void;
+  onSegmentClick?: (index: number) => void;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+// Segments of types from older results or other detectors
+const DEFAULT_SEGMENT_COLOR = '#ef4444';
+const SEGMENT_COLORS: Record<AudioSegmentType, string> = {
+  pitch_jump: '#ef4444',
+  digital_silence: '#8b5cf6',
+  clipping: '#f97316',
+  repetition: '#d946ef',
+};
+
+const getSegmentColor = (type: string) => SEGMENT_COLORS[type as AudioSegmentType] ?? DEFAULT_SEGMENT_COLOR;
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const AudioPlayer = ({ audioUrl, segments, activeSegmentIndex, loop, onLoopChange, onSegmentClick }: AudioPlayerProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [waveform, setWaveform] = useState<{ min: number; max: number }[] | null>(null);
+  const [waveformError, setWaveformError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Seconds, as on the media element
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  // Start of an A/B loop whose end has not been set yet, in ms
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    setWaveformError(null);
+    computeWaveform(audioUrl)
+      .then(peaks => {
+        if (!cancelled) setWaveform(peaks);
+      })
+      .catch(err => {
+        console.error('Waveform could not be computed:', err);
+        if (!cancelled) setWaveformError('The waveform is not available for this file.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl]);
+
+  // Follow the playhead every frame while playing; timeupdate only fires a
+  // few times per second, which is too coarse for short loops
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (loop && (audio.currentTime * 1000 >= loop.end || audio.currentTime * 1000 < loop.start)) {
+        audio.currentTime = loop.start / 1000;
+      }
+      setCurrentTime(audio.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, loop]);
+
+  // A new loop starts playing from its beginning
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !loop) return;
+    audio.currentTime = loop.start / 1000;
+    setCurrentTime(audio.currentTime);
+    audio.play().catch(err => console.error('Playback failed:', err));
+  }, [loop]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
+
+  const handlePlayPause = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(err => console.error('Playback failed:', err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((event.clientX - bounds.left) / bounds.width) * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const handleSetLoopPoint = () => {
+    const time = currentTime * 1000;
+    if (loopStart === null || time <= loopStart) {
+      setLoopStart(time);
+      return;
+    }
+    onLoopChange({ start: loopStart, end: time });
+    setLoopStart(null);
+  };
+
+  const handleClearLoop = () => {
+    setLoopStart(null);
+    onLoopChange(null);
+  };
+
+  const toPercent = (ms: number) => (duration ? Math.min(100, (ms / 1000 / duration) * 100) : 0);
+  const segmentTypes = [...new Set(segments.map(segment => segment.type))];
+
+  return (
+    <div className="space-y-3">
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        preload="metadata"
+        onLoadedMetadata={event => {
+          setDuration(event.currentTarget.duration);
+          event.currentTarget.playbackRate = playbackRate;
+        }}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onTimeUpdate={event => {
+          if (event.currentTarget.paused) setCurrentTime(event.currentTarget.currentTime);
+        }}
+      />
+
+      <div
+        className="relative h-24 bg-gray-50 dark:bg-gray-900 rounded-lg overflow-hidden cursor-pointer"
+        onClick={handleSeek}
+      >
+        {waveform && (
+          <svg
+            viewBox={`0 -1 ${waveform.length} 2`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full text-blue-400"
+          >
+            {waveform.map(({ min, max }, bin) => (
+              <rect key={bin} x={bin} y={-max} width={0.8} height={Math.max(0.01, max - min)} fill="currentColor" />
+            ))}
+          </svg>
+        )}
+        {!waveform && !waveformError && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+          </div>
+        )}
+        {waveformError && (
+          <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">{waveformError}</p>
+        )}
+
+        {segments.map((segment, index) => (
+          <div
+            key={index}
+            title={`${AUDIO_SEGMENT_LABELS[segment.type as AudioSegmentType] ?? segment.type} (${segment.confidence.toFixed(0)}%)`}
+            className={`absolute top-0 bottom-0 opacity-30 hover:opacity-50 ${index === activeSegmentIndex ? 'ring-2 ring-inset ring-black/40' : ''}`}
+            style={{
+              left: `${toPercent(segment.timestamp)}%`,
+              // Very short segments (a clipped peak) stay visible
+              width: `max(2px, ${toPercent(segment.duration)}%)`,
+              backgroundColor: getSegmentColor(segment.type),
+            }}
+            onClick={event => {
+              event.stopPropagation();
+              onSegmentClick?.(index);
+            }}
+          />
+        ))}
+
+        {loop && (
+          <div
+            className="absolute top-0 bottom-0 border-x-2 border-green-600 bg-green-400/15 pointer-events-none"
+            style={{ left: `${toPercent(loop.start)}%`, width: `${toPercent(loop.end - loop.start)}%` }}
+          />
+        )}
+        {loopStart !== null && (
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-green-600 pointer-events-none"
+            style={{ left: `${toPercent(loopStart)}%` }}
+          />
+        )}
+
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-black dark:bg-white pointer-events-none"
+          style={{ left: `${duration ? (currentTime / duration) * 100 : 0}%` }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handlePlayPause}>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <div className="text-xs text-gray-500 min-w-24">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </div>
+        <Button variant="outline" size="sm" className="gap-1" onClick={handleSetLoopPoint}>
+          <Repeat className="w-4 h-4" />
+          {loopStart === null ? 'Set A' : 'Set B'}
+        </Button>
+        {(loop || loopStart !== null) && (
+          <Button variant="ghost" size="sm" className="gap-1" onClick={handleClearLoop}>
+            <X className="w-4 h-4" />
+            Clear loop
+          </Button>
+        )}
+        {loop && (
+          <span className="text-xs text-green-700 dark:text-green-400">
+            Looping {formatTime(loop.start / 1000)} - {formatTime(loop.end / 1000)}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-gray-500">Speed</span>
+          <Select value={String(playbackRate)} onValueChange={value => setPlaybackRate(Number(value))}>
+            <SelectTrigger className="h-8 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map(rate => (
+                <SelectItem key={rate} value={String(rate)}>{rate}x</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {segmentTypes.length > 0 && (
+        <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+          {segmentTypes.map(type => (
+            <span key={type} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-sm opacity-60" style={{ backgroundColor: getSegmentColor(type) }} />
+              {AUDIO_SEGMENT_LABELS[type as AudioSegmentType] ?? type.replace('_', ' ')}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioPlayer;
@@ -0,0 +1,112 @@
+import { motion } from 'framer-motion';
+import { CheckCircle2, Clock, Loader2, Trash2, XCircle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import type { BatchJob, BatchJobStatus } from '@/hooks/useBatchQueue';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  selectedJobId: string | null;
+  onSelect: (job: BatchJob) => void;
+  onClear: () => void;
+}
+
+const CLASSIFICATIONS = [
+  { value: 'highly_authentic', label: 'Highly Authentic', className: 'bg-green-50 text-green-700' },
+  { value: 'likely_authentic', label: 'Likely Authentic', className: 'bg-green-50 text-green-700' },
+  { value: 'possibly_manipulated', label: 'Possibly Manipulated', className: 'bg-yellow-50 text-yellow-700' },
+  { value: 'highly_manipulated', label: 'Highly Manipulated', className: 'bg-red-50 text-red-700' },
+  { value: 'ai_generated', label: 'AI Generated', className: 'bg-red-50 text-red-700' },
+];
+
+const getClassificationLabel = (classification: string) =>
+  CLASSIFICATIONS.find(c => c.value === classification)?.label ?? classification;
+
+const StatusIcon = ({ status }: { status: BatchJobStatus }) => {
+  switch (status) {
+    case 'queued': return <Clock className="w-4 h-4 text-gray-400" />;
+    case 'running': return <Loader2 className="w-4 h-4 text-primary animate-spin" />;
+    case 'done': return <CheckCircle2 className="w-4 h-4 text-green-500" />;
+    case 'failed': return <XCircle className="w-4 h-4 text-red-500" />;
+  }
+};
+
+const BatchQueue = ({ jobs, selectedJobId, onSelect, onClear }: BatchQueueProps) => {
+  const finished = jobs.filter(job => job.status === 'done' || job.status === 'failed').length;
+  const failed = jobs.filter(job => job.status === 'failed').length;
+
+  const countsByClassification = jobs.reduce<Record<string, number>>((counts, job) => {
+    if (job.analysis) {
+      const { classification } = job.analysis.results;
+      counts[classification] = (counts[classification] || 0) + 1;
+    }
+    return counts;
+  }, {});
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-4xl mx-auto bg-white/5 backdrop-blur-sm border rounded-lg p-4 space-y-4"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-medium">Batch Analysis</h3>
+          <p className="text-sm text-muted-foreground">
+            {finished} of {jobs.length} files analyzed
+          </p>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={onClear}>
+          <Trash2 className="w-4 h-4" />
+          Clear Batch
+        </Button>
+      </div>
+
+      <Progress value={jobs.length > 0 ? (finished / jobs.length) * 100 : 0} className="h-2" />
+
+      <div className="flex flex-wrap gap-2">
+        {CLASSIFICATIONS.map(({ value, label, className }) => (
+          <Badge key={value} variant="outline" className={className}>
+            {label}: {countsByClassification[value] || 0}
+          </Badge>
+        ))}
+        <Badge variant="outline" className="bg-gray-50 text-gray-700">
+          Failed: {failed}
+        </Badge>
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {jobs.map(job => (
+          <div
+            key={job.id}
+            className={`p-3 rounded-lg border flex items-center gap-3 ${
+              job.analysis ? 'cursor-pointer hover:bg-muted/50' : ''
+            } ${job.id === selectedJobId ? 'border-primary bg-primary/5' : 'border-gray-200 dark:border-gray-700'}`}
+            onClick={() => job.analysis && onSelect(job)}
+          >
+            <StatusIcon status={job.status} />
+            <span className="text-sm truncate flex-1">{job.file.name}</span>
+            {job.status === 'running' && (
+              <Progress value={job.progress} className="h-1.5 w-24" />
+            )}
+            {job.status === 'failed' && (
+              <span className="text-xs text-red-500 truncate max-w-[40%]">{job.error}</span>
+            )}
+            {job.analysis && (
+              <>
+                <span className="text-xs text-gray-500">{job.analysis.results.confidence.toFixed(1)}%</span>
+                <Badge variant={job.analysis.results.isManipulated ? "destructive" : "default"}>
+                  {getClassificationLabel(job.analysis.results.classification)}
+                </Badge>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,47 @@
+import { motion } from 'framer-motion';
+import { AlertTriangle, Info, Webcam } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { CameraCheck } from '@/services/cameraCheck';
+
+interface CameraCheckPanelProps {
+  check: CameraCheck;
+}
+
+const CameraCheckPanel = ({ check }: CameraCheckPanelProps) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-4xl mx-auto bg-white/5 backdrop-blur-sm border rounded-lg p-4 space-y-4"
+    >
+      <div className="flex items-center gap-3">
+        <Webcam className="w-5 h-5 text-primary" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-medium">Camera Check</h3>
+          <p className="text-sm text-muted-foreground break-words">
+            {check.label || 'Unnamed camera'}. Virtual cameras and injected streams can pass off pre-rendered video as live.
+          </p>
+        </div>
+        <Badge variant={check.suspicious ? 'destructive' : 'outline'}>
+          {check.suspicious ? 'Possibly virtual' : 'No sign of a virtual camera'}
+        </Badge>
+      </div>
+
+      {check.signals.length > 0 && (
+        <ul className="space-y-2 text-sm">
+          {check.signals.map(signal => (
+            <li key={signal.type} className="flex items-start gap-2">
+              {signal.severity === 'warning'
+                ? <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-600" />
+                : <Info className="w-4 h-4 mt-0.5 shrink-0 text-blue-600" />}
+              <span>{signal.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+};
+
+export default CameraCheckPanel;
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { listCameras } from '@/services/cameraCheck';
+
+interface CameraPickerProps {
+  // deviceId of the chosen camera; the browser default when null
+  value: string | null;
+  onChange: (deviceId: string) => void;
+  // Changing it lists the cameras again; labels are only readable once camera
+  // access was granted
+  refreshKey?: unknown;
+  disabled?: boolean;
+}
+
+const CameraPicker = ({ value, onChange, refreshKey, disabled = false }: CameraPickerProps) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listCameras()
+        .then(devices => {
+          if (!cancelled) setCameras(devices);
+        })
+        .catch(error => console.error('Failed to list cameras:', error));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [refreshKey]);
+
+  // Without a deviceId the browser hides the devices until access is granted
+  const choices = cameras.filter(camera => camera.deviceId);
+  if (choices.length === 0) return null;
+
+  return (
+    <Select value={value ?? undefined} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-64">
+        <SelectValue placeholder="Default camera" />
+      </SelectTrigger>
+      <SelectContent>
+        {choices.map((camera, index) => (
+          <SelectItem key={camera.deviceId} value={camera.deviceId}>
+            {camera.label || `Camera ${index + 1}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CameraPicker;
@@ -0,0 +1,90 @@
+import { ShieldAlert, ShieldCheck, ShieldQuestion, Sparkles } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { ProvenanceStatus, ProvenanceSummary } from '@/services/provenance';
+
+interface ContentCredentialsPanelProps {
+  provenance: ProvenanceSummary;
+}
+
+const STATUS_DISPLAY: Record<ProvenanceStatus, { label: string; icon: typeof ShieldCheck; className: string }> = {
+  valid: { label: 'Verified', icon: ShieldCheck, className: 'border-green-200 bg-green-50 text-green-800' },
+  untrusted: { label: 'Unverified signer', icon: ShieldQuestion, className: 'border-yellow-200 bg-yellow-50 text-yellow-800' },
+  invalid: { label: 'Invalid', icon: ShieldAlert, className: 'border-red-200 bg-red-50 text-red-800' },
+};
+
+// Readable form of action labels such as 'c2pa.color_adjustments'
+const formatAction = (action: string) => action.replace(/^c2pa\./, '').replace(/_/g, ' ');
+
+const ContentCredentialsPanel = ({ provenance }: ContentCredentialsPanelProps) => {
+  const { label, icon: Icon, className } = STATUS_DISPLAY[provenance.status];
+
+  return (
+    <div className={`rounded-lg border p-4 space-y-3 ${className}`}>
+      <div className="flex items-start gap-3">
+        <Icon className="w-5 h-5 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="font-semibold">Content Credentials</h4>
+            <Badge variant="outline" className="bg-white/60">{label}</Badge>
+            {provenance.isAiGenerated && (
+              <Badge variant="outline" className="bg-white/60 gap-1">
+                <Sparkles className="w-3 h-3" />
+                Generative AI
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm">
+            {provenance.signer ? `Signed by ${provenance.signer}` : 'Signer unknown'}
+            {provenance.claimGenerator && ` using ${provenance.claimGenerator}`}.
+            {provenance.isAiGenerated && provenance.status === 'valid' &&
+              ' The manifest declares that this content was created with generative AI.'}
+          </p>
+        </div>
+      </div>
+
+      {provenance.actions.length > 0 && (
+        <div className="text-sm">
+          <p className="font-medium">Actions</p>
+          <ul className="list-disc pl-5">
+            {provenance.actions.map((action, index) => (
+              <li key={index} className="first-letter:uppercase">
+                {formatAction(action.action)}
+                {action.softwareAgent && ` with ${action.softwareAgent}`}
+                {action.when && ` on ${new Date(action.when).toLocaleString()}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {provenance.ingredients.length > 0 && (
+        <div className="text-sm">
+          <p className="font-medium">Ingredients</p>
+          <ul className="list-disc pl-5">
+            {provenance.ingredients.map((ingredient, index) => (
+              <li key={index}>
+                {ingredient.title ?? 'Untitled'}
+                {ingredient.format && ` (${ingredient.format})`}
+                {ingredient.relationship && ` · ${ingredient.relationship}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {provenance.errors.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {provenance.errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <p className="text-xs opacity-80">
+        Manifest {provenance.manifestLabel}
+        {provenance.manifestCount > 1 && ` (${provenance.manifestCount} in history)`}
+        {' · '}Content hash: {provenance.contentBinding}
+      </p>
+    </div>
+  );
+};
+
+export default ContentCredentialsPanel;
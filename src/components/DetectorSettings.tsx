@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useAnalysisSettings } from '@/hooks/useAnalysisSettings';
+import { getActiveDetector, getDetectors } from '@/services/detectors/registry';
+import type { MediaType } from '@/services/detectors/types';
+
+const MEDIA_TYPES: { type: MediaType; label: string }[] = [
+  { type: 'image', label: 'Images' },
+  { type: 'video', label: 'Videos' },
+  { type: 'audio', label: 'Audio' },
+];
+
+const DetectorSettings = () => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { settings, updateSettings } = useAnalysisSettings();
+
+  const handleDetectorChange = (mediaType: MediaType, detectorId: string) => {
+    updateSettings({ detectors: { ...settings.detectors, [mediaType]: detectorId } });
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsDialogOpen(true)}>
+        <Settings2 className="w-4 h-4" />
+        Detectors
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Detector Backends</DialogTitle>
+            <DialogDescription>
+              Choose which detector analyzes each media type. Your choice is saved on this device.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 mt-2">
+            {MEDIA_TYPES.map(({ type, label }) => {
+              const active = getActiveDetector(type, settings);
+              return (
+                <div key={type} className="space-y-2">
+                  <Label>{label}</Label>
+                  <Select value={active.id} onValueChange={(value) => handleDetectorChange(type, value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getDetectors(type).map(backend => (
+                        <SelectItem key={backend.id} value={backend.id}>{backend.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{active.description}</p>
+                </div>
+              );
+            })}
+
+            <div className="space-y-2">
+              <Label htmlFor="http-endpoint">Inference server URL</Label>
+              <Input
+                id="http-endpoint"
+                type="url"
+                value={settings.httpEndpoint}
+                onChange={(e) => updateSettings({ httpEndpoint: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Used by the local inference server backend (POST /detect).
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="video-sample-rate">Video frames per second</Label>
+                <Input
+                  id="video-sample-rate"
+                  type="number"
+                  min={0.1}
+                  max={30}
+                  step={0.1}
+                  value={settings.videoSampleRate}
+                  onChange={(e) => updateSettings({ videoSampleRate: Math.max(0.1, Number(e.target.value) || 1) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-video-frames">Max frames per video</Label>
+                <Input
+                  id="max-video-frames"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={settings.maxVideoFrames}
+                  onChange={(e) => updateSettings({ maxVideoFrames: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                />
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Used by the frame sampling backend to build the video timeline.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="live-sample-rate">Live frames per second</Label>
+                <Input
+                  id="live-sample-rate"
+                  type="number"
+                  min={0.2}
+                  max={10}
+                  step={0.1}
+                  value={settings.liveSampleRate}
+                  onChange={(e) => updateSettings({ liveSampleRate: Math.min(10, Math.max(0.2, Number(e.target.value) || 1)) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="live-alert-threshold">Live alert threshold (%)</Label>
+                <Input
+                  id="live-alert-threshold"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.liveAlertThreshold}
+                  onChange={(e) => updateSettings({ liveAlertThreshold: Math.min(100, Math.max(1, Math.round(Number(e.target.value)) || 70)) })}
+                />
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Used when monitoring a webcam continuously. Frames are skipped when the detector cannot keep up.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="batch-concurrency">Batch concurrency</Label>
+              <Input
+                id="batch-concurrency"
+                type="number"
+                min={1}
+                max={8}
+                value={settings.batchConcurrency}
+                onChange={(e) => updateSettings({ batchConcurrency: Math.min(8, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Number of files analyzed at the same time when several are dropped.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="cors-proxy-url">CORS proxy for media URLs</Label>
+                <Input
+                  id="cors-proxy-url"
+                  type="url"
+                  placeholder="http://localhost:8080/?url={url}"
+                  value={settings.corsProxyUrl}
+                  onChange={(e) => updateSettings({ corsProxyUrl: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-download-mb">Max download (MB)</Label>
+                <Input
+                  id="max-download-mb"
+                  type="number"
+                  min={1}
+                  max={2000}
+                  value={settings.maxDownloadMb}
+                  onChange={(e) => updateSettings({ maxDownloadMb: Math.min(2000, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+                />
+              </div>
+              <p className="col-span-3 text-xs text-muted-foreground">
+                URLs are fetched directly first; the proxy is used when the server does not allow cross-origin reads.
+                The media URL replaces {'{url}'} or is appended to the proxy address.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="c2pa-trust-anchors">Content Credentials trust anchors</Label>
+              <Textarea
+                id="c2pa-trust-anchors"
+                rows={4}
+                className="font-mono text-xs"
+                placeholder="-----BEGIN CERTIFICATE-----"
+                value={settings.c2paTrustAnchors}
+                onChange={(e) => updateSettings({ c2paTrustAnchors: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                PEM root or intermediate certificates. C2PA manifests signed by other chains are reported as untrusted.
+              </p>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default DetectorSettings;
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Slider } from './ui/slider';
+import { DEFAULT_ELA_QUALITY, ElaResult, computeEla } from '@/services/forensics/ela';
+
+interface ElaViewProps {
+  mediaUrl: string;
+  // Whether the source is a JPEG; ELA on other formats is only indicative
+  isJpeg: boolean;
+}
+
+const ElaView = ({ mediaUrl, isJpeg }: ElaViewProps) => {
+  const [quality, setQuality] = useState(DEFAULT_ELA_QUALITY);
+  // Recomputing is expensive, so it only follows the slider once released
+  const [appliedQuality, setAppliedQuality] = useState(DEFAULT_ELA_QUALITY);
+  const [result, setResult] = useState<ElaResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsComputing(true);
+    setError(null);
+    computeEla(mediaUrl, appliedQuality)
+      .then(ela => {
+        if (!cancelled) setResult(ela);
+      })
+      .catch(err => {
+        console.error('Error level analysis failed:', err);
+        if (!cancelled) setError('Error level analysis is not available for this image.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsComputing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaUrl, appliedQuality]);
+
+  return (
+    <div className="space-y-4 max-w-3xl mx-auto">
+      <div className="relative aspect-video rounded-lg overflow-hidden bg-black border border-gray-300 dark:border-gray-700 flex items-center justify-center">
+        {result && (
+          <img src={result.imageUrl} alt="Error level analysis" className="w-full h-full object-contain" />
+        )}
+        {isComputing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+            <Loader2 className="w-6 h-6 text-white animate-spin" />
+          </div>
+        )}
+        {error && <p className="text-sm text-gray-300">{error}</p>}
+      </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-muted-foreground whitespace-nowrap">JPEG quality</span>
+        <Slider
+          value={[quality]}
+          min={50}
+          max={100}
+          step={1}
+          onValueChange={([value]) => setQuality(value)}
+          onValueCommit={([value]) => setAppliedQuality(value)}
+          className="flex-1"
+        />
+        <span className="w-10 text-right">{quality}</span>
+      </div>
+
+      {result && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Badge variant="outline" className={result.score >= 50 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}>
+            ELA anomaly {result.score.toFixed(1)}%
+          </Badge>
+          <span className="text-muted-foreground">Mean error level {result.meanError.toFixed(2)}</span>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The image is recompressed at the selected quality and the difference is amplified. Regions that were pasted
+        or edited after the last save often show a brighter or noticeably different error level than their surroundings.
+        {!isJpeg && ' This source is not a JPEG, so the result is only indicative.'}
+      </p>
+    </div>
+  );
+};
+
+export default ElaView;
@@ -25,10 +25,11 @@ export interface AnalysisEntry {
 }
 
 interface ExcelDataExportProps {
-  latestEntry?: AnalysisEntry;
+  // Entries completed since the last render; a batch can finish several at once
+  latestEntries?: AnalysisEntry[];
 }
 
-const ExcelDataExport = ({ latestEntry }: ExcelDataExportProps) => {
+const ExcelDataExport = ({ latestEntries }: ExcelDataExportProps) => {
   const [entries, setEntries] = useState<AnalysisEntry[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   
@@ -40,19 +41,23 @@ const ExcelDataExport = ({ latestEntry }: ExcelDataExportProps) => {
     }
   }, []);
   
-  // Update entries when a new analysis is completed
+  // Update entries when new analyses are completed
   useEffect(() => {
-    if (latestEntry) {
-      const updatedEntries = [...entries, latestEntry];
-      setEntries(updatedEntries);
-      localStorage.setItem('analysisEntries', JSON.stringify(updatedEntries));
+    if (latestEntries && latestEntries.length > 0) {
+      setEntries(prev => {
+        const updatedEntries = [...prev, ...latestEntries];
+        localStorage.setItem('analysisEntries', JSON.stringify(updatedEntries));
+        return updatedEntries;
+      });
       
       toast({
         title: "Analysis logged",
-        description: "Results have been saved to your secure local data store.",
+        description: latestEntries.length > 1
+          ? `${latestEntries.length} results have been saved to your secure local data store.`
+          : "Results have been saved to your secure local data store.",
       });
     }
-  }, [latestEntry]);
+  }, [latestEntries]);
   
   const downloadExcel = () => {
     // Create CSV content
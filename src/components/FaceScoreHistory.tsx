@@ -0,0 +1,70 @@
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import type { FaceObservation } from '@/services/faces';
+
+interface FaceScoreHistoryProps {
+  trackId: number;
+  // Observations of this track, in any order
+  observations: FaceObservation[];
+  onClose: () => void;
+}
+
+const FaceScoreHistory = ({ trackId, observations, onClose }: FaceScoreHistoryProps) => {
+  const history = [...observations].sort((a, b) => a.timestamp - b.timestamp);
+  const mean = history.reduce((sum, face) => sum + face.confidence, 0) / history.length;
+  const peak = Math.max(...history.map(face => face.confidence));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="max-w-3xl mx-auto p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <h5 className="font-medium">Face #{trackId}</h5>
+          <Badge variant={mean >= 50 ? "destructive" : "default"}>
+            {mean.toFixed(1)}% {history.length > 1 ? 'average' : 'manipulation'}
+          </Badge>
+          {history.length > 1 && (
+            <span className="text-xs text-muted-foreground">
+              Peak {peak.toFixed(1)}% over {history.length} frames
+            </span>
+          )}
+        </div>
+        <Button variant="ghost" size="icon" aria-label="Close face history" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {history.length > 1 ? (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={history.map(face => ({ time: face.timestamp / 1000, confidence: face.confidence }))}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" tickFormatter={(time: number) => `${time.toFixed(1)}s`} />
+              <YAxis domain={[0, 100]} />
+              <Tooltip
+                labelFormatter={(time: number) => `${time.toFixed(2)}s`}
+                formatter={(value: number) => [`${value.toFixed(1)}%`, 'Manipulation']}
+              />
+              <ReferenceLine y={50} stroke="#ef4444" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="confidence" stroke="#8884d8" dot={{ r: 2 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This face appears in a single frame; its crop scored {history[0].confidence.toFixed(1)}% likely manipulated
+          (detector certainty {(history[0].detectionScore * 100).toFixed(0)}%).
+        </p>
+      )}
+    </motion.div>
+  );
+};
+
+export default FaceScoreHistory;
@@ -1,14 +1,17 @@
-
 import React, { useState, useCallback } from 'react';
-import { motion } from 'framer-motion';
-import { ZoomIn, Search, Download } from 'lucide-react';
+import { ZoomIn, Search, Layers } from 'lucide-react';
 import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import type { FaceObservation } from '@/services/faces';
+import { FORGERY_LABELS, ForgeryKind, ForgeryMask } from '@/services/forensics/localization';
 
 interface HeatmapRegion {
+  // Center and radius in percent of the image size
   x: number;
   y: number;
   intensity: number;
   radius: number;
+  source?: 'saliency' | ForgeryKind;
 }
 
 interface HeatmapData {
@@ -23,31 +26,48 @@ interface HeatmapVisualizationProps {
     timestamp: number;
   };
   gradCamUrl?: string | null;
+  // Transparent colormapped saliency overlay for frameImageUrl
+  saliencyUrl?: string | null;
+  // Copy-move and splicing overlays for frameImageUrl
+  forgeryMasks?: ForgeryMask[];
   frameImageUrl?: string | null;
   isDeepfake?: boolean;
+  // Faces found in the displayed frame
+  faces?: FaceObservation[];
+  selectedTrackId?: number | null;
+  onFaceSelect?: (trackId: number) => void;
 }
 
-const HeatmapVisualization = ({ 
-  heatmapData, 
-  mediaType, 
-  frameInfo, 
+// Outline of each region by what found it; matches the mask colors
+const REGION_COLORS: Record<NonNullable<HeatmapRegion['source']>, string> = {
+  saliency: 'white',
+  copy_move: '#d946ef',
+  splicing: '#f97316',
+};
+
+const HeatmapVisualization = ({
+  heatmapData,
+  mediaType,
+  frameInfo,
   gradCamUrl,
+  saliencyUrl,
+  forgeryMasks = [],
   frameImageUrl,
-  isDeepfake = true
+  isDeepfake = true,
+  faces = [],
+  selectedTrackId = null,
+  onFaceSelect
 }: HeatmapVisualizationProps) => {
   const [hoveredRegion, setHoveredRegion] = useState<number | null>(null);
   const [zoomLevel, setZoomLevel] = useState(1);
-  const [showGradCam, setShowGradCam] = useState(true);
-  
+  const [showSaliency, setShowSaliency] = useState(true);
+  const [overlayOpacity, setOverlayOpacity] = useState(60);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [hiddenMasks, setHiddenMasks] = useState<ForgeryKind[]>([]);
+
   // Treat audio as image for visualization purposes
   const visualizableMediaType = mediaType === 'audio' ? 'image' : mediaType;
-  
-  const HEATMAP_COLORS = [
-    'rgba(0, 255, 0, 0.2)',   // Lowest intensity (green)
-    'rgba(255, 255, 0, 0.6)', // Medium intensity (yellow)
-    'rgba(255, 0, 0, 0.8)'    // Highest intensity (red)
-  ];
-  
+
   const handleZoomIn = () => {
     setZoomLevel(prev => Math.min(prev + 0.5, 3));
   };
@@ -59,20 +79,16 @@ const HeatmapVisualization = ({
   const handleRegionHover = useCallback((index: number | null) => {
     setHoveredRegion(index);
   }, []);
-  
-  const getIntensityColor = (intensity: number) => {
-    if (intensity < 0.3) return HEATMAP_COLORS[0];
-    if (intensity < 0.7) return HEATMAP_COLORS[1];
-    return HEATMAP_COLORS[2];
-  };
-  
-  const toggleGradCam = () => {
-    setShowGradCam(!showGradCam);
+
+  // Without the separate overlay (older history entries) fall back to the blended image
+  const displayImageUrl = frameImageUrl || gradCamUrl;
+  const isOverlayVisible = showSaliency && !!saliencyUrl;
+  const visibleMasks = forgeryMasks.filter(mask => !hiddenMasks.includes(mask.kind));
+
+  const toggleMask = (kind: ForgeryKind) => {
+    setHiddenMasks(prev => (prev.includes(kind) ? prev.filter(hidden => hidden !== kind) : [...prev, kind]));
   };
-  
-  // Determine which image to display
-  const displayImageUrl = showGradCam ? gradCamUrl : frameImageUrl || gradCamUrl;
-  
+
   // For reporting accuracy ranges based on confidence
   const getConfidenceRange = (intensity: number) => {
     if (intensity > 0.85) return "Very High";
@@ -81,133 +97,205 @@ const HeatmapVisualization = ({
     if (intensity > 0.3) return "Low";
     return "Very Low";
   };
-  
-  console.log("HeatmapVisualization rendering with:", {
-    mediaType,
-    visualizableMediaType,
-    hasGradCam: !!gradCamUrl,
-    hasFrameImage: !!frameImageUrl,
-    showingGradCam: showGradCam,
-    isDeepfake
-  });
-  
+
   return (
-    <div className="relative aspect-video max-w-3xl mx-auto rounded-lg overflow-hidden bg-gray-200 border border-gray-300 dark:bg-gray-800 dark:border-gray-700">
-      {/* Classification Banner */}
-      <div className={`absolute top-0 left-0 right-0 z-10 py-1 text-center text-white text-sm font-semibold ${isDeepfake ? 'bg-red-500' : 'bg-green-500'}`}>
-        {isDeepfake ? 'DEEPFAKE DETECTED' : 'AUTHENTIC CONTENT'}
-      </div>
-      
-      {/* GradCAM View or Frame Image */}
-      {displayImageUrl ? (
-        <div 
-          className="w-full h-full"
-          style={{ transform: `scale(${zoomLevel})`, transformOrigin: 'center', transition: 'transform 0.3s ease' }}
-        >
-          <img 
-            src={displayImageUrl} 
-            alt={showGradCam ? "Grad-CAM visualization" : "Frame image"} 
-            className="w-full h-full object-contain"
-          />
+    <div className="space-y-3 max-w-3xl mx-auto">
+      <div className="relative aspect-video rounded-lg overflow-hidden bg-gray-200 border border-gray-300 dark:bg-gray-800 dark:border-gray-700">
+        {/* Classification Banner */}
+        <div className={`absolute top-0 left-0 right-0 z-20 py-1 text-center text-white text-sm font-semibold ${isDeepfake ? 'bg-red-500' : 'bg-green-500'}`}>
+          {isDeepfake ? 'DEEPFAKE DETECTED' : 'AUTHENTIC CONTENT'}
         </div>
-      ) : (
-        <div 
-          className="w-full h-full flex items-center justify-center text-gray-500 dark:text-gray-400"
-          style={{ transform: `scale(${zoomLevel})`, transformOrigin: 'center', transition: 'transform 0.3s ease' }}
-        >
-          {visualizableMediaType === 'image' ? 'Image Analysis' : `Frame at ${(frameInfo?.timestamp || 0) / 1000}s`}
-        </div>
-      )}
-      
-      {/* Zoom and visualization controls */}
-      <div className="absolute top-10 right-2 flex gap-2">
-        <Button 
-          variant="outline" 
-          size="sm" 
-          onClick={handleZoomIn} 
-          className="bg-white/80 hover:bg-white dark:bg-black/50 dark:hover:bg-black/70"
-          disabled={zoomLevel >= 3}
-        >
-          <ZoomIn size={16} />
-        </Button>
-        <Button 
-          variant="outline" 
-          size="sm" 
-          onClick={handleZoomOut}
-          className="bg-white/80 hover:bg-white dark:bg-black/50 dark:hover:bg-black/70"
-          disabled={zoomLevel <= 1}
-        >
-          <Search size={16} />
-        </Button>
-        {gradCamUrl && frameImageUrl && (
+
+        {displayImageUrl ? (
+          <div
+            className="relative w-full h-full"
+            style={{ transform: `scale(${zoomLevel})`, transformOrigin: 'center', transition: 'transform 0.3s ease' }}
+          >
+            <img
+              src={displayImageUrl}
+              alt="Analyzed frame"
+              className="w-full h-full object-contain"
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+            {/* Same aspect ratio as the frame, so object-contain keeps it aligned */}
+            {isOverlayVisible && (
+              <img
+                src={saliencyUrl!}
+                alt="Saliency map"
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                style={{ opacity: overlayOpacity / 100 }}
+              />
+            )}
+            {visibleMasks.map(mask => (
+              <img
+                key={mask.kind}
+                src={mask.url}
+                alt={`${FORGERY_LABELS[mask.kind]} mask`}
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+              />
+            ))}
+
+            {/* Saliency peaks and forgery areas, in image coordinates */}
+            {imageSize && (
+              <svg
+                className="absolute inset-0 w-full h-full"
+                viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                preserveAspectRatio="xMidYMid meet"
+                style={{ pointerEvents: 'none' }}
+              >
+                {heatmapData.regions.map((region, index) => (
+                  <circle
+                    key={index}
+                    cx={(region.x / 100) * imageSize.width}
+                    cy={(region.y / 100) * imageSize.height}
+                    r={(region.radius / 100) * imageSize.width * (hoveredRegion === index ? 1.2 : 1)}
+                    fill="transparent"
+                    stroke={REGION_COLORS[region.source ?? 'saliency']}
+                    strokeWidth={imageSize.width / 200}
+                    strokeOpacity={hoveredRegion === index ? 1 : 0.4 + region.intensity * 0.6}
+                    className="cursor-pointer"
+                    style={{ pointerEvents: 'all', transition: 'all 0.3s ease' }}
+                    onMouseEnter={() => handleRegionHover(index)}
+                    onMouseLeave={() => handleRegionHover(null)}
+                  />
+                ))}
+
+                {faces.map(face => {
+                  const color = face.confidence >= 50 ? '#ef4444' : '#22c55e';
+                  const x = (face.box.x / 100) * imageSize.width;
+                  const y = (face.box.y / 100) * imageSize.height;
+                  const fontSize = Math.max(12, imageSize.width / 40);
+                  return (
+                    <g
+                      key={`${face.trackId}-${face.timestamp}`}
+                      className="cursor-pointer"
+                      style={{ pointerEvents: 'all' }}
+                      onClick={() => onFaceSelect?.(face.trackId)}
+                    >
+                      <rect
+                        x={x}
+                        y={y}
+                        width={(face.box.width / 100) * imageSize.width}
+                        height={(face.box.height / 100) * imageSize.height}
+                        fill="transparent"
+                        stroke={color}
+                        strokeWidth={imageSize.width / (face.trackId === selectedTrackId ? 120 : 250)}
+                      />
+                      <text x={x} y={Math.max(fontSize, y - fontSize / 3)} fill={color} fontSize={fontSize} fontWeight="bold">
+                        #{face.trackId} {face.confidence.toFixed(0)}%
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            )}
+          </div>
+        ) : (
+          <div
+            className="w-full h-full flex items-center justify-center text-gray-500 dark:text-gray-400"
+            style={{ transform: `scale(${zoomLevel})`, transformOrigin: 'center', transition: 'transform 0.3s ease' }}
+          >
+            {visualizableMediaType === 'image' ? 'Image Analysis' : `Frame at ${(frameInfo?.timestamp || 0) / 1000}s`}
+          </div>
+        )}
+
+        {/* Zoom and visualization controls */}
+        <div className="absolute top-10 right-2 z-20 flex gap-2">
           <Button
             variant="outline"
             size="sm"
-            onClick={toggleGradCam}
-            className="bg-white/80 hover:bg-white text-xs dark:bg-black/50 dark:hover:bg-black/70"
+            onClick={handleZoomIn}
+            className="bg-white/80 hover:bg-white dark:bg-black/50 dark:hover:bg-black/70"
+            disabled={zoomLevel >= 3}
           >
-            {showGradCam ? "Show Frame" : "Show Grad-CAM"}
+            <ZoomIn size={16} />
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleZoomOut}
+            className="bg-white/80 hover:bg-white dark:bg-black/50 dark:hover:bg-black/70"
+            disabled={zoomLevel <= 1}
+          >
+            <Search size={16} />
+          </Button>
+          {saliencyUrl && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSaliency(!showSaliency)}
+              className="bg-white/80 hover:bg-white text-xs dark:bg-black/50 dark:hover:bg-black/70"
+            >
+              {showSaliency ? "Hide Saliency" : "Show Saliency"}
+            </Button>
+          )}
+          {forgeryMasks.map(mask => (
+            <Button
+              key={mask.kind}
+              variant="outline"
+              size="sm"
+              onClick={() => toggleMask(mask.kind)}
+              className="bg-white/80 hover:bg-white text-xs dark:bg-black/50 dark:hover:bg-black/70"
+            >
+              {hiddenMasks.includes(mask.kind) ? 'Show' : 'Hide'} {FORGERY_LABELS[mask.kind]}
+            </Button>
+          ))}
+        </div>
+
+        {/* Highlight info for hovered region */}
+        {hoveredRegion !== null && heatmapData.regions[hoveredRegion] ? (
+          <div className="absolute bottom-2 left-2 z-20 bg-black/80 text-white text-xs p-2 rounded-md">
+            {heatmapData.regions[hoveredRegion].source && heatmapData.regions[hoveredRegion].source !== 'saliency' ? (
+              <>
+                <div>{FORGERY_LABELS[heatmapData.regions[hoveredRegion].source as ForgeryKind]} area</div>
+                <div>Strength: {(heatmapData.regions[hoveredRegion].intensity * 100).toFixed(1)}%</div>
+              </>
+            ) : (
+              <>
+                <div>Manipulation probability: {(heatmapData.regions[hoveredRegion].intensity * 100).toFixed(1)}%</div>
+                <div>Confidence: {getConfidenceRange(heatmapData.regions[hoveredRegion].intensity)}</div>
+              </>
+            )}
+          </div>
+        ) : isOverlayVisible && (
+          <div className="absolute bottom-2 left-2 z-20 bg-black/80 text-white text-xs p-2 rounded-md max-w-xs">
+            {visualizableMediaType === 'video' && frameInfo ? (
+              <>Frame at {(frameInfo.timestamp / 1000).toFixed(1)}s: warmer colors mark areas that raised the manipulation score.</>
+            ) : (
+              <>Occlusion saliency: warmer colors mark areas whose removal lowered the detector's manipulation score the most.</>
+            )}
+          </div>
         )}
       </div>
-      
-      {/* Render each heatmap region with interactive hover effect */}
-      {!showGradCam && heatmapData.regions.map((region, index) => (
-        <motion.div
-          key={index}
-          className="absolute rounded-full cursor-pointer"
-          style={{
-            left: `${region.x}%`,
-            top: `${region.y}%`,
-            width: `${region.radius * 2}px`,
-            height: `${region.radius * 2}px`,
-            transform: `translate(-50%, -50%) scale(${hoveredRegion === index ? 1.2 : 1})`,
-            background: `radial-gradient(circle, ${getIntensityColor(region.intensity)} 0%, transparent 70%)`,
-            opacity: hoveredRegion === index ? region.intensity * 1.3 : region.intensity,
-            transition: 'all 0.3s ease',
-            zIndex: hoveredRegion === index ? 10 : 5,
-          }}
-          onMouseEnter={() => handleRegionHover(index)}
-          onMouseLeave={() => handleRegionHover(null)}
-          whileHover={{ scale: 1.1 }}
-        />
-      ))}
-      
-      {/* Highlight info for hovered region */}
-      {hoveredRegion !== null && heatmapData.regions[hoveredRegion] && (
-        <div className="absolute bottom-2 left-2 bg-black/80 text-white text-xs p-2 rounded-md">
-          <div>Manipulation probability: {(heatmapData.regions[hoveredRegion].intensity * 100).toFixed(1)}%</div>
-          <div>Confidence: {getConfidenceRange(heatmapData.regions[hoveredRegion].intensity)}</div>
-        </div>
-      )}
-      
-      {/* Overall heatmap gradient overlay */}
-      {!showGradCam && (
-        <div 
-          className="absolute inset-0 pointer-events-none" 
-          style={{
-            background: `linear-gradient(135deg, 
-              ${getIntensityColor(heatmapData.overallIntensity * 0.7)} 0%, 
-              transparent 80%)`,
-            opacity: heatmapData.overallIntensity * 0.4,
-            mixBlendMode: 'overlay'
-          }}
-        />
-      )}
-      
-      {/* Explanation */}
-      {gradCamUrl && showGradCam && (
-        <div className="absolute bottom-2 left-2 bg-black/80 text-white text-xs p-2 rounded-md max-w-xs">
-          {visualizableMediaType === 'video' && frameInfo ? (
-            <>Frame at {(frameInfo.timestamp / 1000).toFixed(1)}s: Grad-CAM highlights potential manipulation.</>
-          ) : (
-            <>Grad-CAM highlights regions that most influenced the model's decision with warmer colors showing manipulated areas.</>
-          )}
+
+      {forgeryMasks.length > 0 && (
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {forgeryMasks.map(mask => (
+            <span key={mask.kind} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: REGION_COLORS[mask.kind] }} />
+              {FORGERY_LABELS[mask.kind]}: {(mask.coverage * 100).toFixed(1)}% of the image
+            </span>
+          ))}
+          <span className="text-xs text-muted-foreground">
+            Copy-move marks areas cloned within the image; splicing marks areas whose noise differs from the rest.
+          </span>
         </div>
       )}
-      {frameImageUrl && !showGradCam && (
-        <div className="absolute bottom-2 left-2 bg-black/80 text-white text-xs p-2 rounded-md max-w-xs">
-          Actual frame from video with highlighted suspicious regions.
+
+      {saliencyUrl && (
+        <div className="flex items-center gap-3 text-sm">
+          <Layers className="w-4 h-4 text-muted-foreground" />
+          <span className="text-muted-foreground whitespace-nowrap">Overlay opacity</span>
+          <Slider
+            value={[overlayOpacity]}
+            min={0}
+            max={100}
+            step={5}
+            onValueChange={([value]) => setOverlayOpacity(value)}
+            disabled={!showSaliency}
+            className="flex-1"
+          />
+          <span className="w-10 text-right">{overlayOpacity}%</span>
         </div>
       )}
     </div>
@@ -0,0 +1,78 @@
+import { motion } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Badge } from './ui/badge';
+import type { LiveSample } from '@/services/liveMonitor';
+
+interface LiveMonitorChartProps {
+  samples: LiveSample[];
+  alertThreshold: number;
+  isAlerting: boolean;
+}
+
+// Span of the session shown on the rolling chart, in ms
+const ROLLING_WINDOW = 60000;
+
+const LiveMonitorChart = ({ samples, alertThreshold, isAlerting }: LiveMonitorChartProps) => {
+  const latest = samples[samples.length - 1];
+  const end = latest ? Math.max(latest.timestamp, ROLLING_WINDOW) : ROLLING_WINDOW;
+  const visible = samples.filter(sample => sample.timestamp >= end - ROLLING_WINDOW);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="max-w-3xl mx-auto p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <h5 className="font-medium">Live confidence</h5>
+          {latest && (
+            <Badge variant={isAlerting ? "destructive" : "default"}>
+              {latest.smoothed.toFixed(1)}% smoothed
+            </Badge>
+          )}
+          {isAlerting && (
+            <span className="flex items-center gap-1 text-xs font-medium text-red-600 dark:text-red-400">
+              <AlertTriangle className="w-4 h-4" />
+              Above {alertThreshold}%
+            </span>
+          )}
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {samples.length} frame{samples.length === 1 ? '' : 's'} scored
+        </span>
+      </div>
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={visible}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              domain={[end - ROLLING_WINDOW, end]}
+              allowDataOverflow
+              tickFormatter={(timestamp: number) => `${(timestamp / 1000).toFixed(0)}s`}
+            />
+            <YAxis domain={[0, 100]} width={35} />
+            <Tooltip
+              labelFormatter={(timestamp: number) => `${(timestamp / 1000).toFixed(1)}s`}
+              formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name === 'smoothed' ? 'Smoothed' : 'Frame']}
+            />
+            <ReferenceLine y={alertThreshold} stroke="#ef4444" strokeDasharray="4 4" />
+            <Line type="monotone" dataKey="confidence" stroke="#94a3b8" dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="smoothed" stroke="#8884d8" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Grey is the score of each frame, purple the smoothed score that raises the alert. Stop monitoring to save the
+        session with its full timeline.
+      </p>
+    </motion.div>
+  );
+};
+
+export default LiveMonitorChart;
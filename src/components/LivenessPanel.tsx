@@ -0,0 +1,53 @@
+import { motion } from 'framer-motion';
+import { CheckCircle2, ScanFace, XCircle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { LivenessResult } from '@/services/liveness';
+
+interface LivenessPanelProps {
+  liveness: LivenessResult;
+}
+
+const LivenessPanel = ({ liveness }: LivenessPanelProps) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-4xl mx-auto bg-white/5 backdrop-blur-sm border rounded-lg p-4 space-y-4"
+    >
+      <div className="flex items-center gap-3">
+        <ScanFace className="w-5 h-5 text-primary" />
+        <div className="flex-1">
+          <h3 className="font-medium">Liveness Check</h3>
+          <p className="text-sm text-muted-foreground">
+            Random challenges a pre-rendered feed cannot anticipate, verified from the face and the microphone.
+          </p>
+        </div>
+        <Badge variant={liveness.passed ? 'outline' : 'destructive'}>
+          {liveness.passed ? 'Passed' : 'Failed'}
+        </Badge>
+      </div>
+
+      <ul className="space-y-3">
+        {liveness.challenges.map(challenge => (
+          <li key={challenge.startedAt} className="flex items-center gap-3 text-sm">
+            {challenge.snapshot && (
+              <img src={challenge.snapshot} alt={challenge.prompt} className="w-20 rounded border object-cover" />
+            )}
+            {challenge.passed
+              ? <CheckCircle2 className="w-4 h-4 shrink-0 text-green-600" />
+              : <XCircle className="w-4 h-4 shrink-0 text-red-600" />}
+            <div className="min-w-0">
+              <p className="font-medium">{challenge.prompt}</p>
+              <p className="text-muted-foreground break-words">
+                {challenge.detail} · {new Date(challenge.startedAt).toLocaleTimeString()}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  );
+};
+
+export default LivenessPanel;
@@ -0,0 +1,100 @@
+import { motion } from 'framer-motion';
+import { AlertTriangle, FileSearch, Info, ShieldAlert } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import { Badge } from './ui/badge';
+import type { ContainerMetadata, MetadataAnomalySeverity } from '@/services/metadata';
+
+interface MetadataPanelProps {
+  metadata: ContainerMetadata;
+}
+
+const SEVERITY_STYLES: Record<MetadataAnomalySeverity, { icon: typeof Info; className: string }> = {
+  critical: { icon: ShieldAlert, className: 'text-red-600' },
+  warning: { icon: AlertTriangle, className: 'text-amber-600' },
+  info: { icon: Info, className: 'text-blue-600' },
+};
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleString() : 'Not recorded');
+
+const MetadataPanel = ({ metadata }: MetadataPanelProps) => {
+  const { format, width, height, duration, make, model, software, createdAt, modifiedAt, groups, anomalies } = metadata;
+  const summary: [string, string][] = [
+    ['Format', format],
+    ['Dimensions', width && height ? `${width}x${height}` : 'N/A'],
+    ['Duration', duration !== undefined ? `${duration.toFixed(1)}s` : 'N/A'],
+    ['Device', [make, model].filter(Boolean).join(' ') || 'Not recorded'],
+    ['Software', software.length > 0 ? software.join(', ') : 'Not recorded'],
+    ['Created', formatDate(createdAt)],
+    ['Modified', formatDate(modifiedAt)],
+  ];
+  const groupNames = Object.keys(groups);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-4xl mx-auto bg-white/5 backdrop-blur-sm border rounded-lg p-4 space-y-4"
+    >
+      <div className="flex items-center gap-3">
+        <FileSearch className="w-5 h-5 text-primary" />
+        <div className="flex-1">
+          <h3 className="font-medium">Metadata</h3>
+          <p className="text-sm text-muted-foreground">
+            Read from the file's own headers. Metadata is easy to strip or forge, so treat it as context rather than proof.
+          </p>
+        </div>
+        <Badge variant={anomalies.some(({ severity }) => severity !== 'info') ? 'destructive' : 'outline'}>
+          {anomalies.length} {anomalies.length === 1 ? 'flag' : 'flags'}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+        {summary.map(([label, value]) => (
+          <div key={label} className="min-w-0">
+            <p className="text-muted-foreground">{label}</p>
+            <p className="font-medium break-words">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {anomalies.length > 0 && (
+        <ul className="space-y-2">
+          {anomalies.map(anomaly => {
+            const { icon: Icon, className } = SEVERITY_STYLES[anomaly.severity];
+            return (
+              <li key={anomaly.id} className="flex items-start gap-2 text-sm">
+                <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${className}`} />
+                <span>{anomaly.message}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {groupNames.length > 0 && (
+        <Accordion type="multiple">
+          {groupNames.map(group => (
+            <AccordionItem key={group} value={group}>
+              <AccordionTrigger className="py-2 text-sm">
+                {group} ({Object.keys(groups[group]).length})
+              </AccordionTrigger>
+              <AccordionContent>
+                <dl className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-x-4 gap-y-1 text-xs">
+                  {Object.entries(groups[group]).map(([key, value]) => (
+                    <div key={key} className="contents">
+                      <dt className="text-muted-foreground break-words">{key}</dt>
+                      <dd className="font-mono break-words whitespace-pre-wrap">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </motion.div>
+  );
+};
+
+export default MetadataPanel;
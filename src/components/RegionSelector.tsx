@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import type { LiveRegion } from '@/services/liveMonitor';
+
+interface RegionSelectorProps {
+  region: LiveRegion | null;
+  onChange: (region: LiveRegion) => void;
+  // Shows the region without letting it be redrawn
+  disabled?: boolean;
+}
+
+// Smaller drags are taken as clicks, in percent of the picture
+const MIN_REGION_SIZE = 3;
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, value));
+
+// Drag a rectangle over the element it covers; coordinates are percentages of
+// its size, so it must cover exactly the picture being selected from
+const RegionSelector = ({ region, onChange, disabled = false }: RegionSelectorProps) => {
+  const [anchor, setAnchor] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<LiveRegion | null>(null);
+
+  const toPercent = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return {
+      x: clampPercent(((event.clientX - bounds.left) / bounds.width) * 100),
+      y: clampPercent(((event.clientY - bounds.top) / bounds.height) * 100),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setAnchor(toPercent(event));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!anchor) return;
+    const point = toPercent(event);
+    setDraft({
+      x: Math.min(anchor.x, point.x),
+      y: Math.min(anchor.y, point.y),
+      width: Math.abs(point.x - anchor.x),
+      height: Math.abs(point.y - anchor.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      onChange(draft);
+    }
+    setAnchor(null);
+    setDraft(null);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div
+      className={`absolute inset-0 ${disabled ? 'pointer-events-none' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {shown && (
+        <div
+          className="absolute border-2 border-yellow-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.4)] pointer-events-none"
+          style={{ left: `${shown.x}%`, top: `${shown.y}%`, width: `${shown.width}%`, height: `${shown.height}%` }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RegionSelector;
@@ -0,0 +1,53 @@
+import { motion } from 'framer-motion';
+import { History, RotateCcw, X } from 'lucide-react';
+import { Button } from './ui/button';
+import type { HistoryRecord } from '@/services/historyStore';
+
+interface SeenBeforeBannerProps {
+  fileName: string;
+  record: HistoryRecord;
+  onReuse: () => void;
+  onRerun: () => void;
+  onDismiss: () => void;
+}
+
+const SeenBeforeBanner = ({ fileName, record, onReuse, onRerun, onDismiss }: SeenBeforeBannerProps) => {
+  const { results } = record;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="max-w-3xl mx-auto border border-primary/40 bg-primary/5 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-4"
+    >
+      <History className="w-5 h-5 text-primary shrink-0" />
+      <div className="flex-1 min-w-0">
+        <h3 className="font-medium">Seen before</h3>
+        <p className="text-sm text-muted-foreground">
+          {fileName} has the same content as {record.fileName}, analyzed on{' '}
+          {new Date(record.createdAt).toLocaleString()}.{' '}
+          <button type="button" className="text-primary underline-offset-4 hover:underline" onClick={onReuse}>
+            Earlier verdict: <span className="capitalize">{results.classification.replace(/_/g, ' ')}</span>{' '}
+            ({results.confidence.toFixed(1)}%)
+          </button>
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" className="gap-2" onClick={onReuse}>
+          <History className="w-4 h-4" />
+          Reuse Result
+        </Button>
+        <Button size="sm" variant="outline" className="gap-2" onClick={onRerun}>
+          <RotateCcw className="w-4 h-4" />
+          Re-run
+        </Button>
+        <Button size="icon" variant="ghost" aria-label="Dismiss" onClick={onDismiss}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default SeenBeforeBanner;
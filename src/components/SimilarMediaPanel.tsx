@@ -0,0 +1,57 @@
+import { motion } from 'framer-motion';
+import { Images } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { HASH_BITS } from '@/utils/perceptualHash';
+import type { HistoryRecord, SimilarHistoryMatch } from '@/services/historyStore';
+
+interface SimilarMediaPanelProps {
+  matches: SimilarHistoryMatch[];
+  onOpen: (record: HistoryRecord) => void;
+}
+
+const SimilarMediaPanel = ({ matches, onOpen }: SimilarMediaPanelProps) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-4xl mx-auto bg-white/5 backdrop-blur-sm border rounded-lg p-4 space-y-3"
+    >
+      <div className="flex items-center gap-3">
+        <Images className="w-5 h-5 text-primary" />
+        <div>
+          <h3 className="font-medium">Visually similar media previously analyzed</h3>
+          <p className="text-sm text-muted-foreground">
+            Matched by perceptual hash, so re-encoded or resized copies are included.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {matches.map(({ record, distance }) => (
+          <div
+            key={record.id}
+            className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center gap-3 cursor-pointer hover:bg-muted/50"
+            onClick={() => onOpen(record)}
+          >
+            <div className="w-16 h-12 rounded bg-muted overflow-hidden shrink-0">
+              {record.thumbnail && <img src={record.thumbnail} alt="" className="w-full h-full object-cover" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{record.fileName}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(record.createdAt).toLocaleString()} · Hamming distance {distance}/{HASH_BITS}
+              </p>
+            </div>
+            <span className="text-xs text-gray-500">{record.results.confidence.toFixed(1)}%</span>
+            <Badge variant={record.results.isManipulated ? "destructive" : "default"} className="capitalize">
+              {record.results.classification.replace(/_/g, ' ')}
+            </Badge>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
+
+export default SimilarMediaPanel;
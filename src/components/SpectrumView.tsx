@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Badge } from './ui/badge';
+import { SpectrumResult, computeSpectrum } from '@/services/forensics/spectrum';
+
+interface SpectrumViewProps {
+  // The image, or the video frame the score was computed on
+  imageUrl: string;
+  isVideoFrame: boolean;
+}
+
+const SpectrumView = ({ imageUrl, isVideoFrame }: SpectrumViewProps) => {
+  const [result, setResult] = useState<SpectrumResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsComputing(true);
+    setError(null);
+    computeSpectrum(imageUrl)
+      .then(spectrum => {
+        if (!cancelled) setResult(spectrum);
+      })
+      .catch(err => {
+        console.error('Spectral analysis failed:', err);
+        if (!cancelled) setError('The frequency spectrum is not available for this image.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsComputing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  const upsamplingPeaks = result?.peaks.filter(peak => peak.source === 'upsampling') ?? [];
+  const gridPeaks = result?.peaks.filter(peak => peak.source === 'jpeg_grid') ?? [];
+
+  return (
+    <div className="space-y-4 max-w-3xl mx-auto">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="relative aspect-square rounded-lg overflow-hidden bg-black border border-gray-300 dark:border-gray-700 flex items-center justify-center">
+          {result && (
+            <img src={result.imageUrl} alt="Log power spectrum" className="w-full h-full object-contain [image-rendering:pixelated]" />
+          )}
+          {isComputing && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+              <Loader2 className="w-6 h-6 text-white animate-spin" />
+            </div>
+          )}
+          {error && <p className="text-sm text-gray-300 px-4 text-center">{error}</p>}
+        </div>
+
+        {result && (
+          <div className="h-64 md:h-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={result.radialProfile}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="frequency"
+                  type="number"
+                  scale="log"
+                  domain={['dataMin', 0.5]}
+                  tickFormatter={(frequency: number) => frequency.toFixed(2)}
+                />
+                <YAxis tickFormatter={(power: number) => power.toFixed(0)} width={40} />
+                <Tooltip
+                  labelFormatter={(frequency: number) => `${frequency.toFixed(3)} cycles/px`}
+                  formatter={(value: number, name: string) => [`${value.toFixed(1)} dB`, name]}
+                />
+                <Legend />
+                <Line type="monotone" dataKey="power" name="Power" stroke="#8884d8" dot={false} />
+                <Line type="linear" dataKey="fitted" name="Power law fit" stroke="#ef4444" strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {result && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Badge variant="outline" className={result.score >= 50 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}>
+            Spectral artifacts {result.score.toFixed(1)}%
+          </Badge>
+          <span className="text-muted-foreground">
+            Slope {result.slope.toFixed(2)} · High band {result.highFrequencyDeviation >= 0 ? '+' : ''}
+            {result.highFrequencyDeviation.toFixed(1)} dB · {result.size}px crop
+          </span>
+        </div>
+      )}
+
+      {result && result.peaks.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {upsamplingPeaks.map((peak, index) => (
+            <li key={`u${index}`} className="text-red-700 dark:text-red-400">
+              Period-{peak.period} peak at ({peak.fx.toFixed(3)}, {peak.fy.toFixed(3)}) cycles/px, {peak.strength.toFixed(1)} dB above its surroundings
+            </li>
+          ))}
+          {gridPeaks.length > 0 && (
+            <li className="text-yellow-700 dark:text-yellow-400">
+              {gridPeaks.length} peak{gridPeaks.length > 1 ? 's' : ''} on the 8x8 JPEG block grid, not counted as upsampling
+            </li>
+          )}
+        </ul>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The centered log-power spectrum of a square crop at native resolution. Upsampling layers in image generators
+        leave bright periodic peaks (circled in red) at a half or a quarter of the sampling rate, and generated images
+        often lose or exaggerate the fine detail that photos show as a straight power-law decline in the radial profile.
+        {isVideoFrame && ' This spectrum is of the first sampled frame.'}
+      </p>
+    </div>
+  );
+};
+
+export default SpectrumView;
@@ -45,8 +45,9 @@ const UploadZone = ({ analysisType, onFileSelect, onUrlSubmit, isAnalyzing }: Up
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: getAcceptConfig(),
-    maxFiles: 1,
-    disabled: isAnalyzing
+    // Dropping several files starts a batch; dropping a single file while
+    // analyzing replaces the running job
+    multiple: true
   });
 
   const handleUrlSubmit = (e: React.FormEvent) => {
@@ -86,8 +87,7 @@ const UploadZone = ({ analysisType, onFileSelect, onUrlSubmit, isAnalyzing }: Up
           <div
             {...getRootProps()}
             className={`glassmorphism rounded-xl p-10 text-center cursor-pointer transition-all duration-300 
-              ${isDragActive ? 'border-primary border-2' : 'border-dashed border-2 border-gray-300'}
-              ${isAnalyzing ? 'opacity-50 pointer-events-none' : ''}`}
+              ${isDragActive ? 'border-primary border-2' : 'border-dashed border-2 border-gray-300'}`}
           >
             <input {...getInputProps()} />
             <motion.div
@@ -0,0 +1,208 @@
+import { useState, useRef } from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea } from 'recharts';
+import { Button } from './ui/button';
+import { DetectionResult } from '@/services/detectionService';
+import { SUSPICIOUS_FRAME_THRESHOLD } from '@/services/detectors/frameSamplingDetector';
+
+type Analysis = DetectionResult['analysis'];
+
+interface VideoTimelinePlayerProps {
+  videoUrl: string;
+  framewiseConfidence: NonNullable<Analysis['framewiseConfidence']>;
+  suspiciousFrames: NonNullable<Analysis['suspiciousFrames']>;
+  faces: NonNullable<Analysis['faces']>;
+  lipSync?: Analysis['lipSync'];
+  // Frames per second, when the detector measured it
+  frameRate?: number;
+}
+
+// Assumed when the frame rate is unknown
+const DEFAULT_FRAME_RATE = 30;
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const VideoTimelinePlayer = ({ videoUrl, framewiseConfidence, suspiciousFrames, faces, lipSync, frameRate = DEFAULT_FRAME_RATE }: VideoTimelinePlayerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // ms, like the timeline
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [aspectRatio, setAspectRatio] = useState(16 / 9);
+  const [isPaused, setIsPaused] = useState(true);
+
+  const sortedSuspicious = [...suspiciousFrames].sort((a, b) => a.timestamp - b.timestamp);
+  // Desync spans are drawn as areas; their confidence is not a frame score
+  const scoredFrames = sortedSuspicious.filter(frame => !frame.type);
+  const desyncSpans = sortedSuspicious.filter(frame => frame.type === 'av_desync');
+  // Half the sampling interval: a sampled frame describes the playhead while
+  // it is closer than this
+  const halfInterval = framewiseConfidence.length > 1
+    ? (framewiseConfidence[framewiseConfidence.length - 1].timestamp - framewiseConfidence[0].timestamp) / (framewiseConfidence.length - 1) / 2
+    : Infinity;
+  const nearestSample = framewiseConfidence.reduce<(typeof framewiseConfidence)[number] | null>(
+    (nearest, frame) =>
+      !nearest || Math.abs(frame.timestamp - currentTime) < Math.abs(nearest.timestamp - currentTime) ? frame : nearest,
+    null
+  );
+  const currentSample = nearestSample && Math.abs(nearestSample.timestamp - currentTime) <= halfInterval ? nearestSample : null;
+  // Faces were scored on the sampled frames, so they only line up with the
+  // picture while paused on one
+  const overlayFaces = isPaused && currentSample ? faces.filter(face => face.timestamp === currentSample.timestamp) : [];
+
+  const seek = (ms: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    video.currentTime = Math.max(0, Math.min(video.duration || Infinity, ms / 1000));
+    setCurrentTime(video.currentTime * 1000);
+  };
+
+  const stepFrames = (count: number) => seek(currentTime + (count * 1000) / frameRate);
+
+  // Margin keeps a seek that landed just short of a frame from finding it again
+  const previousSuspicious = [...sortedSuspicious].reverse().find(frame => frame.timestamp < currentTime - 1);
+  const nextSuspicious = sortedSuspicious.find(frame => frame.timestamp > currentTime + 1);
+
+  const handleChartClick = (state: { activeLabel?: string | number } | null) => {
+    if (state?.activeLabel !== undefined) seek(Number(state.activeLabel));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full max-h-[60vh] mx-auto rounded-lg overflow-hidden bg-black" style={{ aspectRatio }}>
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          controls
+          className="w-full h-full"
+          onLoadedMetadata={event => {
+            const video = event.currentTarget;
+            // Recorded live sessions report an infinite duration; the timeline spans the samples then
+            if (Number.isFinite(video.duration)) setDuration(video.duration * 1000);
+            if (video.videoWidth && video.videoHeight) setAspectRatio(video.videoWidth / video.videoHeight);
+          }}
+          onTimeUpdate={event => setCurrentTime(event.currentTarget.currentTime * 1000)}
+          onSeeked={event => setCurrentTime(event.currentTarget.currentTime * 1000)}
+          onPlay={() => setIsPaused(false)}
+          onPause={() => setIsPaused(true)}
+        />
+
+        {overlayFaces.length > 0 && (
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            {overlayFaces.map(face => (
+              <rect
+                key={face.trackId}
+                x={face.box.x}
+                y={face.box.y}
+                width={face.box.width}
+                height={face.box.height}
+                fill="transparent"
+                stroke={face.confidence >= SUSPICIOUS_FRAME_THRESHOLD ? '#ef4444' : '#22c55e'}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        )}
+        {overlayFaces.map(face => (
+          <span
+            key={face.trackId}
+            className={`absolute text-xs font-bold pointer-events-none ${face.confidence >= SUSPICIOUS_FRAME_THRESHOLD ? 'text-red-500' : 'text-green-500'}`}
+            style={{ left: `${face.box.x}%`, top: `${face.box.y}%`, transform: 'translateY(-100%)' }}
+          >
+            #{face.trackId} {face.confidence.toFixed(0)}%
+          </span>
+        ))}
+        {isPaused && currentSample && (
+          <div className={`absolute top-2 left-2 px-2 py-1 rounded text-xs font-medium text-white ${currentSample.confidence >= SUSPICIOUS_FRAME_THRESHOLD ? 'bg-red-600/80' : 'bg-green-600/80'}`}>
+            Frame at {formatTime(currentSample.timestamp)}: {currentSample.confidence.toFixed(1)}%
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          disabled={!previousSuspicious}
+          onClick={() => previousSuspicious && seek(previousSuspicious.timestamp)}
+        >
+          <ChevronsLeft className="w-4 h-4" />
+          Suspicious
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => stepFrames(-1)} title="Previous frame">
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-xs text-gray-500 min-w-28 text-center">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => stepFrames(1)} title="Next frame">
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          disabled={!nextSuspicious}
+          onClick={() => nextSuspicious && seek(nextSuspicious.timestamp)}
+        >
+          Suspicious
+          <ChevronsRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={framewiseConfidence} onClick={handleChartClick} className="cursor-pointer">
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              domain={[0, duration || 'dataMax']}
+              tickFormatter={(timestamp: number) => `${(timestamp / 1000).toFixed(0)}s`}
+            />
+            <YAxis domain={[0, 100]} width={35} />
+            <Tooltip
+              labelFormatter={(timestamp: number) => formatTime(timestamp)}
+              formatter={(value: number) => [`${value.toFixed(1)}%`, 'Manipulation confidence']}
+            />
+            <ReferenceLine y={SUSPICIOUS_FRAME_THRESHOLD} stroke="#f59e0b" strokeDasharray="4 4" />
+            <Line type="monotone" dataKey="confidence" stroke="#8884d8" dot={false} isAnimationActive={false} />
+            {desyncSpans.map((span, index) => (
+              <ReferenceArea
+                key={index}
+                x1={span.timestamp}
+                x2={span.timestamp + (span.duration ?? 0)}
+                fill="#f97316"
+                fillOpacity={0.15}
+              />
+            ))}
+            <Scatter
+              data={scoredFrames}
+              dataKey="confidence"
+              fill="#ef4444"
+              isAnimationActive={false}
+              onClick={(frame: { timestamp: number }) => seek(frame.timestamp)}
+            />
+            <ReferenceLine x={currentTime} stroke="#111827" strokeWidth={2} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Click the graph to seek; red points are frames at or above {SUSPICIOUS_FRAME_THRESHOLD}%
+        {desyncSpans.length > 0 && ' and orange spans are where mouth and speech diverge'}. Pause on a sampled frame to
+        see its score and face boxes.
+      </p>
+      {lipSync && (
+        <p className="text-xs text-center">
+          Lip sync: speech {lipSync.offset >= 0 ? 'follows' : 'leads'} the mouth by {Math.abs(lipSync.offset).toFixed(0)} ms
+          at correlation {lipSync.correlation.toFixed(2)}
+          {desyncSpans.length > 0 && `; ${desyncSpans.length} span${desyncSpans.length > 1 ? 's' : ''} out of sync`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VideoTimelinePlayer;
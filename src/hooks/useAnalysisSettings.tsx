@@ -0,0 +1,35 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { AnalysisSettings, DEFAULT_SETTINGS, loadSettings, saveSettings } from '@/services/settingsService';
+
+interface AnalysisSettingsContextType {
+  settings: AnalysisSettings;
+  updateSettings: (changes: Partial<AnalysisSettings>) => void;
+}
+
+const AnalysisSettingsContext = createContext<AnalysisSettingsContextType>({
+  settings: DEFAULT_SETTINGS,
+  updateSettings: () => {},
+});
+
+export const AnalysisSettingsProvider = ({ children }: { children: React.ReactNode }) => {
+  const [settings, setSettings] = useState<AnalysisSettings>(loadSettings);
+
+  // Persist so the choice survives reloads and is visible to the detection services
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const updateSettings = (changes: Partial<AnalysisSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  return (
+    <AnalysisSettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </AnalysisSettingsContext.Provider>
+  );
+};
+
+export const useAnalysisSettings = () => useContext(AnalysisSettingsContext);
+
+export default useAnalysisSettings;
@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { analyzeMediaFile, MediaAnalysis } from '@/services/mediaAnalysis';
+import { isAbortError } from '@/services/detectionService';
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: BatchJobStatus;
+  // Percentage (0-100) while running
+  progress: number;
+  analysis?: MediaAnalysis;
+  error?: string;
+}
+
+// Analyzes queued files, running at most `concurrency` jobs at a time
+export const useBatchQueue = (concurrency: number) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const updateJob = useCallback((id: string, changes: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  }, []);
+
+  const runJob = useCallback(async (job: BatchJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    try {
+      const analysis = await analyzeMediaFile(job.file, {
+        signal: controller.signal,
+        onProgress: (progress) => updateJob(job.id, { progress }),
+      });
+      updateJob(job.id, { status: 'done', progress: 100, analysis });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(`Batch analysis of ${job.file.name} failed:`, error);
+      updateJob(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Analysis failed',
+      });
+    } finally {
+      controllers.current.delete(job.id);
+    }
+  }, [updateJob]);
+
+  // Start queued jobs whenever a slot frees up
+  useEffect(() => {
+    const running = jobs.filter(job => job.status === 'running').length;
+    const next = jobs.filter(job => job.status === 'queued').slice(0, Math.max(0, concurrency - running));
+    if (next.length === 0) return;
+
+    setJobs(prev => prev.map(job => (next.some(n => n.id === job.id) ? { ...job, status: 'running' } : job)));
+    next.forEach(runJob);
+  }, [jobs, concurrency, runJob]);
+
+  const enqueue = useCallback((files: File[]) => {
+    setJobs(prev => [
+      ...prev,
+      ...files.map(file => ({ id: uuidv4(), file, status: 'queued' as const, progress: 0 })),
+    ]);
+  }, []);
+
+  const clear = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    setJobs([]);
+  }, []);
+
+  // Abort everything on unmount
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach(controller => controller.abort());
+  }, []);
+
+  return { jobs, enqueue, clear };
+};
+
+export default useBatchQueue;
@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import { LiveRecording, LiveRegion, LiveSample, LiveSession, LiveSessionInfo, isAlertRaised, startLiveSession } from '@/services/liveMonitor';
+
+interface LiveMonitorOptions {
+  sampleRate: number;
+  alertThreshold: number;
+  // Called each time the smoothed confidence rises to the threshold
+  onAlert: (sample: LiveSample) => void;
+  onError: (error: unknown) => void;
+}
+
+// Scores the stream shown in videoRef while monitoring, keeping the samples
+// for a live chart and whether the smoothed confidence is over the threshold
+export const useLiveMonitor = (videoRef: RefObject<HTMLVideoElement>, options: LiveMonitorOptions) => {
+  const [samples, setSamples] = useState<LiveSample[]>([]);
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [isAlerting, setIsAlerting] = useState(false);
+  const sessionRef = useRef<LiveSession | null>(null);
+  // The session outlives renders, so it reads the latest threshold and callbacks
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const stop = useCallback(async (): Promise<LiveRecording | null> => {
+    const session = sessionRef.current;
+    if (!session) return null;
+    sessionRef.current = null;
+    setIsMonitoring(false);
+    setIsAlerting(false);
+    return session.stop();
+  }, []);
+
+  const start = useCallback((stream: MediaStream, source: LiveSessionInfo['source'], region: LiveRegion | null = null) => {
+    const video = videoRef.current;
+    if (!video || sessionRef.current) return;
+    let alerting = false;
+    setSamples([]);
+    setIsAlerting(false);
+    setIsMonitoring(true);
+    const session = startLiveSession(video, stream, {
+      sampleRate: optionsRef.current.sampleRate,
+      source,
+      region,
+      onSample: sample => {
+        setSamples(prev => [...prev, sample]);
+        const raised = isAlertRaised(alerting, sample.smoothed, optionsRef.current.alertThreshold);
+        if (raised && !alerting) optionsRef.current.onAlert(sample);
+        alerting = raised;
+        setIsAlerting(raised);
+      },
+      onError: error => {
+        // Also ends the recording, which would otherwise run until the stream does
+        session.stop();
+        if (sessionRef.current === session) sessionRef.current = null;
+        setIsMonitoring(false);
+        setIsAlerting(false);
+        optionsRef.current.onError(error);
+      },
+    });
+    sessionRef.current = session;
+  }, [videoRef]);
+
+  // Drop a running session on unmount
+  useEffect(() => () => {
+    sessionRef.current?.stop();
+  }, []);
+
+  return { samples, isMonitoring, isAlerting, start, stop };
+};
+
+export default useLiveMonitor;
@@ -7,20 +7,54 @@ import AnalysisDisplay from "@/components/AnalysisDisplay";
 import AudioAnalysisDisplay from "@/components/AudioAnalysisDisplay";
 import AnalysisOptions, { AnalysisType } from "@/components/AnalysisOptions";
 import ExcelDataExport, { AnalysisEntry } from "@/components/ExcelDataExport";
+import DetectorSettings from "@/components/DetectorSettings";
+import AnalysisProgress from "@/components/AnalysisProgress";
+import AnalysisHistory from "@/components/AnalysisHistory";
+import BatchQueue from "@/components/BatchQueue";
+import SeenBeforeBanner from "@/components/SeenBeforeBanner";
+import SimilarMediaPanel from "@/components/SimilarMediaPanel";
+import MetadataPanel from "@/components/MetadataPanel";
+import LiveMonitorChart from "@/components/LiveMonitorChart";
+import RegionSelector from "@/components/RegionSelector";
+import LivenessPanel from "@/components/LivenessPanel";
+import CameraPicker from "@/components/CameraPicker";
+import CameraCheckPanel from "@/components/CameraCheckPanel";
 import { motion } from "framer-motion";
 import { toast } from "@/components/ui/use-toast";
 import { 
   DetectionResult, 
-  analyzeImage, 
-  analyzeVideo, 
-  analyzeAudio,
+  MediaType,
   startWebcamAnalysis,
-  generateVideoFrameImages
+  isAbortError
 } from "@/services/detectionService";
+import {
+  MediaAnalysis,
+  analyzeMediaFile,
+  analyzeWithSaliency,
+  withForgeryLocalization
+} from "@/services/mediaAnalysis";
+import { fetchRemoteMedia } from "@/services/urlFetcher";
+import type { ForgeryMask } from "@/services/forensics/localization";
+import { LiveRegion, buildLiveSessionResult } from "@/services/liveMonitor";
+import { LivenessResult, runLivenessCheck } from "@/services/liveness";
+import { CameraCheck, checkCamera } from "@/services/cameraCheck";
+import {
+  HistoryRecord,
+  SimilarHistoryMatch,
+  findHistoryByHash,
+  findSimilarHistory,
+  restoreAnalysis,
+  saveAnalysis
+} from "@/services/historyStore";
+import { sha256Hex } from "@/utils/hashing";
+import { PerceptualHash, computePerceptualHashes } from "@/utils/perceptualHash";
 import { Button } from "@/components/ui/button";
-import { Camera, Sun, Moon } from "lucide-react";
+import { Camera, Sun, Moon, Activity, Square, ScreenShare, ScanFace, X } from "lucide-react";
 import { v4 as uuidv4 } from 'uuid';
 import { ThemeProvider, useTheme } from "@/hooks/useTheme";
+import { AnalysisSettingsProvider, useAnalysisSettings } from "@/hooks/useAnalysisSettings";
+import { BatchJob, useBatchQueue } from "@/hooks/useBatchQueue";
+import { useLiveMonitor } from "@/hooks/useLiveMonitor";
 
 interface ImageCapture {
   track: MediaStreamTrack;
@@ -63,50 +97,115 @@ if (!('ImageCapture' in window)) {
   };
 }
 
+const URL_MEDIA_TYPES: Partial<Record<string, MediaType>> = {
+  imageUrl: 'image',
+  videoUrl: 'video',
+  audioUrl: 'audio',
+};
+
+// Persist a finished analysis; failures only cost the history entry
+const recordHistory = (analysis: MediaAnalysis, fileName: string, media: Blob | null): Promise<HistoryRecord | null> => {
+  return saveAnalysis(analysis, { fileName, media }).catch(error => {
+    console.error('Failed to store analysis history:', error);
+    return null;
+  });
+};
+
 const IndexContent = () => {
   const [analysisType, setAnalysisType] = useState<AnalysisType | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<{ progress: number | null; status: string }>({ progress: null, status: '' });
   const [results, setResults] = useState<DetectionResult | null>(null);
-  const [webcamStream, setWebcamStream] = useState<MediaStream | null>(null);
+  // Webcam or screen capture shown in videoRef
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
+  const [liveAspectRatio, setLiveAspectRatio] = useState(16 / 9);
+  // Part of a screen capture to score, e.g. one participant of a video call
+  const [captureRegion, setCaptureRegion] = useState<LiveRegion | null>(null);
+  // Liveness evidence from the current webcam stream, attached to its captures and sessions
+  const [liveness, setLiveness] = useState<LivenessResult | null>(null);
+  // Chosen camera; the browser default when null
+  const [cameraId, setCameraId] = useState<string | null>(null);
+  // Virtual camera signals of the current webcam stream, attached like the liveness evidence
+  const [cameraCheck, setCameraCheck] = useState<CameraCheck | null>(null);
+  // Instruction shown over the webcam while a liveness challenge runs
+  const [livenessPrompt, setLivenessPrompt] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
   const [gradCamUrl, setGradCamUrl] = useState<string | null>(null);
+  const [saliencyUrl, setSaliencyUrl] = useState<string | null>(null);
+  const [forgeryMasks, setForgeryMasks] = useState<ForgeryMask[]>([]);
   const [frameImages, setFrameImages] = useState<string[]>([]);
-  const [analysisCount, setAnalysisCount] = useState(0);
-  const [latestEntry, setLatestEntry] = useState<AnalysisEntry | undefined>();
+  const [latestEntries, setLatestEntries] = useState<AnalysisEntry[]>([]);
+  const [selectedBatchJobId, setSelectedBatchJobId] = useState<string | null>(null);
+  // Set when a submitted file matches an earlier analysis in the history
+  const [seenBefore, setSeenBefore] = useState<{ file: File; sourceHash: string; record: HistoryRecord } | null>(null);
+  const [similarMedia, setSimilarMedia] = useState<SimilarHistoryMatch[]>([]);
   const { theme, toggleTheme } = useTheme();
+  const { settings } = useAnalysisSettings();
+  const batchQueue = useBatchQueue(settings.batchConcurrency);
+  const loggedBatchJobIds = useRef(new Set<string>());
   const videoRef = useRef<HTMLVideoElement>(null);
-
-  const isRealResult = (count: number) => count % 2 === 0;
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const liveMonitor = useLiveMonitor(videoRef, {
+    sampleRate: settings.liveSampleRate,
+    alertThreshold: settings.liveAlertThreshold,
+    onAlert: sample => toast({
+      title: "Possible deepfake in the live stream",
+      description: `The smoothed manipulation score reached ${sample.smoothed.toFixed(1)}% at ${(sample.timestamp / 1000).toFixed(0)}s.`,
+      variant: "destructive",
+    }),
+    onError: () => toast({
+      title: "Monitoring stopped",
+      description: "Frames from the live stream could not be scored.",
+      variant: "destructive",
+    }),
+  });
 
   const handleAnalysisTypeSelect = (type: AnalysisType) => {
+    cancelAnalysis();
+    setSeenBefore(null);
+    setSimilarMedia([]);
     setAnalysisType(type);
     setResults(null);
     setAudioUrl(null);
     setMediaUrl(null);
     setGradCamUrl(null);
+    setSaliencyUrl(null);
+    setForgeryMasks([]);
     setFrameImages([]);
-    if (webcamStream) {
-      webcamStream.getTracks().forEach(track => track.stop());
-      setWebcamStream(null);
-    }
+    stopLiveStream();
     toast({
       title: "Mode changed",
       description: `Switched to ${type} mode`,
     });
   };
 
-  const startWebcam = async () => {
+  // Drops a running monitoring session unsaved
+  const stopLiveStream = () => {
+    liveMonitor.stop();
+    liveStream?.getTracks().forEach(track => track.stop());
+    setLiveStream(null);
+    setCaptureRegion(null);
+    setLiveness(null);
+    setCameraCheck(null);
+  };
+
+  const showLiveStream = (stream: MediaStream) => {
+    setLiveStream(stream);
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  };
+
+  const startWebcam = async (deviceId = cameraId) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true });
-      setWebcamStream(stream);
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
+      const stream = await navigator.mediaDevices.getUserMedia({ video: deviceId ? { deviceId: { exact: deviceId } } : true });
+      showLiveStream(stream);
       toast({
         title: "Webcam started",
         description: "Your webcam is now active and ready for analysis.",
       });
+      runCameraCheck(stream);
     } catch (error) {
       console.error('Failed to start webcam:', error);
       toast({
@@ -117,48 +216,55 @@ const IndexContent = () => {
     }
   };
 
-  const generateGradCamUrl = (originalUrl: string): Promise<string> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.crossOrigin = "Anonymous";
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          resolve(originalUrl);
-          return;
-        }
-        
-        canvas.width = img.width;
-        canvas.height = img.height;
-        
-        ctx.drawImage(img, 0, 0);
-        
-        ctx.fillStyle = 'rgba(255, 0, 0, 0.3)';
-        
-        for (let i = 0; i < 5; i++) {
-          const x = Math.random() * canvas.width;
-          const y = Math.random() * canvas.height;
-          const radius = 20 + Math.random() * 50;
-          
-          const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
-          gradient.addColorStop(0, 'rgba(255, 0, 0, 0.7)');
-          gradient.addColorStop(0.5, 'rgba(255, 0, 0, 0.3)');
-          gradient.addColorStop(1, 'rgba(255, 0, 0, 0)');
-          
-          ctx.fillStyle = gradient;
-          ctx.beginPath();
-          ctx.arc(x, y, radius, 0, 2 * Math.PI);
-          ctx.fill();
-        }
-        
-        resolve(canvas.toDataURL('image/jpeg'));
-      };
-      img.onerror = () => resolve(originalUrl);
-      img.src = originalUrl;
-    });
+  const runCameraCheck = async (stream: MediaStream) => {
+    const video = videoRef.current;
+    if (!video) return;
+    setCameraCheck(null);
+    try {
+      const check = await checkCamera(stream, video);
+      // The camera may have been switched or stopped meanwhile
+      if (!stream.active) return;
+      setCameraCheck(check);
+      if (check.suspicious) {
+        toast({
+          title: "Possible virtual camera",
+          description: check.signals.filter(signal => signal.severity === 'warning').map(signal => signal.detail).join('; '),
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Camera check failed:', error);
+    }
   };
-  
+
+  const handleCameraChange = (deviceId: string) => {
+    setCameraId(deviceId);
+    if (!liveStream) return;
+    liveStream.getTracks().forEach(track => track.stop());
+    setLiveness(null);
+    setCameraCheck(null);
+    startWebcam(deviceId);
+  };
+
+  const startScreenCapture = async () => {
+    try {
+      showLiveStream(await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false }));
+      toast({
+        title: "Screen capture started",
+        description: "Drag over the picture to score only one participant, or monitor the whole capture.",
+      });
+    } catch (error) {
+      // Closing the browser's picker rejects too; that needs no error
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+      console.error('Failed to start screen capture:', error);
+      toast({
+        title: "Screen capture error",
+        description: "Failed to capture the screen. Your browser may not support it.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const createAnalysisEntry = (result: DetectionResult): AnalysisEntry => {
     return {
       id: uuidv4(),
@@ -170,19 +276,93 @@ const IndexContent = () => {
     };
   };
 
+  // Starts a new analysis job, cancelling any job still in flight so its
+  // result can never overwrite the new one
+  const beginAnalysis = (status: string): AbortController => {
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    setIsAnalyzing(true);
+    setResults(null);
+    setSimilarMedia([]);
+    setAnalysisProgress({ progress: null, status });
+    return controller;
+  };
+
+  const finishAnalysis = (controller: AbortController) => {
+    if (analysisControllerRef.current === controller) {
+      analysisControllerRef.current = null;
+      setIsAnalyzing(false);
+    }
+  };
+
+  const cancelAnalysis = () => {
+    if (!analysisControllerRef.current) return;
+    analysisControllerRef.current.abort();
+    analysisControllerRef.current = null;
+    setIsAnalyzing(false);
+  };
+
+  const handleCancelAnalysis = () => {
+    cancelAnalysis();
+    toast({
+      title: "Analysis cancelled",
+      description: "The running analysis was stopped.",
+    });
+  };
+
+  const trackProgress = (controller: AbortController) => (progress: number, status: string) => {
+    if (!controller.signal.aborted) {
+      setAnalysisProgress({ progress, status });
+    }
+  };
+
+  // Attach what is known about the webcam stream to a result taken from it
+  const withWebcamEvidence = (result: DetectionResult): DetectionResult => ({
+    ...result,
+    analysis: liveness ? { ...result.analysis, liveness } : result.analysis,
+    metadata: cameraCheck ? { ...result.metadata, camera: cameraCheck } : result.metadata,
+  });
+
+  const handleLivenessCheck = async () => {
+    const video = videoRef.current;
+    if (!liveStream || !video) return;
+    
+    const controller = beginAnalysis('Running liveness check');
+    const { signal } = controller;
+    try {
+      const result = await runLivenessCheck(video, { onPrompt: setLivenessPrompt, onProgress: trackProgress(controller), signal });
+      signal.throwIfAborted();
+      setLiveness(result);
+      toast({
+        title: result.passed ? "Liveness check passed" : "Liveness check failed",
+        description: `${result.challenges.filter(challenge => challenge.passed).length} of ${result.challenges.length} challenges passed. The evidence is kept with the next capture or session.`,
+        variant: result.passed ? "default" : "destructive",
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Liveness check failed:', error);
+      toast({
+        title: "Liveness check failed",
+        description: error instanceof Error ? error.message : "The liveness check could not be run.",
+        variant: "destructive",
+      });
+    } finally {
+      setLivenessPrompt(null);
+      finishAnalysis(controller);
+    }
+  };
+
   const handleWebcamCapture = async () => {
-    if (!webcamStream) return;
+    if (!liveStream) return;
     
-    setIsAnalyzing(true);
+    const controller = beginAnalysis('Analyzing webcam capture');
+    const { signal } = controller;
     try {
-      const newAnalysisCount = analysisCount + 1;
-      setAnalysisCount(newAnalysisCount);
-      
-      const shouldBeReal = isRealResult(newAnalysisCount);
-      
-      const track = webcamStream.getVideoTracks()[0];
+      const track = liveStream.getVideoTracks()[0];
       const imageCapture = new window.ImageCapture!(track);
       const bitmap = await imageCapture.grabFrame();
+      signal.throwIfAborted();
       
       const canvas = document.createElement('canvas');
       canvas.width = bitmap.width;
@@ -190,195 +370,320 @@ const IndexContent = () => {
       const ctx = canvas.getContext('2d');
       ctx?.drawImage(bitmap, 0, 0);
       const captureUrl = canvas.toDataURL('image/jpeg');
+      const captureBlob = await (await fetch(captureUrl)).blob();
+      const sourceHash = await sha256Hex(captureBlob);
+      signal.throwIfAborted();
       
-      setMediaUrl(captureUrl);
-      
-      const gradCamImage = await generateGradCamUrl(captureUrl);
-      setGradCamUrl(gradCamImage);
-      
-      const frameImgs = [captureUrl, gradCamImage];
-      setFrameImages(frameImgs);
+      const { results: saliencyResults, gradCamUrl: gradCamImage, saliencyUrl: saliencyImage } = await analyzeWithSaliency(
+        analyzeOptions => startWebcamAnalysis(captureUrl, analyzeOptions),
+        captureUrl,
+        { onProgress: trackProgress(controller), signal, sourceHash }
+      );
+      const { results: localizedResults, forgeryMasks: masks } = await withForgeryLocalization(saliencyResults, captureUrl);
+      const analysisResults = withWebcamEvidence(localizedResults);
+      const perceptualHashes = await computePerceptualHashes([captureUrl]);
+      signal.throwIfAborted();
       
-      const analysisResults = await startWebcamAnalysis(webcamStream, shouldBeReal);
-      setResults(analysisResults);
+      const analysis: MediaAnalysis = {
+        results: analysisResults,
+        mediaUrl: captureUrl,
+        gradCamUrl: gradCamImage,
+        saliencyUrl: saliencyImage,
+        forgeryMasks: masks,
+        frameImages: gradCamImage ? [captureUrl, gradCamImage] : [captureUrl],
+        audioUrl: null,
+        perceptualHashes,
+      };
+      showAnalysis(analysis);
       
-      const entry = createAnalysisEntry(analysisResults);
-      setLatestEntry(entry);
+      setLatestEntries([createAnalysisEntry(analysisResults)]);
+      recordDisplayedAnalysis(analysis, `webcam-capture-${Date.now()}.jpg`, captureBlob);
       
       toast({
         title: "Analysis complete",
         description: `Webcam capture analyzed with ${analysisResults.confidence.toFixed(1)}% confidence.`,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       toast({
         title: "Analysis failed",
         description: "Failed to analyze webcam capture.",
         variant: "destructive",
       });
     } finally {
-      setIsAnalyzing(false);
+      finishAnalysis(controller);
+    }
+  };
+
+  const handleStartMonitoring = () => {
+    if (!liveStream) return;
+    cancelAnalysis();
+    setResults(null);
+    setSimilarMedia([]);
+    if (analysisType === 'screen') {
+      liveMonitor.start(liveStream, 'screen', captureRegion);
+    } else {
+      liveMonitor.start(liveStream, 'webcam');
+    }
+  };
+
+  // The monitored session is kept like an analyzed video, replayable from its recording
+  // Runs as an analysis job, so a mode switch while the recording is
+  // finalized drops the session instead of showing it in the new mode
+  const handleStopMonitoring = async () => {
+    if (!liveMonitor.isMonitoring) return;
+    const controller = beginAnalysis('Saving session');
+    const { signal } = controller;
+    try {
+      const recording = await liveMonitor.stop();
+      if (!recording) return;
+      signal.throwIfAborted();
+      const sessionResults = buildLiveSessionResult(recording);
+      const analysisResults = recording.source === 'webcam' ? withWebcamEvidence(sessionResults) : sessionResults;
+      const analysis: MediaAnalysis = {
+        results: analysisResults,
+        mediaUrl: recording.media ? URL.createObjectURL(recording.media) : '',
+        gradCamUrl: null,
+        saliencyUrl: null,
+        forgeryMasks: [],
+        frameImages: recording.stills,
+        audioUrl: null,
+        perceptualHashes: await computePerceptualHashes(recording.stills),
+      };
+      signal.throwIfAborted();
+      showAnalysis(analysis);
+      
+      setLatestEntries([createAnalysisEntry(analysisResults)]);
+      recordDisplayedAnalysis(analysis, `${recording.source}-session-${Date.now()}.webm`, recording.media);
+      
+      toast({
+        title: "Session saved",
+        description: `${recording.frames.length} frames scored, ${analysisResults.confidence.toFixed(1)}% overall confidence.`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to save monitoring session:', error);
+      toast({
+        title: "Session not saved",
+        description: error instanceof Error ? error.message : "The monitoring session could not be saved.",
+        variant: "destructive",
+      });
+    } finally {
+      finishAnalysis(controller);
     }
   };
 
+  // Sharing can also be ended from the browser's own controls; the session so
+  // far is kept
+  const stopMonitoringRef = useRef(handleStopMonitoring);
+  stopMonitoringRef.current = handleStopMonitoring;
+  useEffect(() => {
+    const track = liveStream?.getVideoTracks()[0];
+    if (!track) return;
+    const handleEnded = () => {
+      stopMonitoringRef.current();
+      setLiveStream(null);
+      setCaptureRegion(null);
+      setLiveness(null);
+      setCameraCheck(null);
+    };
+    track.addEventListener('ended', handleEnded);
+    return () => track.removeEventListener('ended', handleEnded);
+  }, [liveStream]);
+
   const handleFileAnalysis = async (files: File[]) => {
     if (files.length === 0) return;
     await processFiles(files);
   };
   
+  const showAnalysis = (analysis: MediaAnalysis) => {
+    setMediaUrl(analysis.mediaUrl);
+    setGradCamUrl(analysis.gradCamUrl);
+    setSaliencyUrl(analysis.saliencyUrl);
+    setForgeryMasks(analysis.forgeryMasks);
+    setFrameImages(analysis.frameImages);
+    setAudioUrl(analysis.audioUrl);
+    setResults(analysis.results);
+  };
+
+  const showSimilarMedia = (perceptualHashes: PerceptualHash[], exclude: { id?: string; sourceHash?: string | null }) => {
+    findSimilarHistory(perceptualHashes, exclude)
+      .then(setSimilarMedia)
+      .catch(error => console.error('Similar media search failed:', error));
+  };
+
+  // Store the analysis on screen and list earlier look-alikes below it
+  const recordDisplayedAnalysis = async (analysis: MediaAnalysis, fileName: string, media: Blob | null) => {
+    const record = await recordHistory(analysis, fileName, media);
+    showSimilarMedia(analysis.perceptualHashes, { id: record?.id, sourceHash: analysis.results.metadata.sourceHash });
+  };
+
   const processFiles = async (files: File[]) => {
     if (files.length === 0) return;
     
-    setIsAnalyzing(true);
+    if (files.length > 1) {
+      batchQueue.enqueue(files);
+      toast({
+        title: "Batch queued",
+        description: `${files.length} files were added to the batch queue.`,
+      });
+      return;
+    }
+    
+    const file = files[0];
+    await checkAndAnalyzeFile(file, beginAnalysis(`Checking ${file.name}`));
+  };
+
+  // The job is started before hashing, so a newer file, a mode switch or a
+  // cancel while the duplicate check runs stops it there
+  const checkAndAnalyzeFile = async (file: File, controller: AbortController) => {
+    const { signal } = controller;
+    setSeenBefore(null);
+    
+    let sourceHash: string | undefined;
     try {
-      const file = files[0];
-      const fileUrl = URL.createObjectURL(file);
-      setMediaUrl(fileUrl);
-      
-      const newAnalysisCount = analysisCount + 1;
-      setAnalysisCount(newAnalysisCount);
-      
-      const shouldBeReal = isRealResult(newAnalysisCount);
-      
-      let analysisResults: DetectionResult;
-      
-      if (file.type.startsWith('image/')) {
-        const gradCamImage = await generateGradCamUrl(fileUrl);
-        setGradCamUrl(gradCamImage);
-        setFrameImages([fileUrl, gradCamImage]);
-        
-        analysisResults = await analyzeImage(fileUrl, shouldBeReal);
-      } else if (file.type.startsWith('video/')) {
-        console.log("Processing video file:", file.name, file.type);
-        const frameImgs = await generateVideoFrameImages(fileUrl);
-        console.log("Generated frame images:", frameImgs.length);
-        setFrameImages(frameImgs);
-        
-        if (frameImgs.length > 0) {
-          const gradCamImage = await generateGradCamUrl(frameImgs[0]);
-          setGradCamUrl(gradCamImage);
-          console.log("Generated GradCAM from first frame");
-        } else {
-          console.log("No frames extracted, creating placeholder");
-          const tempCanvas = document.createElement('canvas');
-          tempCanvas.width = 640;
-          tempCanvas.height = 360;
-          const ctx = tempCanvas.getContext('2d');
-          if (ctx) {
-            ctx.fillStyle = '#f0f0f0';
-            ctx.fillRect(0, 0, 640, 360);
-            ctx.fillStyle = '#999';
-            ctx.font = '20px Arial';
-            ctx.textAlign = 'center';
-            ctx.fillText('Video preview not available', 320, 180);
-            const placeholderUrl = tempCanvas.toDataURL('image/jpeg');
-            setGradCamUrl(await generateGradCamUrl(placeholderUrl));
-          }
-        }
-        
-        analysisResults = await analyzeVideo(fileUrl, shouldBeReal);
-        console.log("Video analysis complete:", analysisResults);
-      } else if (file.type.startsWith('audio/')) {
-        analysisResults = await analyzeAudio(fileUrl, shouldBeReal);
-        setAudioUrl(fileUrl);
-      } else {
-        throw new Error('Unsupported file type');
+      sourceHash = await sha256Hex(file);
+      if (signal.aborted) return;
+      const previous = await findHistoryByHash(sourceHash);
+      if (signal.aborted) return;
+      if (previous) {
+        finishAnalysis(controller);
+        setSeenBefore({ file, sourceHash, record: previous });
+        return;
       }
+    } catch (error) {
+      if (signal.aborted) return;
+      // Without a hash or history the file is simply analyzed again
+      console.error('Duplicate check failed:', error);
+    }
+    
+    await runFileAnalysis(file, sourceHash, controller);
+  };
+
+  // Continues `controller`'s job when given, otherwise starts a new one
+  const runFileAnalysis = async (file: File, sourceHash?: string, controller?: AbortController) => {
+    if (controller) {
+      setAnalysisProgress({ progress: null, status: `Analyzing ${file.name}` });
+    } else {
+      controller = beginAnalysis(`Analyzing ${file.name}`);
+    }
+    const { signal } = controller;
+    try {
+      const analysis = await analyzeMediaFile(file, { onProgress: trackProgress(controller), signal, sourceHash });
+      signal.throwIfAborted();
+      setSelectedBatchJobId(null);
+      showAnalysis(analysis);
       
-      setResults(analysisResults);
-      
-      const entry = createAnalysisEntry(analysisResults);
-      setLatestEntry(entry);
+      setLatestEntries([createAnalysisEntry(analysis.results)]);
+      recordDisplayedAnalysis(analysis, file.name, file);
       
       toast({
         title: "Analysis complete",
-        description: `Your media has been analyzed and determined to be ${analysisResults.isManipulated ? 'a deepfake' : 'authentic'}.`,
+        description: `Your media has been analyzed and determined to be ${analysis.results.isManipulated ? 'a deepfake' : 'authentic'}.`,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Analysis failed:', error);
       toast({
         title: "Analysis failed",
-        description: "There was an error analyzing your media.",
+        description: error instanceof Error ? error.message : "There was an error analyzing your media.",
         variant: "destructive",
       });
     } finally {
-      setIsAnalyzing(false);
+      finishAnalysis(controller);
     }
   };
 
-  const handleUrlAnalysis = async (url: string) => {
-    if (!url) return;
-    
-    setIsAnalyzing(true);
+  const handleBatchJobSelect = (job: BatchJob) => {
+    if (!job.analysis) return;
+    cancelAnalysis();
+    setSelectedBatchJobId(job.id);
+    showAnalysis(job.analysis);
+    showSimilarMedia(job.analysis.perceptualHashes, { sourceHash: job.analysis.results.metadata.sourceHash });
+  };
+
+  // Log each batch result once when it completes
+  useEffect(() => {
+    const completed = batchQueue.jobs.filter(job => job.analysis && !loggedBatchJobIds.current.has(job.id));
+    if (completed.length === 0) return;
+    completed.forEach(job => {
+      loggedBatchJobIds.current.add(job.id);
+      recordHistory(job.analysis!, job.file.name, job.file);
+    });
+    setLatestEntries(completed.map(job => createAnalysisEntry(job.analysis!.results)));
+  }, [batchQueue.jobs]);
+
+  const handleHistoryOpen = async (record: HistoryRecord) => {
+    setSeenBefore(null);
+    const controller = beginAnalysis(`Opening ${record.fileName}`);
+    const { signal } = controller;
     try {
-      setMediaUrl(url);
-      
-      const newAnalysisCount = analysisCount + 1;
-      setAnalysisCount(newAnalysisCount);
-      
-      const shouldBeReal = isRealResult(newAnalysisCount);
-      
-      let analysisResults: DetectionResult;
-      
-      if (analysisType === 'imageUrl') {
-        const gradCamImage = await generateGradCamUrl(url);
-        setGradCamUrl(gradCamImage);
-        setFrameImages([url]);
-        
-        analysisResults = await analyzeImage(url, shouldBeReal);
-      } else if (analysisType === 'videoUrl') {
-        analysisResults = await analyzeVideo(url, shouldBeReal);
-        
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = 640;
-        tempCanvas.height = 360;
-        const ctx = tempCanvas.getContext('2d');
-        if (ctx) {
-          ctx.fillStyle = '#f0f0f0';
-          ctx.fillRect(0, 0, 640, 360);
-          ctx.fillStyle = '#999';
-          ctx.font = '20px Arial';
-          ctx.textAlign = 'center';
-          ctx.fillText('Video frames from URL', 320, 180);
-          const placeholderUrl = tempCanvas.toDataURL('image/jpeg');
-          
-          const fakeFrames = [];
-          for (let i = 0; i < 4; i++) {
-            fakeFrames.push(placeholderUrl);
-          }
-          setFrameImages(fakeFrames);
-          
-          const gradCamImage = await generateGradCamUrl(placeholderUrl);
-          setGradCamUrl(gradCamImage);
-        }
-      } else if (analysisType === 'audioUrl') {
-        analysisResults = await analyzeAudio(url, shouldBeReal);
-        setAudioUrl(url);
-      } else {
-        throw new Error('Invalid analysis type');
-      }
-      
-      setResults(analysisResults);
-      
-      const entry = createAnalysisEntry(analysisResults);
-      setLatestEntry(entry);
-      
+      const analysis = await restoreAnalysis(record);
+      signal.throwIfAborted();
+      stopLiveStream();
+      setAnalysisType(record.results.metadata.type);
+      setSelectedBatchJobId(null);
+      showAnalysis(analysis);
+      showSimilarMedia(analysis.perceptualHashes, { id: record.id, sourceHash: record.sourceHash });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to open history entry:', error);
       toast({
-        title: "Analysis complete",
-        description: `URL has been analyzed and determined to be ${shouldBeReal ? 'authentic' : 'a deepfake'}.`,
+        title: "History entry unavailable",
+        description: `Could not reopen the analysis of ${record.fileName}.`,
+        variant: "destructive",
       });
+    } finally {
+      finishAnalysis(controller);
+    }
+  };
+
+  const handleSeenBeforeReuse = () => {
+    if (!seenBefore) return;
+    handleHistoryOpen(seenBefore.record);
+  };
+
+  const handleSeenBeforeRerun = () => {
+    if (!seenBefore) return;
+    const { file, sourceHash } = seenBefore;
+    setSeenBefore(null);
+    runFileAnalysis(file, sourceHash);
+  };
+
+  // Downloads the media, then analyzes it exactly like a dropped file
+  const handleUrlAnalysis = async (url: string) => {
+    const mediaType = URL_MEDIA_TYPES[analysisType ?? ''];
+    if (!url || !mediaType) return;
+    
+    const controller = beginAnalysis('Downloading');
+    const { signal } = controller;
+    let file: File;
+    try {
+      file = await fetchRemoteMedia(url, mediaType, { onProgress: trackProgress(controller), signal });
+      signal.throwIfAborted();
     } catch (error) {
-      console.error('URL analysis failed:', error);
+      finishAnalysis(controller);
+      if (isAbortError(error)) return;
+      console.error('URL download failed:', error);
       toast({
-        title: "Analysis failed",
-        description: "Failed to analyze the provided URL.",
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Failed to download the provided URL.",
         variant: "destructive",
       });
-    } finally {
-      setIsAnalyzing(false);
+      return;
     }
+    // The same job continues, so it stays cancellable between download and analysis
+    await checkAndAnalyzeFile(file, controller);
   };
 
   const isAudioAnalysis = results?.metadata.type === 'audio';
+  const isLiveMode = analysisType === 'webcam' || analysisType === 'screen';
+
+  // Keeps the frame the shape of the stream so the region overlay lines up with the picture
+  const handleLiveVideoResize = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    const { videoWidth, videoHeight } = event.currentTarget;
+    if (videoWidth && videoHeight) setLiveAspectRatio(videoWidth / videoHeight);
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted dark:from-gray-900 dark:to-gray-950">
@@ -389,6 +694,8 @@ const IndexContent = () => {
           </div>
           <div className="flex items-center gap-4">
             <Navigation />
+            <AnalysisHistory onOpen={handleHistoryOpen} />
+            <DetectorSettings />
             <Button variant="outline" size="sm" onClick={toggleTheme} className="gap-2">
               {theme === 'dark' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
               {theme === 'dark' ? 'Light Mode' : 'Dark Mode'}
@@ -406,28 +713,105 @@ const IndexContent = () => {
           
           {analysisType && (
             <>
-              {analysisType === 'webcam' ? (
+              {isLiveMode ? (
                 <div className="space-y-4">
-                  <div className="relative aspect-video max-w-3xl mx-auto rounded-lg overflow-hidden bg-black">
+                  <div
+                    className={`relative max-w-3xl max-h-[70vh] mx-auto rounded-lg overflow-hidden bg-black ${liveMonitor.isAlerting ? 'ring-4 ring-red-500' : ''}`}
+                    style={{ aspectRatio: liveAspectRatio }}
+                  >
                     <video
                       ref={videoRef}
                       autoPlay
                       playsInline
+                      muted
                       className="w-full h-full object-cover"
+                      onLoadedMetadata={handleLiveVideoResize}
+                      onResize={handleLiveVideoResize}
                     />
+                    {livenessPrompt && (
+                      <div className="absolute inset-x-0 bottom-6 flex justify-center pointer-events-none">
+                        <span className="px-4 py-2 rounded-lg bg-black/70 text-white text-xl font-semibold">
+                          {livenessPrompt}
+                        </span>
+                      </div>
+                    )}
+                    {analysisType === 'screen' && liveStream && (
+                      <RegionSelector
+                        region={captureRegion}
+                        onChange={setCaptureRegion}
+                        disabled={liveMonitor.isMonitoring}
+                      />
+                    )}
+                    {liveMonitor.isMonitoring && (
+                      <div className={`absolute top-2 left-2 flex items-center gap-2 px-2 py-1 rounded text-xs font-medium text-white ${liveMonitor.isAlerting ? 'bg-red-600/80' : 'bg-black/60'}`}>
+                        <span className="inline-block w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                        {liveMonitor.samples.length > 0
+                          ? `Live: ${liveMonitor.samples[liveMonitor.samples.length - 1].smoothed.toFixed(1)}% manipulation`
+                          : 'Live: waiting for the first frame'}
+                      </div>
+                    )}
                   </div>
-                  <div className="flex justify-center gap-4">
-                    {!webcamStream ? (
-                      <Button onClick={startWebcam} disabled={isAnalyzing}>
-                        <Camera className="w-4 h-4 mr-2" />
-                        Start Webcam
+                  <div className="flex flex-wrap justify-center gap-4">
+                    {analysisType === 'webcam' && (
+                      <CameraPicker
+                        value={cameraId}
+                        onChange={handleCameraChange}
+                        refreshKey={liveStream}
+                        disabled={isAnalyzing || liveMonitor.isMonitoring}
+                      />
+                    )}
+                    {!liveStream ? (
+                      analysisType === 'screen' ? (
+                        <Button onClick={startScreenCapture} disabled={isAnalyzing}>
+                          <ScreenShare className="w-4 h-4 mr-2" />
+                          Share Screen or Tab
+                        </Button>
+                      ) : (
+                        <Button onClick={() => startWebcam()} disabled={isAnalyzing}>
+                          <Camera className="w-4 h-4 mr-2" />
+                          Start Webcam
+                        </Button>
+                      )
+                    ) : liveMonitor.isMonitoring ? (
+                      <Button variant="destructive" onClick={handleStopMonitoring}>
+                        <Square className="w-4 h-4 mr-2" />
+                        Stop Monitoring
                       </Button>
                     ) : (
-                      <Button onClick={handleWebcamCapture} disabled={isAnalyzing}>
-                        Analyze Webcam Feed
-                      </Button>
+                      <>
+                        {analysisType === 'webcam' && (
+                          <>
+                            <Button onClick={handleWebcamCapture} disabled={isAnalyzing}>
+                              Analyze Webcam Feed
+                            </Button>
+                            <Button variant="outline" onClick={handleLivenessCheck} disabled={isAnalyzing}>
+                              <ScanFace className="w-4 h-4 mr-2" />
+                              Liveness Check
+                            </Button>
+                          </>
+                        )}
+                        <Button variant="outline" onClick={handleStartMonitoring} disabled={isAnalyzing}>
+                          <Activity className="w-4 h-4 mr-2" />
+                          Monitor Continuously
+                        </Button>
+                        {captureRegion && (
+                          <Button variant="ghost" onClick={() => setCaptureRegion(null)}>
+                            <X className="w-4 h-4 mr-2" />
+                            Clear Region
+                          </Button>
+                        )}
+                      </>
                     )}
                   </div>
+                  {liveMonitor.isMonitoring && (
+                    <LiveMonitorChart
+                      samples={liveMonitor.samples}
+                      alertThreshold={settings.liveAlertThreshold}
+                      isAlerting={liveMonitor.isAlerting}
+                    />
+                  )}
+                  {analysisType === 'webcam' && cameraCheck && !results && <CameraCheckPanel check={cameraCheck} />}
+                  {liveness && !results && <LivenessPanel liveness={liveness} />}
                 </div>
               ) : (
                 <UploadZone 
@@ -438,13 +822,42 @@ const IndexContent = () => {
                 />
               )}
 
-              <ExcelDataExport latestEntry={latestEntry} />
+              {isAnalyzing && (
+                <AnalysisProgress
+                  progress={analysisProgress.progress}
+                  status={analysisProgress.status}
+                  onCancel={handleCancelAnalysis}
+                />
+              )}
+
+              {seenBefore && (
+                <SeenBeforeBanner
+                  fileName={seenBefore.file.name}
+                  record={seenBefore.record}
+                  onReuse={handleSeenBeforeReuse}
+                  onRerun={handleSeenBeforeRerun}
+                  onDismiss={() => setSeenBefore(null)}
+                />
+              )}
+
+              {batchQueue.jobs.length > 0 && (
+                <BatchQueue
+                  jobs={batchQueue.jobs}
+                  selectedJobId={selectedBatchJobId}
+                  onSelect={handleBatchJobSelect}
+                  onClear={batchQueue.clear}
+                />
+              )}
+
+              <ExcelDataExport latestEntries={latestEntries} />
               
               {results && !isAudioAnalysis && (
                 <AnalysisDisplay 
                   results={results} 
                   mediaUrl={mediaUrl}
                   gradCamUrl={gradCamUrl}
+                  saliencyUrl={saliencyUrl}
+                  forgeryMasks={forgeryMasks}
                   frameImages={frameImages}
                 />
               )}
@@ -452,6 +865,22 @@ const IndexContent = () => {
               {results && isAudioAnalysis && (
                 <AudioAnalysisDisplay results={results} audioUrl={audioUrl || undefined} />
               )}
+
+              {results?.metadata.camera && (
+                <CameraCheckPanel check={results.metadata.camera} />
+              )}
+
+              {results?.analysis.liveness && (
+                <LivenessPanel liveness={results.analysis.liveness} />
+              )}
+
+              {results?.metadata.container && (
+                <MetadataPanel metadata={results.metadata.container} />
+              )}
+
+              {similarMedia.length > 0 && (
+                <SimilarMediaPanel matches={similarMedia} onOpen={handleHistoryOpen} />
+              )}
             </>
           )}
         </motion.div>
@@ -467,7 +896,9 @@ const IndexContent = () => {
 const Index = () => {
   return (
     <ThemeProvider>
-      <IndexContent />
+      <AnalysisSettingsProvider>
+        <IndexContent />
+      </AnalysisSettingsProvider>
     </ThemeProvider>
   );
 };
@@ -0,0 +1,170 @@
+// Virtual camera and injected-stream checks. Software cameras (OBS,
+// v4l2loopback, ManyCam...) can feed a pre-rendered deepfake to the page as if
+// it were live. They give themselves away by their device label, by lacking
+// the controls of a real sensor, or by frames whose timing and content are
+// too perfect: a real sensor adds noise to every frame and jitter to its clock.
+import type { DetectionResult } from './detectionService';
+
+export type CameraCheck = NonNullable<DetectionResult['metadata']['camera']>;
+export type CameraSignal = CameraCheck['signals'][number];
+
+const VIRTUAL_CAMERA_PATTERNS: { pattern: RegExp; name: string }[] = [
+  { pattern: /\bobs\b/i, name: 'OBS Virtual Camera' },
+  { pattern: /v4l2loopback|dummy video device/i, name: 'v4l2loopback' },
+  { pattern: /manycam/i, name: 'ManyCam' },
+  { pattern: /snap camera/i, name: 'Snap Camera' },
+  { pattern: /xsplit/i, name: 'XSplit VCam' },
+  { pattern: /camtwist/i, name: 'CamTwist' },
+  { pattern: /splitcam/i, name: 'SplitCam' },
+  { pattern: /e2esoft|vcam/i, name: 'VCam' },
+  { pattern: /\bndi\b/i, name: 'NDI Virtual Input' },
+  { pattern: /mmhmm/i, name: 'mmhmm' },
+  { pattern: /virtual/i, name: 'a virtual camera' },
+];
+// Controls a physical camera usually exposes; drivers of software cameras rarely do
+const HARDWARE_CONTROLS = ['exposureMode', 'focusMode', 'whiteBalanceMode', 'brightness', 'zoom'];
+// Frames timed and compared for the statistics
+const TIMING_FRAMES = 60;
+// Gives up on frames that do not arrive, in ms
+const TIMING_TIMEOUT = 5000;
+// Frames are compared on this small copy; sensor noise makes consecutive
+// real frames differ even there
+const COMPARE_WIDTH = 32;
+const COMPARE_HEIGHT = 24;
+// Frame intervals varying less than this (coefficient of variation) come from a software clock
+const MIN_INTERVAL_VARIATION = 0.002;
+// Share by which the measured frame rate may differ from the reported one
+const MAX_FRAME_RATE_DEVIATION = 0.25;
+// Share of exact repeats above which frames are looped or a still image
+const MAX_DUPLICATE_SHARE = 0.3;
+
+export interface FrameTiming {
+  // Frame capture times in ms
+  times: number[];
+  // Consecutive frames that were pixel-identical, of those compared
+  duplicates: number;
+  compared: number;
+}
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+export const matchVirtualCameraLabel = (label: string): string | null =>
+  VIRTUAL_CAMERA_PATTERNS.find(({ pattern }) => pattern.test(label))?.name ?? null;
+
+// Signals in the frame timing and content; reportedFrameRate is the track's own setting
+export const analyzeFrameTiming = ({ times, duplicates, compared }: FrameTiming, reportedFrameRate?: number): CameraSignal[] => {
+  const signals: CameraSignal[] = [];
+  if (compared > 0 && duplicates / compared > MAX_DUPLICATE_SHARE) {
+    signals.push({
+      type: 'duplicate_frames',
+      severity: 'warning',
+      detail: `${duplicates} of ${compared} frames repeat the previous one exactly; a live sensor adds noise to every frame`,
+    });
+  }
+
+  const intervals = times.slice(1).map((time, i) => time - times[i]).filter(interval => interval > 0);
+  if (intervals.length < 10) return signals;
+  const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+  const deviation = Math.sqrt(intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / intervals.length);
+  if (deviation / mean < MIN_INTERVAL_VARIATION) {
+    signals.push({
+      type: 'regular_timing',
+      severity: 'info',
+      detail: `frame intervals vary by only ${deviation.toFixed(3)} ms around ${mean.toFixed(1)} ms`,
+    });
+  }
+  const measured = 1000 / mean;
+  if (reportedFrameRate && Math.abs(measured - reportedFrameRate) / reportedFrameRate > MAX_FRAME_RATE_DEVIATION) {
+    // Real cameras also slow down in low light, so this alone is no warning
+    signals.push({
+      type: 'frame_rate_mismatch',
+      severity: 'info',
+      detail: `${measured.toFixed(1)} fps delivered, ${reportedFrameRate.toFixed(0)} fps reported`,
+    });
+  }
+  return signals;
+};
+
+// Time and compare the next frames shown in `video`; null when the browser
+// cannot report frame times
+const sampleFrameTiming = (video: HTMLVideoElement): Promise<FrameTiming | null> => {
+  if (!('requestVideoFrameCallback' in video)) return Promise.resolve(null);
+  const canvas = document.createElement('canvas');
+  canvas.width = COMPARE_WIDTH;
+  canvas.height = COMPARE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    const timing: FrameTiming = { times: [], duplicates: 0, compared: 0 };
+    let previous: Uint8ClampedArray | null = null;
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timeout);
+      resolve(timing);
+    };
+    const timeout = setTimeout(finish, TIMING_TIMEOUT);
+
+    const onFrame = (_now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => {
+      if (done) return;
+      timing.times.push(metadata.captureTime ?? metadata.mediaTime * 1000);
+      ctx.drawImage(video, 0, 0, COMPARE_WIDTH, COMPARE_HEIGHT);
+      const { data } = ctx.getImageData(0, 0, COMPARE_WIDTH, COMPARE_HEIGHT);
+      if (previous) {
+        timing.compared++;
+        if (data.every((value, i) => value === previous![i])) timing.duplicates++;
+      }
+      previous = data;
+      if (timing.times.length >= TIMING_FRAMES) {
+        finish();
+      } else {
+        video.requestVideoFrameCallback(onFrame);
+      }
+    };
+    video.requestVideoFrameCallback(onFrame);
+  });
+};
+
+// Check the camera behind `stream`, which must be playing in `video`
+export const checkCamera = async (stream: MediaStream, video: HTMLVideoElement): Promise<CameraCheck> => {
+  const track = stream.getVideoTracks()[0];
+  if (!track) throw new Error('The stream has no video track');
+  const signals: CameraSignal[] = [];
+
+  const virtualName = matchVirtualCameraLabel(track.label);
+  if (virtualName) {
+    signals.push({ type: 'virtual_label', severity: 'warning', detail: `"${track.label}" looks like ${virtualName}` });
+  }
+
+  // A stream swapped in by a script or extension does not come from any listed camera
+  const settings = track.getSettings();
+  const cameras = await listCameras();
+  if (!settings.deviceId || !cameras.some(camera => camera.deviceId === settings.deviceId)) {
+    signals.push({ type: 'unknown_device', severity: 'warning', detail: 'the stream does not belong to any camera the browser lists' });
+  }
+
+  const capabilities = track.getCapabilities?.() ?? {};
+  if (!HARDWARE_CONTROLS.some(control => control in capabilities)) {
+    // Some browsers expose none of these for any camera, so this alone is no warning
+    signals.push({ type: 'missing_controls', severity: 'info', detail: 'no exposure, focus, white balance, brightness or zoom controls' });
+  }
+
+  const timing = await sampleFrameTiming(video);
+  if (timing) signals.push(...analyzeFrameTiming(timing, settings.frameRate));
+
+  return {
+    label: track.label,
+    suspicious: signals.some(signal => signal.severity === 'warning'),
+    signals,
+  };
+};
+
+// One-line summary of the camera check, for reports
+export const describeCameraCheck = ({ label, suspicious, signals }: CameraCheck): string =>
+  `${label || 'Unnamed camera'}: ${suspicious ? 'possibly virtual or injected' : 'no sign of a virtual camera'}` +
+  (signals.length > 0 ? ` (${signals.map(signal => signal.detail).join('; ')})` : '');
@@ -0,0 +1,93 @@
+import type { DetectionResult } from '../detectionService';
+import { loadSettings } from '../settingsService';
+import { extractVideoFrames } from '../videoFrames';
+import { ScoredFace, getFaceConsistency, scoreFaces, trackFaces } from '../faces';
+import type { DetectorBackend, DetectorInput } from './types';
+import { averageMeasured, getClassificationCategory, getRiskLevel } from './shared';
+
+// Share of the progress bar spent decoding frames; the rest is scoring
+const EXTRACTION_PROGRESS_SHARE = 40;
+
+// Frames scoring at or above this manipulation confidence are listed as suspicious
+export const SUSPICIOUS_FRAME_THRESHOLD = 50;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Manipulation is often confined to part of a video, so the worst quarter
+// of frames weighs as much as the overall mean
+export const aggregateFrameConfidence = (confidences: number[]): number => {
+  const sorted = [...confidences].sort((a, b) => b - a);
+  const topQuarter = sorted.slice(0, Math.max(1, Math.ceil(sorted.length / 4)));
+  return 0.5 * average(sorted) + 0.5 * average(topQuarter);
+};
+
+// Scores sampled frames with the active image detector and builds the video
+// timeline from them. The image detector is resolved lazily so changing it in
+// settings also changes how videos are scored.
+export const createFrameSamplingDetector = (getImageDetector: () => DetectorBackend): DetectorBackend => {
+  const detect = async ({ url, onProgress, signal }: DetectorInput): Promise<DetectionResult> => {
+    const { videoSampleRate, maxVideoFrames } = loadSettings();
+    const video = await extractVideoFrames(url, {
+      sampleRate: videoSampleRate,
+      maxFrames: maxVideoFrames,
+      onFrame: (fraction) => onProgress?.(fraction * EXTRACTION_PROGRESS_SHARE, 'Extracting frames'),
+      signal,
+    });
+
+    const imageDetector = getImageDetector();
+    const frameResults: { timestamp: number; result: DetectionResult; faces: ScoredFace[] }[] = [];
+    for (const [index, frame] of video.frames.entries()) {
+      signal?.throwIfAborted();
+      const result = await imageDetector.detect({ mediaType: 'image', url: frame.url, signal });
+      const faces = await scoreFaces(frame.url, imageDetector, signal);
+      frameResults.push({ timestamp: frame.timestamp, result, faces });
+      onProgress?.(
+        EXTRACTION_PROGRESS_SHARE + ((index + 1) / video.frames.length) * (100 - EXTRACTION_PROGRESS_SHARE),
+        `Scored frame ${index + 1} of ${video.frames.length}`
+      );
+    }
+
+    const framewiseConfidence = frameResults.map(({ timestamp, result }) => ({
+      timestamp,
+      confidence: result.confidence,
+    }));
+    const suspiciousFrames = framewiseConfidence.filter(
+      frame => frame.confidence >= SUSPICIOUS_FRAME_THRESHOLD
+    );
+
+    const confidence = aggregateFrameConfidence(framewiseConfidence.map(frame => frame.confidence));
+    const faces = trackFaces(frameResults);
+
+    return {
+      confidence,
+      isManipulated: confidence >= 50,
+      classification: getClassificationCategory(confidence),
+      riskLevel: getRiskLevel(confidence),
+      analysis: {
+        framewiseConfidence,
+        suspiciousFrames,
+        faces,
+        faceConsistency: getFaceConsistency(faces)
+          ?? averageMeasured(frameResults.map(({ result }) => result.analysis.faceConsistency)),
+        lightingConsistency: averageMeasured(frameResults.map(({ result }) => result.analysis.lightingConsistency)),
+        noiseConsistency: averageMeasured(frameResults.map(({ result }) => result.analysis.noiseConsistency)),
+        sensorNoise: averageMeasured(frameResults.map(({ result }) => result.analysis.sensorNoise)),
+        artifactsScore: average(frameResults.map(({ result }) => result.analysis.artifactsScore)),
+      },
+      metadata: {
+        type: 'video',
+        resolution: `${video.width}x${video.height}`,
+        duration: video.duration,
+        frameCount: video.frameRate ? Math.round(video.duration / 1000 * video.frameRate) : undefined,
+      },
+    };
+  };
+
+  return {
+    id: 'frames',
+    name: 'Frame sampling',
+    description: 'Samples frames at the configured rate and scores each with the active image detector',
+    supports: ['video'],
+    detect,
+  };
+};
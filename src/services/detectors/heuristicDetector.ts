@@ -0,0 +1,117 @@
+import type { DetectionResult } from '../detectionService';
+import type { DetectorBackend, DetectorInput } from './types';
+import { decodeImage, getClassificationCategory, getRiskLevel } from './shared';
+
+// Analysis resolution; statistics are computed on a downscaled copy
+const MAX_DIMENSION = 512;
+const TILE_SIZE = 32;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const toGrayscale = ({ data, width, height }: ImageData): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Laplacian high-pass residual: removes scene content, leaves sensor noise and artifacts
+const getNoiseResidual = (gray: Float32Array, width: number, height: number): Float32Array => {
+  const residual = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      residual[i] = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+    }
+  }
+  return residual;
+};
+
+const getStd = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+};
+
+// Noise level per tile; camera noise is fairly uniform across an untouched photo
+const getTileNoiseLevels = (residual: Float32Array, width: number, height: number): number[] => {
+  const levels: number[] = [];
+  for (let ty = 1; ty + TILE_SIZE < height; ty += TILE_SIZE) {
+    for (let tx = 1; tx + TILE_SIZE < width; tx += TILE_SIZE) {
+      const values: number[] = [];
+      for (let y = ty; y < ty + TILE_SIZE; y++) {
+        for (let x = tx; x < tx + TILE_SIZE; x++) {
+          values.push(residual[y * width + x]);
+        }
+      }
+      levels.push(getStd(values));
+    }
+  }
+  return levels;
+};
+
+// Ratio of gradients across 8px block boundaries vs. inside blocks (JPEG grid strength)
+const getBlockiness = (gray: Float32Array, width: number, height: number): number => {
+  let boundary = 0, boundaryCount = 0, inner = 0, innerCount = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const diff = Math.abs(gray[y * width + x + 1] - gray[y * width + x]);
+      if (x % 8 === 7) {
+        boundary += diff;
+        boundaryCount++;
+      } else {
+        inner += diff;
+        innerCount++;
+      }
+    }
+  }
+  if (boundaryCount === 0 || inner === 0) return 1;
+  return (boundary / boundaryCount) / (inner / innerCount);
+};
+
+const detectImage = async (url: string, signal?: AbortSignal): Promise<DetectionResult> => {
+  const { imageData, width: originalWidth, height: originalHeight } = await decodeImage(url, MAX_DIMENSION);
+  signal?.throwIfAborted();
+  const { width, height } = imageData;
+  const gray = toGrayscale(imageData);
+  const residual = getNoiseResidual(gray, width, height);
+  const tileLevels = getTileNoiseLevels(residual, width, height);
+
+  const noiseLevel = tileLevels.length > 0
+    ? tileLevels.reduce((sum, v) => sum + v, 0) / tileLevels.length
+    : 0;
+  const noiseVariation = noiseLevel > 0 ? getStd(tileLevels) / noiseLevel : 0;
+
+  // Generated and heavily retouched images lack sensor noise
+  const smoothness = clamp01((12 - noiseLevel) / 10);
+  // Spliced regions carry a different noise level than their surroundings
+  const inconsistency = clamp01((noiseVariation - 0.5) / 1.0);
+  // Strong 8x8 grid hints at recompression after editing
+  const blockiness = clamp01(getBlockiness(gray, width, height) - 1);
+
+  const confidence = 100 * (0.45 * smoothness + 0.35 * inconsistency + 0.2 * blockiness);
+
+  return {
+    confidence,
+    isManipulated: confidence >= 50,
+    classification: getClassificationCategory(confidence),
+    riskLevel: getRiskLevel(confidence),
+    analysis: {
+      noiseConsistency: (1 - inconsistency) * 100,
+      sensorNoise: (1 - smoothness) * 100,
+      artifactsScore: blockiness * 100,
+    },
+    metadata: {
+      type: 'image',
+      resolution: `${originalWidth}x${originalHeight}`,
+    },
+  };
+};
+
+export const heuristicDetector: DetectorBackend = {
+  id: 'heuristic',
+  name: 'Noise heuristics',
+  description: 'Model-free noise residual, noise consistency and JPEG grid statistics',
+  supports: ['image'],
+  detect: ({ url, signal }: DetectorInput) => detectImage(url, signal),
+};
@@ -0,0 +1,48 @@
+import type { DetectionResult } from '../detectionService';
+import { loadSettings } from '../settingsService';
+import type { DetectorBackend, DetectorInput } from './types';
+
+const isDetectionResult = (value: unknown): value is DetectionResult => {
+  const result = value as DetectionResult;
+  return typeof result === 'object' && result !== null &&
+    typeof result.confidence === 'number' &&
+    typeof result.isManipulated === 'boolean' &&
+    typeof result.classification === 'string' &&
+    typeof result.riskLevel === 'string' &&
+    typeof result.analysis === 'object' &&
+    typeof result.metadata === 'object';
+};
+
+// Sends the media bytes to `${httpEndpoint}/detect` as multipart form data and
+// expects a DetectionResult JSON body in return
+const detect = async ({ mediaType, url, signal }: DetectorInput): Promise<DetectionResult> => {
+  const { httpEndpoint } = loadSettings();
+  const media = await (await fetch(url, { signal })).blob();
+
+  const body = new FormData();
+  body.append('mediaType', mediaType);
+  body.append('file', media, `upload.${media.type.split('/')[1] || 'bin'}`);
+
+  const response = await fetch(`${httpEndpoint.replace(/\/+$/, '')}/detect`, {
+    method: 'POST',
+    body,
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Inference server responded with ${response.status} ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  if (!isDetectionResult(result)) {
+    throw new Error('Inference server returned an invalid detection result');
+  }
+  return { ...result, metadata: { ...result.metadata, type: mediaType } };
+};
+
+export const httpDetector: DetectorBackend = {
+  id: 'http',
+  name: 'Local inference server',
+  description: 'POSTs media to a local HTTP inference server',
+  supports: ['image', 'video', 'audio'],
+  detect,
+};
@@ -0,0 +1,39 @@
+import { AnalysisSettings, loadSettings } from '../settingsService';
+import type { DetectorBackend, MediaType } from './types';
+import { transformersDetector } from './transformersDetector';
+import { heuristicDetector } from './heuristicDetector';
+import { httpDetector } from './httpDetector';
+import { createFrameSamplingDetector } from './frameSamplingDetector';
+
+const detectors = new Map<string, DetectorBackend>();
+
+export const registerDetector = (backend: DetectorBackend) => {
+  detectors.set(backend.id, backend);
+};
+
+[
+  transformersDetector,
+  heuristicDetector,
+  createFrameSamplingDetector(() => getActiveDetector('image')),
+  httpDetector,
+].forEach(registerDetector);
+
+export const getDetectors = (mediaType?: MediaType): DetectorBackend[] => {
+  const all = Array.from(detectors.values());
+  return mediaType ? all.filter(backend => backend.supports.includes(mediaType)) : all;
+};
+
+// Resolve the backend selected in settings, falling back to the first one
+// that supports the media type
+export const getActiveDetector = (mediaType: MediaType, settings: AnalysisSettings = loadSettings()): DetectorBackend => {
+  const selected = detectors.get(settings.detectors[mediaType]);
+  if (selected?.supports.includes(mediaType)) {
+    return selected;
+  }
+
+  const fallback = getDetectors(mediaType)[0];
+  if (!fallback) {
+    throw new Error(`No detector backend supports ${mediaType} analysis`);
+  }
+  return fallback;
+};
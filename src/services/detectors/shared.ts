@@ -0,0 +1,91 @@
+import type { ProgressCallback } from './types';
+
+export const getClassificationCategory = (confidence: number): 'highly_authentic' | 'likely_authentic' | 'possibly_manipulated' | 'highly_manipulated' => {
+  if (confidence < 20) return 'highly_authentic';
+  if (confidence < 40) return 'likely_authentic';
+  if (confidence < 80) return 'possibly_manipulated';
+  return 'highly_manipulated';
+};
+
+export const getRiskLevel = (confidence: number): 'low' | 'medium' | 'high' => {
+  if (confidence < 30) return 'low';
+  if (confidence < 70) return 'medium';
+  return 'high';
+};
+
+// Map a step's 0-100 progress onto the start-end part of the overall bar
+export const scaleProgress = (onProgress: ProgressCallback | undefined, start: number, end: number): ProgressCallback | undefined =>
+  onProgress && ((progress, status) => onProgress(start + (progress / 100) * (end - start), status));
+
+// Mean of the sub-scores that were measured; undefined when none were
+export const averageMeasured = (values: (number | undefined)[]): number | undefined => {
+  const measured = values.filter((value): value is number => value !== undefined);
+  return measured.length > 0 ? measured.reduce((sum, v) => sum + v, 0) / measured.length : undefined;
+};
+
+export interface DecodedImage {
+  imageData: ImageData;
+  // Original dimensions, before any downscaling
+  width: number;
+  height: number;
+}
+
+// Decode an image URL (blob, data or CORS-enabled remote) into RGBA pixels.
+// Images larger than maxDimension are downscaled, keeping the aspect ratio.
+export const decodeImage = (imageUrl: string, maxDimension = Infinity): Promise<DecodedImage> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve({
+        imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+      });
+    };
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = imageUrl;
+  });
+};
+
+// Decode an audio URL at its own rate; resampleAudio then gives each
+// consumer the rate it needs without decoding the file again
+export const decodeAudioBuffer = async (audioUrl: string, signal?: AbortSignal): Promise<AudioBuffer> => {
+  const response = await fetch(audioUrl, { signal });
+  const bytes = await response.arrayBuffer();
+
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(bytes);
+  } finally {
+    context.close();
+  }
+};
+
+// Mono samples of `audio` at sampleRate, rendered only up to maxSeconds
+export const resampleAudio = async (audio: AudioBuffer, sampleRate: number, maxSeconds = Infinity): Promise<Float32Array> => {
+  const seconds = Math.min(audio.duration, maxSeconds);
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(seconds * sampleRate)), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = audio;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// Decode an audio URL into a mono Float32Array at the requested sample rate
+export const decodeAudio = async (audioUrl: string, sampleRate = 16000, signal?: AbortSignal): Promise<{ samples: Float32Array; duration: number }> => {
+  const decoded = await decodeAudioBuffer(audioUrl, signal);
+  return { samples: await resampleAudio(decoded, sampleRate), duration: decoded.duration * 1000 };
+};
@@ -0,0 +1,26 @@
+import type { DetectionResult } from '../detectionService';
+
+export type MediaType = 'image' | 'video' | 'audio';
+
+// progress is a percentage (0-100) of the whole job
+export type ProgressCallback = (progress: number, status: string) => void;
+
+export interface DetectorInput {
+  mediaType: MediaType;
+  // Blob, data or remote URL of the media to analyze
+  url: string;
+  // SHA-256 of the media bytes when they are available locally
+  sourceHash?: string;
+  // The decoded audio, when the caller already has it, so it is not decoded twice
+  audio?: AudioBuffer;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+export interface DetectorBackend {
+  id: string;
+  name: string;
+  description: string;
+  supports: MediaType[];
+  detect: (input: DetectorInput) => Promise<DetectionResult>;
+}
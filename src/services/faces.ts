@@ -0,0 +1,184 @@
+import { runInference } from './inferenceClient';
+import { decodeImage } from './detectors/shared';
+import type { DetectorBackend } from './detectors/types';
+import type { DetectionResult } from './detectionService';
+
+export type FaceObservation = NonNullable<DetectionResult['analysis']['faces']>[number];
+export type FaceBox = FaceObservation['box'];
+
+export interface ScoredFace {
+  box: FaceBox;
+  // Face detector certainty (0-1)
+  detectionScore: number;
+  // Manipulation confidence (0-100) of the face crop
+  confidence: number;
+}
+
+// Faces are located on a downscaled copy; crops are taken from it as well
+const MAX_DIMENSION = 1024;
+const FACE_LABEL_PATTERN = /face/i;
+const MIN_DETECTION_SCORE = 0.5;
+// Context around the face box, as a share of its size; manipulation artifacts
+// often sit along the blending boundary
+const CROP_PADDING = 0.2;
+// Boxes in consecutive frames overlapping at least this much belong to one track
+const TRACK_IOU_THRESHOLD = 0.3;
+
+interface BrowserFaceDetector {
+  detect: (image: ImageBitmapSource) => Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+
+declare global {
+  interface Window {
+    FaceDetector?: new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => BrowserFaceDetector;
+  }
+}
+
+// Set once the face model fails to load, so later frames go straight to the fallback
+let isModelUnavailable = false;
+
+const detectWithModel = async (imageData: ImageData, signal?: AbortSignal) => {
+  const { data, width, height } = imageData;
+  const [objects] = await runInference('object-detection', [{ data, width, height }], { signal });
+  return objects
+    .filter(({ label, score }) => FACE_LABEL_PATTERN.test(label) && score >= MIN_DETECTION_SCORE)
+    .map(({ score, box }) => ({
+      detectionScore: score,
+      box: {
+        x: box.xmin * 100,
+        y: box.ymin * 100,
+        width: (box.xmax - box.xmin) * 100,
+        height: (box.ymax - box.ymin) * 100,
+      },
+    }));
+};
+
+const detectWithBrowserApi = async (imageData: ImageData) => {
+  const detector = new window.FaceDetector!({ fastMode: false });
+  const bitmap = await createImageBitmap(imageData);
+  try {
+    const faces = await detector.detect(bitmap);
+    // The Shape Detection API reports no certainty
+    return faces.map(({ boundingBox }) => ({
+      detectionScore: 1,
+      box: {
+        x: (boundingBox.x / imageData.width) * 100,
+        y: (boundingBox.y / imageData.height) * 100,
+        width: (boundingBox.width / imageData.width) * 100,
+        height: (boundingBox.height / imageData.height) * 100,
+      },
+    }));
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Locate faces with the local face model, falling back to the browser's
+// FaceDetector. Returns no faces when neither is available.
+export const detectFaces = async (
+  imageData: ImageData,
+  signal?: AbortSignal
+): Promise<{ box: FaceBox; detectionScore: number }[]> => {
+  if (!isModelUnavailable) {
+    try {
+      return await detectWithModel(imageData, signal);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn('Face detection model unavailable, falling back to the FaceDetector API:', error);
+      isModelUnavailable = true;
+    }
+  }
+  if (window.FaceDetector) {
+    try {
+      return await detectWithBrowserApi(imageData);
+    } catch (error) {
+      // Faces are optional evidence; the analysis goes on without them
+      signal?.throwIfAborted();
+      console.warn('FaceDetector API failed, continuing without faces:', error);
+    }
+  }
+  return [];
+};
+
+const cropFace = (source: HTMLCanvasElement, box: FaceBox): string => {
+  const padX = box.width * CROP_PADDING;
+  const padY = box.height * CROP_PADDING;
+  const left = Math.max(0, box.x - padX) / 100 * source.width;
+  const top = Math.max(0, box.y - padY) / 100 * source.height;
+  const right = Math.min(100, box.x + box.width + padX) / 100 * source.width;
+  const bottom = Math.min(100, box.y + box.height + padY) / 100 * source.height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(right - left));
+  canvas.height = Math.max(1, Math.round(bottom - top));
+  canvas.getContext('2d')?.drawImage(source, left, top, right - left, bottom - top, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+// Find every face in an image and score each crop with the given detector
+export const scoreFaces = async (
+  imageUrl: string,
+  detector: DetectorBackend,
+  signal?: AbortSignal
+): Promise<ScoredFace[]> => {
+  const { imageData } = await decodeImage(imageUrl, MAX_DIMENSION);
+  const faces = await detectFaces(imageData, signal);
+  if (faces.length === 0) return [];
+
+  const source = document.createElement('canvas');
+  source.width = imageData.width;
+  source.height = imageData.height;
+  source.getContext('2d')?.putImageData(imageData, 0, 0);
+
+  const scored: ScoredFace[] = [];
+  for (const face of faces) {
+    signal?.throwIfAborted();
+    const result = await detector.detect({ mediaType: 'image', url: cropFace(source, face.box), signal });
+    scored.push({ ...face, confidence: result.confidence });
+  }
+  return scored;
+};
+
+const getIoU = (a: FaceBox, b: FaceBox): number => {
+  const overlapWidth = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const overlapHeight = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = overlapWidth * overlapHeight;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Link faces across frames: each face joins the track whose last box overlaps
+// it most, best matches first, or starts a new track
+export const trackFaces = (frames: { timestamp: number; faces: ScoredFace[] }[]): FaceObservation[] => {
+  const observations: FaceObservation[] = [];
+  let lastBoxes: { trackId: number; box: FaceBox }[] = [];
+  let nextTrackId = 1;
+
+  for (const { timestamp, faces } of frames) {
+    const candidates = faces.flatMap((face, faceIndex) =>
+      lastBoxes.map((track, trackIndex) => ({ faceIndex, trackIndex, iou: getIoU(face.box, track.box) }))
+    ).filter(({ iou }) => iou >= TRACK_IOU_THRESHOLD).sort((a, b) => b.iou - a.iou);
+
+    const trackIds = new Array<number | undefined>(faces.length);
+    const usedTracks = new Set<number>();
+    for (const { faceIndex, trackIndex } of candidates) {
+      if (trackIds[faceIndex] !== undefined || usedTracks.has(trackIndex)) continue;
+      trackIds[faceIndex] = lastBoxes[trackIndex].trackId;
+      usedTracks.add(trackIndex);
+    }
+
+    const current = faces.map((face, index) => ({ ...face, trackId: trackIds[index] ?? nextTrackId++, timestamp }));
+    observations.push(...current);
+    // Frames without faces keep the previous boxes so a track survives a missed detection
+    if (current.length > 0) {
+      lastBoxes = current.map(({ trackId, box }) => ({ trackId, box }));
+    }
+  }
+  return observations;
+};
+
+// Lower when faces score as manipulated; undefined when no face was found
+export const getFaceConsistency = (faces: FaceObservation[]): number | undefined => {
+  if (faces.length === 0) return undefined;
+  return 100 - faces.reduce((sum, face) => sum + face.confidence, 0) / faces.length;
+};
@@ -0,0 +1,514 @@
+// Signal analysis of speech audio: a log-mel spectrogram and MFCCs describe
+// the spectral envelope frame by frame, and a YIN pitch tracker gives the F0
+// contour. Synthesis and editing leave traces in both: band-limited spectra
+// from low-rate vocoders, pitch that jumps where two takes were joined or
+// never varies at all, digital silence and repeated passages.
+import type { DetectionResult } from '../detectionService';
+import { decodeAudio, resampleAudio } from '../detectors/shared';
+import { runAudioSignalAnalysis } from '../inferenceClient';
+import { fft, hannWindow } from '@/utils/fft';
+
+export type AudioAnalysis = NonNullable<DetectionResult['analysis']['audioAnalysis']>;
+type AudioSegment = AudioAnalysis['suspiciousSegments'][number];
+
+export type AudioSegmentType = 'pitch_jump' | 'digital_silence' | 'clipping' | 'repetition';
+
+export const AUDIO_SEGMENT_LABELS: Record<AudioSegmentType, string> = {
+  pitch_jump: 'Pitch jump',
+  digital_silence: 'Digital silence',
+  clipping: 'Clipping',
+  repetition: 'Repeated audio',
+};
+
+// High enough to see the band limit of 16, 22.05 and 24 kHz synthesis
+const SAMPLE_RATE = 32000;
+// 32 ms frames every 10 ms
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 320;
+const MEL_BANDS = 40;
+const MFCC_COUNT = 13;
+// Longer files are analyzed up to this point
+const MAX_SECONDS = 120;
+// Frames quieter than this below the loudest frame count as silence
+const ACTIVE_RANGE_DB = 40;
+
+// Pitch is tracked at 8 kHz, which bounds the cost of YIN
+const PITCH_DECIMATION = 4;
+const PITCH_WINDOW = 320;
+const MIN_F0 = 60;
+const MAX_F0 = 400;
+const YIN_THRESHOLD = 0.15;
+// Frames whose best YIN dip is above this are unvoiced
+const VOICING_THRESHOLD = 0.3;
+// Frame-to-frame F0 change (in octaves) counted as a jump
+const JUMP_OCTAVES = 0.3;
+// Change allowed within the steady runs on either side of a reported jump
+const STEADY_OCTAVES = 0.05;
+// Jump share of voiced frame pairs at which pitch consistency reaches zero
+const MAX_JUMP_RATE = 0.2;
+// Median frame-to-frame F0 change below which the pitch is too regular for a voice
+const MIN_NATURAL_JITTER = 0.002;
+const MIN_VOICED_PAIRS = 20;
+
+// Spectrum profile bands, and the range searched for a brick-wall cutoff.
+// The resampler's own low-pass filter sits above the range.
+const PROFILE_BAND_HZ = 250;
+const CUTOFF_SEARCH_HZ: [number, number] = [2000, 15000];
+// Drop in dB across the cutoff from which the spectrum counts as band-limited
+const CUTOFF_DROP_DB = 15;
+const PROFILE_FLOOR_DB = -60;
+
+const CLIP_LEVEL = 0.98;
+const MIN_CLIP_RUN = 3;
+const MIN_SILENCE_MS = 50;
+
+// Passages compared for repetition: 800 ms described by 8 blocks of mean
+// MFCCs, at least 1 s apart
+const REPEAT_BLOCKS = 8;
+const REPEAT_BLOCK_FRAMES = 10;
+const REPEAT_STEP_FRAMES = 25;
+const MIN_REPEAT_LAG_FRAMES = 100;
+// Share of the typical passage distance below which two passages are copies
+const REPEAT_RATIO = 0.08;
+
+const MAX_SEGMENTS = 20;
+const PITCH_CONTOUR_POINTS = 400;
+// The waveform only needs the envelope, so a low rate decodes faster
+const WAVEFORM_SAMPLE_RATE = 8000;
+const WAVEFORM_BINS = 600;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const frameTime = (frame: number) => ((frame * HOP_SIZE + FRAME_SIZE / 2) / SAMPLE_RATE) * 1000;
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters evenly spaced on the mel scale, as weights per FFT bin
+const createMelFilterbank = (bands: number, fftSize: number, sampleRate: number): Float64Array[] => {
+  const bins = fftSize / 2 + 1;
+  const maxMel = hzToMel(sampleRate / 2);
+  const edges = Array.from({ length: bands + 2 }, (_, i) => (melToHz((i / (bands + 1)) * maxMel) * fftSize) / sampleRate);
+  return Array.from({ length: bands }, (_, band) => {
+    const [left, center, right] = [edges[band], edges[band + 1], edges[band + 2]];
+    return Float64Array.from({ length: bins }, (_, bin) =>
+      bin <= left || bin >= right ? 0 : bin <= center ? (bin - left) / (center - left) : (right - bin) / (right - center)
+    );
+  });
+};
+
+// DCT-II of each log-mel frame
+const computeMfcc = (logMel: Float32Array[]): Float32Array[] =>
+  logMel.map(frame => {
+    const coefficients = new Float32Array(MFCC_COUNT);
+    for (let k = 0; k < MFCC_COUNT; k++) {
+      let sum = 0;
+      for (let m = 0; m < frame.length; m++) sum += frame[m] * Math.cos((Math.PI * k * (m + 0.5)) / frame.length);
+      coefficients[k] = sum;
+    }
+    return coefficients;
+  });
+
+// Frame levels in dB, and which frames are loud enough to analyze
+const getFrameLevels = (samples: Float32Array, frames: number) => {
+  const levels = new Float64Array(frames);
+  for (let t = 0; t < frames; t++) {
+    let sum = 0;
+    for (let i = t * HOP_SIZE; i < t * HOP_SIZE + FRAME_SIZE; i++) sum += samples[i] * samples[i];
+    levels[t] = 10 * Math.log10(sum / FRAME_SIZE + 1e-12);
+  }
+  const loudest = levels.reduce((max, level) => Math.max(max, level), -Infinity);
+  return { levels, active: levels.map(level => (level > loudest - ACTIVE_RANGE_DB ? 1 : 0)) };
+};
+
+// Log-mel spectrogram of every frame, and the mean power spectrum of the
+// active ones
+const computeSpectrogram = (samples: Float32Array, frames: number, active: Float64Array) => {
+  const window = hannWindow(FRAME_SIZE);
+  const filterbank = createMelFilterbank(MEL_BANDS, FRAME_SIZE, SAMPLE_RATE);
+  const bins = FRAME_SIZE / 2 + 1;
+  const meanPower = new Float64Array(bins);
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const power = new Float64Array(bins);
+  let activeFrames = 0;
+
+  const logMel = Array.from({ length: frames }, (_, t) => {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = samples[t * HOP_SIZE + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let bin = 0; bin < bins; bin++) power[bin] = re[bin] * re[bin] + im[bin] * im[bin];
+    if (active[t]) {
+      activeFrames++;
+      for (let bin = 0; bin < bins; bin++) meanPower[bin] += power[bin];
+    }
+
+    const frame = new Float32Array(MEL_BANDS);
+    filterbank.forEach((weights, band) => {
+      let energy = 0;
+      for (let bin = 0; bin < bins; bin++) energy += weights[bin] * power[bin];
+      frame[band] = Math.log(energy + 1e-10);
+    });
+    return frame;
+  });
+
+  return { logMel, meanPower: meanPower.map(value => value / Math.max(1, activeFrames)) };
+};
+
+// YIN F0 per frame, 0 where unvoiced or silent. Frames are aligned with the
+// spectrogram's.
+const trackPitch = (samples: Float32Array, frames: number, active: Float64Array): Float64Array => {
+  const rate = SAMPLE_RATE / PITCH_DECIMATION;
+  // Averaging before decimation is a crude low-pass, but enough for F0
+  const decimated = new Float64Array(Math.floor(samples.length / PITCH_DECIMATION));
+  for (let i = 0; i < decimated.length; i++) {
+    let sum = 0;
+    for (let k = 0; k < PITCH_DECIMATION; k++) sum += samples[i * PITCH_DECIMATION + k];
+    decimated[i] = sum / PITCH_DECIMATION;
+  }
+
+  const minLag = Math.floor(rate / MAX_F0);
+  const maxLag = Math.ceil(rate / MIN_F0);
+  const difference = new Float64Array(maxLag + 1);
+  const normalized = new Float64Array(maxLag + 1);
+  const f0 = new Float64Array(frames);
+
+  for (let t = 0; t < frames; t++) {
+    const start = Math.round((t * HOP_SIZE + FRAME_SIZE / 2) / PITCH_DECIMATION - PITCH_WINDOW / 2);
+    if (!active[t] || start < 0 || start + PITCH_WINDOW + maxLag > decimated.length) continue;
+
+    for (let lag = 1; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let j = start; j < start + PITCH_WINDOW; j++) {
+        const delta = decimated[j] - decimated[j + lag];
+        sum += delta * delta;
+      }
+      difference[lag] = sum;
+    }
+    // Cumulative mean normalized difference
+    let running = 0;
+    normalized[0] = 1;
+    for (let lag = 1; lag <= maxLag; lag++) {
+      running += difference[lag];
+      normalized[lag] = running > 0 ? (difference[lag] * lag) / running : 1;
+    }
+
+    // First dip under the threshold, followed down to its minimum; otherwise
+    // the global minimum
+    let best = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (normalized[lag] < YIN_THRESHOLD) {
+        while (lag < maxLag && normalized[lag + 1] < normalized[lag]) lag++;
+        best = lag;
+        break;
+      }
+    }
+    if (best < 0) {
+      best = minLag;
+      for (let lag = minLag; lag <= maxLag; lag++) {
+        if (normalized[lag] < normalized[best]) best = lag;
+      }
+    }
+    if (normalized[best] > VOICING_THRESHOLD) continue;
+
+    // Parabolic interpolation between lags
+    let lag = best;
+    if (best > minLag && best < maxLag) {
+      const [a, b, c] = [normalized[best - 1], normalized[best], normalized[best + 1]];
+      const denominator = a - 2 * b + c;
+      if (denominator > 0) lag += (0.5 * (a - c)) / denominator;
+    }
+    f0[t] = rate / lag;
+  }
+  return f0;
+};
+
+const analyzePitch = (f0: Float64Array) => {
+  const steps: number[] = [];
+  const segments: AudioSegment[] = [];
+  let pairs = 0, jumps = 0;
+  const octaves = (a: number, b: number) => Math.abs(Math.log2(a / b));
+
+  for (let t = 1; t < f0.length; t++) {
+    if (!f0[t] || !f0[t - 1]) continue;
+    pairs++;
+    const step = octaves(f0[t], f0[t - 1]);
+    if (step <= JUMP_OCTAVES) {
+      steps.push(step);
+      continue;
+    }
+    jumps++;
+
+    // Only jumps between two steady voiced runs are reported; tracker errors
+    // at voicing onsets do not have them
+    const steady = (from: number, to: number) => {
+      for (let k = from; k <= to; k++) {
+        if (k < 0 || k >= f0.length || !f0[k] || octaves(f0[k], f0[from]) > STEADY_OCTAVES) return false;
+      }
+      return true;
+    };
+    if (steady(t - 3, t - 1) && steady(t, t + 2)) {
+      segments.push({
+        type: 'pitch_jump',
+        timestamp: Math.max(0, frameTime(t) - 50),
+        duration: 100,
+        confidence: 100 * clamp01(0.5 + step),
+      });
+    }
+  }
+
+  if (pairs < MIN_VOICED_PAIRS) {
+    return { consistency: 100, regularity: 0, segments };
+  }
+  return {
+    consistency: 100 * clamp01(1 - jumps / pairs / MAX_JUMP_RATE),
+    // 1 when the pitch barely moves from frame to frame, as in a monotone
+    // synthetic voice or a pure tone
+    regularity: clamp01(1 - median(steps) / MIN_NATURAL_JITTER),
+    segments,
+  };
+};
+
+// Mean spectrum in PROFILE_BAND_HZ bands, in dB relative to the loudest band,
+// and the steepest drop across a band edge in the search range
+const analyzeBandwidth = (meanPower: Float64Array) => {
+  const binsPerBand = Math.round((PROFILE_BAND_HZ * FRAME_SIZE) / SAMPLE_RATE);
+  const bands = Math.floor((meanPower.length - 1) / binsPerBand);
+  const levels = Array.from({ length: bands }, (_, band) => {
+    let sum = 0;
+    for (let bin = band * binsPerBand; bin < (band + 1) * binsPerBand; bin++) sum += meanPower[bin];
+    return 10 * Math.log10(sum / binsPerBand + 1e-12);
+  });
+  const peak = Math.max(...levels);
+  const relative = levels.map(level => level - peak);
+
+  const [firstBand, lastBand] = CUTOFF_SEARCH_HZ.map(hz => Math.round(hz / PROFILE_BAND_HZ));
+  let drop = 0;
+  for (let band = firstBand; band < Math.min(lastBand, bands - 1); band++) {
+    // A brick wall leaves nothing above it, so the highest band above counts
+    const above = Math.max(...relative.slice(band + 1, lastBand + 1));
+    drop = Math.max(drop, relative[band - 1] - above);
+  }
+
+  let top = 0;
+  relative.forEach((level, band) => {
+    if (level > PROFILE_FLOOR_DB) top = band;
+  });
+
+  return {
+    profile: relative.map((level, band) => ({
+      frequency: (band + 0.5) * PROFILE_BAND_HZ,
+      level: Math.round(Math.max(PROFILE_FLOOR_DB, level) * 10) / 10,
+    })),
+    bandwidth: (top + 1) * PROFILE_BAND_HZ,
+    cutoffScore: clamp01((drop - CUTOFF_DROP_DB) / 25),
+  };
+};
+
+// Runs of samples at full scale, and runs of exact zeros away from the ends
+// of the file (recordings always carry some noise)
+const analyzeSampleRuns = (samples: Float32Array) => {
+  const segments: AudioSegment[] = [];
+  const toMs = (sample: number) => (sample / SAMPLE_RATE) * 1000;
+  let clipped = 0, silenceMs = 0;
+
+  for (let i = 0; i < samples.length;) {
+    let end = i;
+    if (Math.abs(samples[i]) >= CLIP_LEVEL) {
+      while (end < samples.length && Math.abs(samples[end]) >= CLIP_LEVEL) end++;
+      if (end - i >= MIN_CLIP_RUN) {
+        clipped += end - i;
+        segments.push({ type: 'clipping', timestamp: toMs(i), duration: toMs(end - i), confidence: 80 });
+      }
+    } else if (samples[i] === 0) {
+      while (end < samples.length && samples[end] === 0) end++;
+      const duration = toMs(end - i);
+      if (i > 0 && end < samples.length && duration >= MIN_SILENCE_MS) {
+        silenceMs += duration;
+        segments.push({ type: 'digital_silence', timestamp: toMs(i), duration, confidence: Math.min(100, 70 + duration / 50) });
+      }
+    }
+    i = Math.max(end, i + 1);
+  }
+
+  return {
+    segments,
+    clippingScore: clamp01((clipped / Math.max(1, samples.length)) * 200),
+    silenceScore: silenceMs > 0 ? clamp01(0.5 + silenceMs / 2000) : 0,
+  };
+};
+
+// Passages whose MFCC trajectory matches an earlier one almost exactly, as
+// left by copy-pasting or looping. Every hop-aligned passage is compared
+// with the passages starting at every later frame, so copies need not be
+// aligned with the passage grid.
+const findRepetitions = (mfcc: Float32Array[], active: Float64Array) => {
+  const frames = mfcc.length;
+  const length = REPEAT_BLOCKS * REPEAT_BLOCK_FRAMES;
+  const segments: AudioSegment[] = [];
+  if (frames < length + MIN_REPEAT_LAG_FRAMES) return { segments, repetitionScore: 0 };
+
+  // Prefix sums make every block mean O(MFCC_COUNT)
+  const prefix = new Float64Array((frames + 1) * MFCC_COUNT);
+  for (let t = 0; t < frames; t++) {
+    for (let k = 0; k < MFCC_COUNT; k++) {
+      prefix[(t + 1) * MFCC_COUNT + k] = prefix[t * MFCC_COUNT + k] + mfcc[t][k];
+    }
+  }
+  const describe = (start: number) => {
+    const descriptor = new Float64Array(REPEAT_BLOCKS * MFCC_COUNT);
+    for (let block = 0; block < REPEAT_BLOCKS; block++) {
+      const from = start + block * REPEAT_BLOCK_FRAMES;
+      for (let k = 0; k < MFCC_COUNT; k++) {
+        descriptor[block * MFCC_COUNT + k] =
+          (prefix[(from + REPEAT_BLOCK_FRAMES) * MFCC_COUNT + k] - prefix[from * MFCC_COUNT + k]) / REPEAT_BLOCK_FRAMES;
+      }
+    }
+    return descriptor;
+  };
+  const isActive = (start: number) => {
+    let count = 0;
+    for (let t = start; t < start + length; t++) count += active[t];
+    return count >= 0.9 * length;
+  };
+
+  const starts = Array.from({ length: frames - length + 1 }, (_, t) => t);
+  const descriptors = starts.map(start => (isActive(start) ? describe(start) : null));
+  const matches: { start: number; distance: number }[] = [];
+  const typicalDistances: number[] = [];
+
+  for (let a = 0; a + length + MIN_REPEAT_LAG_FRAMES <= frames; a += REPEAT_STEP_FRAMES) {
+    const first = descriptors[a];
+    if (!first) continue;
+    let nearest = Infinity, nearestStart = -1, total = 0, count = 0;
+    for (let b = a + MIN_REPEAT_LAG_FRAMES; b < descriptors.length; b++) {
+      const second = descriptors[b];
+      if (!second) continue;
+      let sum = 0;
+      for (let k = 0; k < first.length; k++) sum += (first[k] - second[k]) ** 2;
+      const distance = Math.sqrt(sum);
+      total += distance;
+      count++;
+      if (distance < nearest) [nearest, nearestStart] = [distance, b];
+    }
+    if (count === 0) continue;
+    typicalDistances.push(total / count);
+    matches.push({ start: nearestStart, distance: nearest });
+  }
+
+  const threshold = REPEAT_RATIO * median(typicalDistances);
+  let repeatedMs = 0;
+  for (const { start, distance } of matches) {
+    if (distance >= threshold) continue;
+    const timestamp = frameTime(start) - (FRAME_SIZE / 2 / SAMPLE_RATE) * 1000;
+    const duration = (length * HOP_SIZE * 1000) / SAMPLE_RATE;
+    repeatedMs += duration;
+    segments.push({ type: 'repetition', timestamp, duration, confidence: 100 * clamp01(1 - (0.5 * distance) / threshold) });
+  }
+
+  return { segments, repetitionScore: repeatedMs > 0 ? clamp01(0.5 + repeatedMs / 3000) : 0 };
+};
+
+// Overlapping or touching segments of one type become one
+const mergeSegments = (segments: AudioSegment[]): AudioSegment[] => {
+  const merged: AudioSegment[] = [];
+  const sorted = [...segments].sort((a, b) => a.type.localeCompare(b.type) || a.timestamp - b.timestamp);
+  for (const segment of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type && segment.timestamp <= last.timestamp + last.duration + 100) {
+      const end = Math.max(last.timestamp + last.duration, segment.timestamp + segment.duration);
+      last.duration = end - last.timestamp;
+      last.confidence = Math.max(last.confidence, segment.confidence);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_SEGMENTS)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// F0 in at most PITCH_CONTOUR_POINTS buckets: the median of the voiced
+// frames, or null when most of the bucket is unvoiced
+const summarizePitch = (f0: Float64Array): AudioAnalysis['pitchContour'] => {
+  const bucket = Math.max(1, Math.ceil(f0.length / PITCH_CONTOUR_POINTS));
+  const contour: AudioAnalysis['pitchContour'] = [];
+  for (let start = 0; start < f0.length; start += bucket) {
+    const voiced = Array.from(f0.subarray(start, start + bucket)).filter(value => value > 0);
+    contour.push({
+      timestamp: Math.round(frameTime(start)),
+      f0: voiced.length * 2 >= Math.min(bucket, f0.length - start) ? Math.round(median(voiced) * 10) / 10 : null,
+    });
+  }
+  return contour;
+};
+
+// Analyze mono samples at SAMPLE_RATE. Scores are percentages: pitch
+// consistency is high for natural speech, the other two are high when
+// something looks wrong.
+export const analyzeAudioSignal = (samples: Float32Array): AudioAnalysis => {
+  const frames = samples.length < FRAME_SIZE ? 0 : 1 + Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE);
+  const { active } = getFrameLevels(samples, frames);
+  const { logMel, meanPower } = computeSpectrogram(samples, frames, active);
+  const mfcc = computeMfcc(logMel);
+  const f0 = trackPitch(samples, frames, active);
+
+  const pitch = analyzePitch(f0);
+  const bandwidth = analyzeBandwidth(meanPower);
+  const runs = analyzeSampleRuns(samples);
+  const repetitions = findRepetitions(mfcc, active);
+
+  return {
+    pitchConsistency: pitch.consistency,
+    frequencyDistortion: 100 * Math.max(bandwidth.cutoffScore, runs.clippingScore),
+    artificialPatterns: 100 * Math.max(pitch.regularity, runs.silenceScore, repetitions.repetitionScore),
+    suspiciousSegments: mergeSegments([...pitch.segments, ...runs.segments, ...repetitions.segments]),
+    frequencyProfile: bandwidth.profile,
+    pitchContour: summarizePitch(f0),
+    bandwidth: bandwidth.bandwidth,
+  };
+};
+
+// Analyze the first MAX_SECONDS of decoded audio in the inference worker;
+// nothing past that point is resampled
+export const computeAudioAnalysis = async (audio: AudioBuffer, signal?: AbortSignal): Promise<AudioAnalysis> => {
+  const samples = await resampleAudio(audio, SAMPLE_RATE, MAX_SECONDS);
+  signal?.throwIfAborted();
+  return runAudioSignalAnalysis(samples, { signal });
+};
+
+// Lowest and highest sample in each of `bins` equal slices of the whole
+// file, for drawing its waveform
+export const computeWaveform = async (audioUrl: string, bins = WAVEFORM_BINS): Promise<{ min: number; max: number }[]> => {
+  const { samples } = await decodeAudio(audioUrl, WAVEFORM_SAMPLE_RATE);
+  const size = samples.length / bins;
+  return Array.from({ length: bins }, (_, bin) => {
+    let min = 0, max = 0;
+    for (let i = Math.floor(bin * size); i < Math.floor((bin + 1) * size); i++) {
+      min = Math.min(min, samples[i]);
+      max = Math.max(max, samples[i]);
+    }
+    return { min, max };
+  });
+};
+
+// One-line summary of the signal analysis, for reports
+export const describeAudioAnalysis = ({ pitchConsistency, frequencyDistortion, artificialPatterns, suspiciousSegments, bandwidth }: AudioAnalysis): string => {
+  const segments = suspiciousSegments.length > 0
+    ? suspiciousSegments
+      .map(segment => `${AUDIO_SEGMENT_LABELS[segment.type as AudioSegmentType] ?? segment.type} at ${(segment.timestamp / 1000).toFixed(1)}s`)
+      .join(', ')
+    : 'no suspicious segments';
+  const bandwidthText = bandwidth !== undefined ? `, content up to ${(bandwidth / 1000).toFixed(2)} kHz` : '';
+  return `pitch consistency ${pitchConsistency.toFixed(1)}%, frequency distortion ${frequencyDistortion.toFixed(1)}%, ` +
+    `artificial patterns ${artificialPatterns.toFixed(1)}%${bandwidthText}; ${segments}`;
+};
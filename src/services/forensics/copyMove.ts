@@ -0,0 +1,157 @@
+// Copy-move detection by block matching: overlapping blocks are described by
+// their low-frequency DCT coefficients, sorted so that similar blocks end up
+// next to each other, and pairs that agree on the same displacement are
+// reported. Cloned areas produce many pairs with one shared shift, while
+// chance matches between unrelated blocks scatter over many shifts.
+
+const BLOCK_SIZE = 8;
+const STEP = 2;
+// DCT coefficients kept per block (FREQUENCIES x FREQUENCIES)
+const FREQUENCIES = 3;
+const QUANTIZATION = 6;
+// Neighbours in sorted order compared with each block
+const SEARCH_WINDOW = 8;
+// Flat blocks (sky, walls) match everywhere and are skipped
+const MIN_BLOCK_STD = 4;
+// Mean absolute gray difference below which two blocks are copies
+const MAX_PIXEL_DIFFERENCE = 3;
+// Shorter shifts are overlapping neighbours, not clones
+const MIN_SHIFT = 2 * BLOCK_SIZE;
+// Pairs needed before a shift is believed
+const MIN_PAIRS = 24;
+
+export interface CopyMoveShift {
+  dx: number;
+  dy: number;
+  pairs: number;
+}
+
+export interface CopyMoveResult {
+  // Per pixel, 0-1 strength of the shift the pixel was matched with
+  mask: Float32Array;
+  shifts: CopyMoveShift[];
+}
+
+// Orthonormal DCT-II basis rows for the kept frequencies
+const DCT_BASIS = Array.from({ length: FREQUENCIES }, (_, u) =>
+  Float64Array.from({ length: BLOCK_SIZE }, (_, x) =>
+    (u === 0 ? Math.sqrt(1 / BLOCK_SIZE) : Math.sqrt(2 / BLOCK_SIZE)) *
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * BLOCK_SIZE))
+  )
+);
+
+const getBlockStd = (gray: Float32Array, width: number, left: number, top: number) => {
+  let sum = 0, sumSquares = 0;
+  for (let y = top; y < top + BLOCK_SIZE; y++) {
+    for (let x = left; x < left + BLOCK_SIZE; x++) {
+      const value = gray[y * width + x];
+      sum += value;
+      sumSquares += value * value;
+    }
+  }
+  const pixels = BLOCK_SIZE * BLOCK_SIZE;
+  const mean = sum / pixels;
+  return Math.sqrt(Math.max(0, sumSquares / pixels - mean * mean));
+};
+
+const writeFeatures = (gray: Float32Array, width: number, left: number, top: number, out: Int16Array, offset: number) => {
+  // Separable transform: rows first, then columns
+  const rows = new Float64Array(BLOCK_SIZE * FREQUENCIES);
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let u = 0; u < FREQUENCIES; u++) {
+      let sum = 0;
+      for (let x = 0; x < BLOCK_SIZE; x++) sum += DCT_BASIS[u][x] * gray[(top + y) * width + left + x];
+      rows[y * FREQUENCIES + u] = sum;
+    }
+  }
+  for (let v = 0; v < FREQUENCIES; v++) {
+    for (let u = 0; u < FREQUENCIES; u++) {
+      let sum = 0;
+      for (let y = 0; y < BLOCK_SIZE; y++) sum += DCT_BASIS[v][y] * rows[y * FREQUENCIES + u];
+      out[offset + v * FREQUENCIES + u] = Math.round(sum / QUANTIZATION);
+    }
+  }
+};
+
+const getMeanDifference = (gray: Float32Array, width: number, a: number, b: number) => {
+  let total = 0;
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      total += Math.abs(gray[a + y * width + x] - gray[b + y * width + x]);
+    }
+  }
+  return total / (BLOCK_SIZE * BLOCK_SIZE);
+};
+
+export const detectCopyMove = (gray: Float32Array, width: number, height: number): CopyMoveResult => {
+  const mask = new Float32Array(width * height);
+  const positions: number[] = [];
+  for (let top = 0; top + BLOCK_SIZE <= height; top += STEP) {
+    for (let left = 0; left + BLOCK_SIZE <= width; left += STEP) {
+      if (getBlockStd(gray, width, left, top) >= MIN_BLOCK_STD) positions.push(top * width + left);
+    }
+  }
+
+  const featureLength = FREQUENCIES * FREQUENCIES;
+  const features = new Int16Array(positions.length * featureLength);
+  positions.forEach((position, index) =>
+    writeFeatures(gray, width, position % width, Math.floor(position / width), features, index * featureLength)
+  );
+
+  const order = Array.from(positions.keys()).sort((a, b) => {
+    for (let k = 0; k < featureLength; k++) {
+      const difference = features[a * featureLength + k] - features[b * featureLength + k];
+      if (difference) return difference;
+    }
+    return 0;
+  });
+
+  // Matched pairs grouped by shift, normalized to point right (or down)
+  const pairsByShift = new Map<string, [number, number][]>();
+  for (let i = 0; i < order.length; i++) {
+    const a = order[i];
+    for (let j = i + 1; j < Math.min(order.length, i + 1 + SEARCH_WINDOW); j++) {
+      const b = order[j];
+      let similar = true;
+      for (let k = 0; k < featureLength && similar; k++) {
+        similar = Math.abs(features[a * featureLength + k] - features[b * featureLength + k]) <= 1;
+      }
+      if (!similar) continue;
+
+      let [from, to] = [positions[a], positions[b]];
+      let dx = (to % width) - (from % width);
+      let dy = Math.floor(to / width) - Math.floor(from / width);
+      if (Math.hypot(dx, dy) < MIN_SHIFT) continue;
+      if (dx < 0 || (dx === 0 && dy < 0)) {
+        [from, to, dx, dy] = [to, from, -dx, -dy];
+      }
+      if (getMeanDifference(gray, width, from, to) > MAX_PIXEL_DIFFERENCE) continue;
+
+      const key = `${dx},${dy}`;
+      const pairs = pairsByShift.get(key) ?? [];
+      pairs.push([from, to]);
+      pairsByShift.set(key, pairs);
+    }
+  }
+
+  const shifts: CopyMoveShift[] = [];
+  for (const [key, pairs] of pairsByShift) {
+    if (pairs.length < MIN_PAIRS) continue;
+    const [dx, dy] = key.split(',').map(Number);
+    shifts.push({ dx, dy, pairs: pairs.length });
+
+    const strength = Math.min(1, 0.5 + pairs.length / (8 * MIN_PAIRS));
+    for (const pair of pairs) {
+      for (const position of pair) {
+        for (let y = 0; y < BLOCK_SIZE; y++) {
+          for (let x = 0; x < BLOCK_SIZE; x++) {
+            const i = position + y * width + x;
+            mask[i] = Math.max(mask[i], strength);
+          }
+        }
+      }
+    }
+  }
+
+  return { mask, shifts: shifts.sort((a, b) => b.pairs - a.pairs) };
+};
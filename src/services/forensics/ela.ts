@@ -0,0 +1,132 @@
+import { decodeImage } from '../detectors/shared';
+
+export const DEFAULT_ELA_QUALITY = 90;
+
+// ELA must run at the native resolution, since resampling erases the
+// compression history; only very large images are downscaled
+const MAX_DIMENSION = 4096;
+const BLOCK_SIZE = 16;
+// Brightest pixels of the difference map that are allowed to clip to white
+const AMPLIFICATION_PERCENTILE = 0.995;
+
+export interface ElaResult {
+  // Amplified difference map
+  imageUrl: string;
+  // 0-100; high when some blocks recompress very differently from the rest
+  score: number;
+  // Mean absolute difference per channel (0-255)
+  meanError: number;
+  quality: number;
+}
+
+const recompress = (imageData: ImageData, quality: number): Promise<ImageData> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error('JPEG encoding failed'));
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      try {
+        resolve((await decodeImage(url)).imageData);
+      } catch (error) {
+        reject(error);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }, 'image/jpeg', quality / 100);
+  });
+};
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+
+// Error Level Analysis: recompress at a known JPEG quality and compare. Areas
+// edited after the last save carry a different compression history and stand
+// out in the difference map.
+export const computeEla = async (imageUrl: string, quality = DEFAULT_ELA_QUALITY): Promise<ElaResult> => {
+  const { imageData: original } = await decodeImage(imageUrl, MAX_DIMENSION);
+  const recompressed = await recompress(original, quality);
+  const { width, height } = original;
+
+  const errors = new Float32Array(width * height);
+  const histogram = new Uint32Array(256);
+  let totalError = 0;
+  for (let i = 0; i < errors.length; i++) {
+    const o = i * 4;
+    const error = (
+      Math.abs(original.data[o] - recompressed.data[o]) +
+      Math.abs(original.data[o + 1] - recompressed.data[o + 1]) +
+      Math.abs(original.data[o + 2] - recompressed.data[o + 2])
+    ) / 3;
+    errors[i] = error;
+    histogram[Math.round(error)]++;
+    totalError += error;
+  }
+
+  // Scale so that the top 0.5% of pixels saturate
+  let cumulative = 0;
+  let clipLevel = 255;
+  for (let level = 0; level < 256; level++) {
+    cumulative += histogram[level];
+    if (cumulative >= AMPLIFICATION_PERCENTILE * errors.length) {
+      clipLevel = Math.max(1, level);
+      break;
+    }
+  }
+  const scale = 255 / clipLevel;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const output = ctx.createImageData(width, height);
+  for (let i = 0; i < errors.length; i++) {
+    const o = i * 4;
+    output.data[o] = Math.min(255, Math.abs(original.data[o] - recompressed.data[o]) * scale);
+    output.data[o + 1] = Math.min(255, Math.abs(original.data[o + 1] - recompressed.data[o + 1]) * scale);
+    output.data[o + 2] = Math.min(255, Math.abs(original.data[o + 2] - recompressed.data[o + 2]) * scale);
+    output.data[o + 3] = 255;
+  }
+  ctx.putImageData(output, 0, 0);
+
+  // Textured areas naturally recompress with more error, so each block's
+  // error is normalized by its local gradient before looking for outliers
+  const blockRatios: number[] = [];
+  for (let by = 0; by + BLOCK_SIZE <= height; by += BLOCK_SIZE) {
+    for (let bx = 0; bx + BLOCK_SIZE <= width; bx += BLOCK_SIZE) {
+      let blockError = 0, gradient = 0;
+      for (let y = by; y < by + BLOCK_SIZE; y++) {
+        for (let x = bx; x < bx + BLOCK_SIZE; x++) {
+          const i = y * width + x;
+          blockError += errors[i];
+          if (x + 1 < width) gradient += Math.abs(original.data[i * 4 + 1] - original.data[(i + 1) * 4 + 1]);
+          if (y + 1 < height) gradient += Math.abs(original.data[i * 4 + 1] - original.data[(i + width) * 4 + 1]);
+        }
+      }
+      const pixels = BLOCK_SIZE * BLOCK_SIZE;
+      blockRatios.push((blockError / pixels) / (1 + gradient / pixels));
+    }
+  }
+
+  let score = 0;
+  if (blockRatios.length > 0) {
+    blockRatios.sort((a, b) => a - b);
+    const median = percentile(blockRatios, 0.5);
+    const outlier = percentile(blockRatios, 0.99);
+    const spread = median > 0 ? outlier / median : 1;
+    score = Math.max(0, Math.min(1, (spread - 1.5) / 3)) * 100;
+  }
+
+  return {
+    imageUrl: canvas.toDataURL('image/png'),
+    score,
+    meanError: totalError / errors.length,
+    quality,
+  };
+};
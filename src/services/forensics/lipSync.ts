@@ -0,0 +1,239 @@
+// Lip-sync consistency: in a genuine talking-head video the mouth opens as
+// speech gets louder. Dubbed deepfakes re-render the mouth to new audio and
+// often drift out of step, or follow the audio only loosely. Mouth opening
+// is measured on densely sampled frames of the start of the video and
+// cross-correlated with the speech energy of its audio track.
+import type { DetectionResult } from '../detectionService';
+import { decodeAudio } from '../detectors/shared';
+import type { ProgressCallback } from '../detectors/types';
+import { FaceBox, detectFaces } from '../faces';
+import { loadVideo, seekTo } from '../videoFrames';
+
+export type LipSyncAnalysis = NonNullable<DetectionResult['analysis']['lipSync']>;
+type SuspiciousFrame = NonNullable<DetectionResult['analysis']['suspiciousFrames']>[number];
+
+// Mouth movements come at syllable rate (4-5 Hz), so 15 frames per second
+// resolve them
+const FRAME_RATE = 15;
+const MAX_SECONDS = 20;
+const MAX_DIMENSION = 480;
+const AUDIO_SAMPLE_RATE = 16000;
+// Faces are located on every KEYFRAME_INTERVAL-th frame; the box is held in between
+const KEYFRAME_INTERVAL = FRAME_RATE;
+// Audio-video offsets searched, either way
+const MAX_LAG_FRAMES = Math.round(0.5 * FRAME_RATE);
+// Sliding windows over which the correlation is tracked
+const WINDOW_FRAMES = 2 * FRAME_RATE;
+const WINDOW_STEP_FRAMES = Math.round(FRAME_RATE / 2);
+// Frames of a window that need a face for it to count
+const MIN_FACE_SHARE = 0.8;
+// Windows whose speech level varies less than this (dB) hold no speech to follow
+const MIN_SPEECH_RANGE_DB = 6;
+// Windows correlating less than this at the best offset diverge
+const DESYNC_CORRELATION = 0.1;
+// Offsets beyond this (ms) are a visible dub, when the alignment is clear
+const MAX_NATURAL_OFFSET_MS = 200;
+const MIN_ALIGNED_CORRELATION = 0.3;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Pearson correlation of a[t] and b[t + lag] over frames where both are known
+const correlate = (a: Float64Array, b: Float64Array, lag: number, from = 0, to = a.length): number => {
+  let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+  for (let t = Math.max(from, -lag); t < Math.min(to, b.length - lag); t++) {
+    const [x, y] = [a[t], b[t + lag]];
+    if (Number.isNaN(x) || Number.isNaN(y)) continue;
+    n++;
+    sumA += x;
+    sumB += y;
+    sumAA += x * x;
+    sumBB += y * y;
+    sumAB += x * y;
+  }
+  if (n < 3) return NaN;
+  const covariance = sumAB - (sumA * sumB) / n;
+  const variance = Math.sqrt((sumAA - (sumA * sumA) / n) * (sumBB - (sumB * sumB) / n));
+  return variance > 0 ? covariance / variance : 0;
+};
+
+const getRange = (values: Float64Array, from: number, to: number) => {
+  let min = Infinity, max = -Infinity;
+  for (let t = from; t < to; t++) {
+    min = Math.min(min, values[t]);
+    max = Math.max(max, values[t]);
+  }
+  return max - min;
+};
+
+// Compare per-frame mouth opening (NaN where no face was found) with speech
+// level in dB at frameRate. Returns the correlation curve and the spans
+// where the two diverge, as suspicious frames of type 'av_desync'.
+export const correlateLipSync = (
+  mouth: Float64Array,
+  speech: Float64Array,
+  frameRate = FRAME_RATE
+): { lipSync: LipSyncAnalysis; segments: SuspiciousFrame[] } => {
+  const toMs = (frames: number) => (frames * 1000) / frameRate;
+  const curve: LipSyncAnalysis['curve'] = [];
+  let best = { lag: 0, correlation: -Infinity };
+  for (let lag = -MAX_LAG_FRAMES; lag <= MAX_LAG_FRAMES; lag++) {
+    const correlation = correlate(mouth, speech, lag);
+    if (Number.isNaN(correlation)) continue;
+    curve.push({ offset: toMs(lag), correlation });
+    if (correlation > best.correlation) best = { lag, correlation };
+  }
+  if (curve.length === 0) {
+    throw new Error('No frames with both a face and audio');
+  }
+
+  const windows: LipSyncAnalysis['windows'] = [];
+  const segments: SuspiciousFrame[] = [];
+  for (let start = 0; start + WINDOW_FRAMES <= mouth.length; start += WINDOW_STEP_FRAMES) {
+    const end = start + WINDOW_FRAMES;
+    let faces = 0;
+    for (let t = start; t < end; t++) faces += Number.isNaN(mouth[t]) ? 0 : 1;
+    if (faces < MIN_FACE_SHARE * WINDOW_FRAMES || getRange(speech, start, end) < MIN_SPEECH_RANGE_DB) continue;
+
+    // A frame of slack either way absorbs sampling jitter
+    let correlation = -Infinity;
+    for (let lag = best.lag - 1; lag <= best.lag + 1; lag++) {
+      const value = correlate(mouth, speech, lag, start, end);
+      if (!Number.isNaN(value)) correlation = Math.max(correlation, value);
+    }
+    if (!Number.isFinite(correlation)) continue;
+    windows.push({ timestamp: toMs(start + WINDOW_FRAMES / 2), correlation });
+    if (correlation >= DESYNC_CORRELATION) continue;
+
+    const confidence = 50 + 50 * clamp01((DESYNC_CORRELATION - correlation) / 0.5);
+    const last = segments[segments.length - 1];
+    if (last && toMs(start) <= last.timestamp + last.duration!) {
+      last.duration = toMs(end) - last.timestamp;
+      last.confidence = Math.max(last.confidence, confidence);
+    } else {
+      segments.push({ timestamp: toMs(start), duration: toMs(WINDOW_FRAMES), confidence, type: 'av_desync' });
+    }
+  }
+
+  // A clean alignment at a large offset is a dub shifted as a whole
+  const offset = toMs(best.lag);
+  if (Math.abs(offset) > MAX_NATURAL_OFFSET_MS && best.correlation >= MIN_ALIGNED_CORRELATION && segments.length === 0) {
+    segments.push({
+      timestamp: 0,
+      duration: toMs(mouth.length),
+      confidence: 50 + 50 * clamp01((Math.abs(offset) - MAX_NATURAL_OFFSET_MS) / 300),
+      type: 'av_desync',
+    });
+  }
+
+  return { lipSync: { offset, correlation: best.correlation, curve, windows }, segments };
+};
+
+const getLuminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Part of a face box, as fractions of its width and height
+export interface FaceArea {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Lower middle of the face box
+const MOUTH_AREA: FaceArea = { left: 0.25, top: 0.65, right: 0.75, bottom: 0.95 };
+
+// Share of an area of the face darker than the face by a standard deviation.
+// An open mouth shows as a dark cavity; open eyes as dark irises and pupils.
+export const measureDarkShare = ({ data, width, height }: ImageData, box: FaceBox, area: FaceArea): number => {
+  const toPixels = (x: number, y: number) => [Math.round((x / 100) * width), Math.round((y / 100) * height)];
+  const [faceLeft, faceTop] = toPixels(box.x, box.y);
+  const [faceRight, faceBottom] = toPixels(box.x + box.width, box.y + box.height);
+  let n = 0, sum = 0, sumSquares = 0;
+  for (let y = Math.max(0, faceTop); y < Math.min(height, faceBottom); y += 2) {
+    for (let x = Math.max(0, faceLeft); x < Math.min(width, faceRight); x += 2) {
+      const value = getLuminance(data, (y * width + x) * 4);
+      n++;
+      sum += value;
+      sumSquares += value * value;
+    }
+  }
+  if (n === 0) return NaN;
+  const mean = sum / n;
+  const threshold = mean - Math.sqrt(Math.max(0, sumSquares / n - mean * mean));
+
+  const [left, top] = toPixels(box.x + area.left * box.width, box.y + area.top * box.height);
+  const [right, bottom] = toPixels(box.x + area.right * box.width, box.y + area.bottom * box.height);
+  let pixels = 0, dark = 0;
+  for (let y = Math.max(0, top); y < Math.min(height, bottom); y++) {
+    for (let x = Math.max(0, left); x < Math.min(width, right); x++) {
+      pixels++;
+      if (getLuminance(data, (y * width + x) * 4) < threshold) dark++;
+    }
+  }
+  return pixels > 0 ? dark / pixels : NaN;
+};
+
+export const measureMouthOpening = (imageData: ImageData, box: FaceBox): number =>
+  measureDarkShare(imageData, box, MOUTH_AREA);
+
+// Mouth opening of the largest face, per frame at FRAME_RATE
+const extractMouthSignal = async (videoUrl: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<Float64Array> => {
+  const video = await loadVideo(videoUrl);
+  const frames = Math.floor(Math.min(video.duration, MAX_SECONDS) * FRAME_RATE);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  const mouth = new Float64Array(frames).fill(NaN);
+  let box: FaceBox | null = null;
+  for (let t = 0; t < frames; t++) {
+    signal?.throwIfAborted();
+    await seekTo(video, t / FRAME_RATE);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    if (t % KEYFRAME_INTERVAL === 0) {
+      const faces = await detectFaces(imageData, signal);
+      box = faces.reduce<FaceBox | null>(
+        (largest, face) => (!largest || face.box.width * face.box.height > largest.width * largest.height ? face.box : largest),
+        null
+      );
+    }
+    if (box) mouth[t] = measureMouthOpening(imageData, box);
+    onProgress?.(((t + 1) / frames) * 100, `Checking lip sync (${t + 1}/${frames})`);
+  }
+  return mouth;
+};
+
+// Speech level in dB around every frame time
+const getSpeechLevels = (samples: Float32Array, frames: number): Float64Array => {
+  const size = AUDIO_SAMPLE_RATE / FRAME_RATE;
+  return Float64Array.from({ length: frames }, (_, t) => {
+    const from = Math.max(0, Math.round((t - 0.5) * size));
+    const to = Math.min(samples.length, Math.round((t + 0.5) * size));
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    return 10 * Math.log10(sum / Math.max(1, to - from) + 1e-10);
+  });
+};
+
+// Fails when the video has no audio track or no face is found
+export const checkLipSync = async (
+  videoUrl: string,
+  { onProgress, signal }: { onProgress?: ProgressCallback; signal?: AbortSignal } = {}
+): Promise<{ lipSync: LipSyncAnalysis; segments: SuspiciousFrame[] }> => {
+  const { samples } = await decodeAudio(videoUrl, AUDIO_SAMPLE_RATE, signal);
+  const mouth = await extractMouthSignal(videoUrl, onProgress, signal);
+  if (mouth.every(Number.isNaN)) {
+    throw new Error('No face found for the lip-sync check');
+  }
+  return correlateLipSync(mouth, getSpeechLevels(samples, mouth.length));
+};
+
+// One-line summary of the lip-sync check, for reports
+export const describeLipSync = ({ offset, correlation, windows }: LipSyncAnalysis): string => {
+  const diverging = windows.filter(window => window.correlation < DESYNC_CORRELATION).length;
+  return `speech ${offset >= 0 ? 'follows' : 'leads'} the mouth by ${Math.abs(offset).toFixed(0)} ms, ` +
+    `correlation ${correlation.toFixed(2)}, ${diverging} of ${windows.length} windows diverging`;
+};
@@ -0,0 +1,134 @@
+import type { DetectionResult } from '../detectionService';
+import { decodeImage } from '../detectors/shared';
+import { detectCopyMove } from './copyMove';
+import { detectSplicing } from './splicing';
+
+type HeatmapRegion = NonNullable<DetectionResult['analysis']['heatmapData']>['regions'][number];
+
+// Both detectors work on a downscaled copy, which bounds the number of blocks
+const MAX_DIMENSION = 512;
+// Connected areas smaller than this share of the image are not reported
+const MIN_REGION_AREA = 0.002;
+const MAX_REGIONS_PER_KIND = 4;
+const MASK_COLORS: Record<ForgeryKind, [number, number, number]> = {
+  copy_move: [217, 70, 239],
+  splicing: [249, 115, 22],
+};
+
+export type ForgeryKind = 'copy_move' | 'splicing';
+
+export interface ForgeryMask {
+  kind: ForgeryKind;
+  // Transparent colored overlay at the analyzed resolution
+  url: string;
+  // Share of the image flagged, 0-1
+  coverage: number;
+}
+
+export interface ForgeryLocalization {
+  masks: ForgeryMask[];
+  // Connected areas of the masks, strongest first
+  regions: HeatmapRegion[];
+}
+
+export const FORGERY_LABELS: Record<ForgeryKind, string> = {
+  copy_move: 'Copy-move',
+  splicing: 'Splicing',
+};
+
+const toGrayscale = ({ data, width, height }: ImageData): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// 4-connected areas of the mask as circles around their bounding boxes. x, y
+// and radius are percentages of the image size, as for saliency peaks.
+const findRegions = (mask: Float32Array, width: number, height: number, kind: ForgeryKind): HeatmapRegion[] => {
+  const visited = new Uint8Array(mask.length);
+  const regions: (HeatmapRegion & { area: number })[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (visited[start] || mask[start] === 0) continue;
+    let minX = width, minY = height, maxX = 0, maxY = 0, area = 0, strength = 0;
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % width, y = Math.floor(i / width);
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      area++;
+      strength += mask[i];
+      for (const next of [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, y > 0 ? i - width : -1, y < height - 1 ? i + width : -1]) {
+        if (next >= 0 && !visited[next] && mask[next] > 0) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    if (area < MIN_REGION_AREA * mask.length) continue;
+
+    regions.push({
+      x: ((minX + maxX + 1) / 2 / width) * 100,
+      y: ((minY + maxY + 1) / 2 / height) * 100,
+      radius: (Math.max(maxX - minX + 1, maxY - minY + 1) / 2 / width) * 100,
+      intensity: strength / area,
+      source: kind,
+      area,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.area - a.area)
+    .slice(0, MAX_REGIONS_PER_KIND)
+    .map(({ area: _area, ...region }) => region);
+};
+
+const renderMask = (mask: Float32Array, width: number, height: number, kind: ForgeryKind): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const pixels = ctx.createImageData(width, height);
+  const [r, g, b] = MASK_COLORS[kind];
+  mask.forEach((value, i) => {
+    if (value > 0) pixels.data.set([r, g, b, Math.round(255 * (0.35 + 0.45 * value))], i * 4);
+  });
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Localize partial edits in a still image: cloned areas (copy-move) and
+// areas whose noise does not match the rest (splicing). Masks are only
+// returned for detectors that found at least one region.
+export const localizeForgeries = async (imageUrl: string): Promise<ForgeryLocalization> => {
+  const { imageData } = await decodeImage(imageUrl, MAX_DIMENSION);
+  const { width, height } = imageData;
+  const gray = toGrayscale(imageData);
+
+  const detected: [ForgeryKind, Float32Array][] = [
+    ['copy_move', detectCopyMove(gray, width, height).mask],
+    ['splicing', detectSplicing(gray, width, height).mask],
+  ];
+
+  const masks: ForgeryMask[] = [];
+  const regions: HeatmapRegion[] = [];
+  for (const [kind, mask] of detected) {
+    const found = findRegions(mask, width, height, kind);
+    if (found.length === 0) continue;
+    regions.push(...found);
+    masks.push({
+      kind,
+      url: renderMask(mask, width, height, kind),
+      coverage: mask.reduce((count, value) => count + (value > 0 ? 1 : 0), 0) / mask.length,
+    });
+  }
+
+  return { masks, regions: regions.sort((a, b) => b.intensity - a.intensity) };
+};
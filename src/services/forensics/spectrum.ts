@@ -0,0 +1,276 @@
+import { decodeImage } from '../detectors/shared';
+import { fft2d, hannWindow } from '@/utils/fft';
+
+// Side of the square analyzed, cropped from the center at native resolution
+// (resampling would smear the upsampling grid being looked for)
+const MAX_SIZE = 512;
+const MIN_SIZE = 64;
+// Power-law fit range and high-frequency band, in cycles per pixel (Nyquist is 0.5)
+const FIT_BAND: [number, number] = [0.02, 0.2];
+const HIGH_BAND: [number, number] = [0.3, 0.5];
+// A candidate is a peak when it stands this far above its neighbourhood
+const PEAK_THRESHOLD_DB = 10;
+// Periods left by 2x and 4x upsampling layers; period 8 is the JPEG block grid
+const UPSAMPLING_PERIODS = [2, 4];
+const JPEG_GRID_PERIOD = 8;
+
+export interface SpectralPeak {
+  // Signed frequency in cycles per pixel
+  fx: number;
+  fy: number;
+  // Pixels per cycle of the strongest axis
+  period: number;
+  // Height above the local background, in dB
+  strength: number;
+  // Peaks on the 8x8 grid of a blocky JPEG are not counted as upsampling
+  source: 'upsampling' | 'jpeg_grid';
+}
+
+// What the artifacts score is derived from; kept with the analysis result
+export interface SpectrumSummary {
+  // 0-100, combines peakScore and rolloffScore
+  score: number;
+  // 0-1, from the strongest upsampling peak
+  peakScore: number;
+  // 0-1, from the high-frequency deviation
+  rolloffScore: number;
+  // Slope of log power against log frequency over FIT_BAND; about -2 for photos
+  slope: number;
+  // Mean distance of the high band from the fitted power law, in dB
+  highFrequencyDeviation: number;
+  peaks: SpectralPeak[];
+  // Side of the analyzed crop in pixels
+  size: number;
+}
+
+export interface SpectrumResult extends SpectrumSummary {
+  // Centered log-power spectrum with the detected peaks circled
+  imageUrl: string;
+  // Azimuthally averaged power with the fitted power law, both in dB
+  radialProfile: { frequency: number; power: number; fitted: number }[];
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const largestPowerOfTwo = (n: number) => 2 ** Math.floor(Math.log2(n));
+
+// Windowed, mean-free luminance of the centered size x size crop
+const readCrop = ({ data, width, height }: ImageData, size: number): Float64Array => {
+  const left = Math.floor((width - size) / 2);
+  const top = Math.floor((height - size) / 2);
+  const window = hannWindow(size);
+  const gray = new Float64Array(size * size);
+  let mean = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const o = ((top + y) * width + left + x) * 4;
+      const value = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+      gray[y * size + x] = value;
+      mean += value;
+    }
+  }
+  mean /= gray.length;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      gray[y * size + x] = (gray[y * size + x] - mean) * window[x] * window[y];
+    }
+  }
+  return gray;
+};
+
+// Bins are 1 cycle per crop wide; bin r is the frequency r / size
+const getRadialProfile = (power: Float64Array, size: number): Float64Array => {
+  const bins = size / 2 + 1;
+  const sums = new Float64Array(bins);
+  const counts = new Uint32Array(bins);
+  for (let ky = 0; ky < size; ky++) {
+    const fy = ky < size / 2 ? ky : ky - size;
+    for (let kx = 0; kx < size; kx++) {
+      const fx = kx < size / 2 ? kx : kx - size;
+      const bin = Math.round(Math.hypot(fx, fy));
+      if (bin < bins) {
+        sums[bin] += power[ky * size + kx];
+        counts[bin]++;
+      }
+    }
+  }
+  return sums.map((sum, bin) => (counts[bin] ? sum / counts[bin] : 0));
+};
+
+// Least-squares line through log10 power against log10 frequency
+const fitPowerLaw = (profile: Float64Array, size: number) => {
+  let n = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (let bin = 1; bin < profile.length; bin++) {
+    const frequency = bin / size;
+    if (frequency < FIT_BAND[0] || frequency > FIT_BAND[1] || profile[bin] <= 0) continue;
+    const x = Math.log10(frequency);
+    const y = Math.log10(profile[bin]);
+    n++;
+    sx += x;
+    sy += y;
+    sxx += x * x;
+    sxy += x * y;
+  }
+  const slope = n > 1 ? (n * sxy - sx * sy) / (n * sxx - sx * sx) : 0;
+  const intercept = n > 0 ? (sy - slope * sx) / n : 0;
+  return { slope, predict: (frequency: number) => intercept + slope * Math.log10(frequency) };
+};
+
+// Height in dB of the strongest bin around (kx, ky) over the median of a
+// surrounding ring, with wrap-around indexing
+const measurePeak = (power: Float64Array, size: number, kx: number, ky: number): number => {
+  const at = (dx: number, dy: number) =>
+    power[((ky + dy + size) % size) * size + ((kx + dx + size) % size)];
+  let peak = 0;
+  const ring: number[] = [];
+  for (let dy = -6; dy <= 6; dy++) {
+    for (let dx = -6; dx <= 6; dx++) {
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      if (distance <= 1) peak = Math.max(peak, at(dx, dy));
+      else if (distance >= 3) ring.push(at(dx, dy));
+    }
+  }
+  const background = median(ring);
+  return background > 0 ? 10 * Math.log10(peak / background) : 0;
+};
+
+// Axis and diagonal positions of a period's fundamental, as signed bins
+const getCandidates = (period: number, size: number): [number, number][] => {
+  const f = size / period;
+  const candidates: [number, number][] = [[f, 0], [0, f], [f, f], [f, -f]];
+  // At Nyquist the two diagonals are the same bin
+  return period === 2 ? candidates.slice(0, 3) : candidates;
+};
+
+const findPeaks = (power: Float64Array, size: number): SpectralPeak[] => {
+  const toPeak = ([kx, ky]: [number, number], period: number, source: SpectralPeak['source']): SpectralPeak | null => {
+    const strength = measurePeak(power, size, kx, ky);
+    return strength >= PEAK_THRESHOLD_DB ? { fx: kx / size, fy: ky / size, period, strength, source } : null;
+  };
+
+  // Blocking produces peaks at every multiple of 1/8 along the axes; when
+  // its fundamental is present those harmonics are attributed to the grid
+  const gridPeaks = getCandidates(JPEG_GRID_PERIOD, size)
+    .slice(0, 2)
+    .map(candidate => toPeak(candidate, JPEG_GRID_PERIOD, 'jpeg_grid'))
+    .filter((peak): peak is SpectralPeak => peak !== null);
+  const hasGrid = gridPeaks.length > 0;
+
+  const upsamplingPeaks = UPSAMPLING_PERIODS.flatMap(period =>
+    getCandidates(period, size).map(candidate => {
+      const onAxis = candidate[0] === 0 || candidate[1] === 0;
+      return toPeak(candidate, period, hasGrid && onAxis ? 'jpeg_grid' : 'upsampling');
+    })
+  ).filter((peak): peak is SpectralPeak => peak !== null);
+
+  return [...gridPeaks, ...upsamplingPeaks];
+};
+
+const renderSpectrum = (power: Float64Array, size: number, peaks: SpectralPeak[]): string => {
+  const logPower = power.map(value => Math.log10(value + 1e-12));
+  const sorted = Float64Array.from(logPower).sort();
+  const low = sorted[Math.floor(sorted.length * 0.01)];
+  const high = sorted[sorted.length - 1];
+  const range = Math.max(1e-6, high - low);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  const output = ctx.createImageData(size, size);
+  const half = size / 2;
+  for (let ky = 0; ky < size; ky++) {
+    for (let kx = 0; kx < size; kx++) {
+      // Shift the zero frequency to the center
+      const o = (((ky + half) % size) * size + ((kx + half) % size)) * 4;
+      const level = Math.round(255 * clamp01((logPower[ky * size + kx] - low) / range));
+      output.data[o] = level;
+      output.data[o + 1] = level;
+      output.data[o + 2] = level;
+      output.data[o + 3] = 255;
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+
+  ctx.lineWidth = Math.max(1, size / 256);
+  for (const peak of peaks) {
+    ctx.strokeStyle = peak.source === 'upsampling' ? '#ef4444' : '#eab308';
+    ctx.beginPath();
+    ctx.arc(half + peak.fx * size, half + peak.fy * size, size / 48, 0, 2 * Math.PI);
+    ctx.stroke();
+  }
+  return canvas.toDataURL('image/png');
+};
+
+interface SpectrumMeasurement {
+  summary: SpectrumSummary;
+  power: Float64Array;
+  radialProfile: SpectrumResult['radialProfile'];
+}
+
+const measureSpectrum = (imageData: ImageData): SpectrumMeasurement => {
+  const size = Math.min(MAX_SIZE, largestPowerOfTwo(Math.min(imageData.width, imageData.height)));
+  if (size < MIN_SIZE) throw new Error(`Image is too small for spectral analysis (${size}px)`);
+
+  const re = readCrop(imageData, size);
+  const im = new Float64Array(re.length);
+  fft2d(re, im, size, size);
+  const power = re.map((value, i) => value * value + im[i] * im[i]);
+
+  const profile = getRadialProfile(power, size);
+  const { slope, predict } = fitPowerLaw(profile, size);
+  const radialProfile = Array.from(profile.subarray(1), (value, index) => {
+    const frequency = (index + 1) / size;
+    return { frequency, power: 10 * Math.log10(value + 1e-12), fitted: 10 * predict(frequency) };
+  });
+  const highBand = radialProfile.filter(({ frequency }) => frequency >= HIGH_BAND[0] && frequency <= HIGH_BAND[1]);
+  const highFrequencyDeviation = highBand.reduce((sum, { power: p, fitted }) => sum + p - fitted, 0) / highBand.length;
+
+  const peaks = findPeaks(power, size);
+  const strongest = Math.max(0, ...peaks.filter(peak => peak.source === 'upsampling').map(peak => peak.strength));
+  const peakScore = clamp01((strongest - 6) / 14);
+  // Missing high frequencies (over-smoothed output) weigh more than excess,
+  // since sensor noise alone lifts the tail of real photos a few dB
+  const rolloffScore = highFrequencyDeviation < 0
+    ? clamp01((-highFrequencyDeviation - 4) / 12)
+    : clamp01((highFrequencyDeviation - 10) / 12);
+  // Either kind of evidence raises the score; roll-off alone is weaker
+  const score = 100 * (1 - (1 - peakScore) * (1 - 0.6 * rolloffScore));
+
+  return {
+    summary: { score, peakScore, rolloffScore, slope, highFrequencyDeviation, peaks, size },
+    power,
+    radialProfile,
+  };
+};
+
+// Frequency-domain fingerprint of decoded pixels. Upsampling layers in GAN
+// and diffusion decoders leave periodic peaks at 1/2 and 1/4 cycles per pixel,
+// and generators reproduce the high-frequency roll-off of photos poorly.
+export const analyzeSpectrum = (imageData: ImageData): SpectrumSummary => measureSpectrum(imageData).summary;
+
+// The same analysis with the spectrum image and radial profile for display
+export const computeSpectrum = async (imageUrl: string): Promise<SpectrumResult> => {
+  const { imageData } = await decodeImage(imageUrl);
+  const { summary, power, radialProfile } = measureSpectrum(imageData);
+  return {
+    ...summary,
+    imageUrl: renderSpectrum(power, summary.size, summary.peaks),
+    radialProfile,
+  };
+};
+
+// One-line explanation of a spectrum score, for reports
+export const describeSpectrum = ({ peaks, slope, highFrequencyDeviation }: SpectrumSummary): string => {
+  const upsampling = peaks.filter(peak => peak.source === 'upsampling');
+  const peakText = upsampling.length > 0
+    ? `${upsampling.length} upsampling peak${upsampling.length > 1 ? 's' : ''} (max ${Math.max(...upsampling.map(peak => peak.strength)).toFixed(1)} dB)`
+    : 'no upsampling peaks';
+  const deviation = `${highFrequencyDeviation >= 0 ? '+' : ''}${highFrequencyDeviation.toFixed(1)} dB`;
+  return `${peakText}, slope ${slope.toFixed(2)}, high band ${deviation}`;
+};
@@ -0,0 +1,134 @@
+// Splicing detection from noise inconsistency: every camera and every
+// processing chain leaves its own noise level, so an area pasted from
+// another source stands out against the noise of the rest of the image.
+
+// Noise is estimated on overlapping blocks; each decides the cell at its center
+const BLOCK_SIZE = 32;
+const CELL_SIZE = 16;
+// Robust z-score (in MADs of log noise) from which a block is flagged
+const Z_THRESHOLD = 3;
+// Floor for the spread of log noise, so very uniform images do not flag
+// blocks over tiny differences
+const MIN_LOG_SPREAD = 0.08;
+const MIN_BLOCKS = 16;
+// Flagged cells among the 8 around a cell needed to keep it
+const MIN_FLAGGED_NEIGHBOURS = 2;
+// Clipped pixels carry no noise and would always look inconsistent
+const CLIP_LOW = 4;
+const CLIP_HIGH = 251;
+// Pixels on edges stronger than this (gray levels per pixel) are left out of
+// the noise estimate too, and blocks with too few remaining pixels are skipped
+const EDGE_THRESHOLD = 24;
+const MIN_USABLE_SHARE = 0.25;
+// Rounding to 8 bits alone leaves about this much noise
+const NOISE_FLOOR = 0.3;
+
+export interface SplicingResult {
+  // Per pixel, 0-1 strength of the inconsistency
+  mask: Float32Array;
+  // Noise standard deviation of the image as a whole, in gray levels
+  medianNoise: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Immerkaer's noise estimation kernel; it cancels smooth gradients and most
+// straight edges, leaving mostly noise. Its gain on white noise is 6.
+const getNoiseResidual = (gray: Float32Array, width: number, height: number): Float32Array => {
+  const residual = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      residual[i] = Math.abs(
+        gray[i - width - 1] - 2 * gray[i - width] + gray[i - width + 1]
+        - 2 * gray[i - 1] + 4 * gray[i] - 2 * gray[i + 1]
+        + gray[i + width - 1] - 2 * gray[i + width] + gray[i + width + 1]
+      ) / 6;
+    }
+  }
+  return residual;
+};
+
+// Unclipped pixels away from edges, where the residual is mostly noise
+const getUsablePixels = (gray: Float32Array, width: number, height: number): Uint8Array => {
+  const usable = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      let clipped = false;
+      for (let dy = -1; dy <= 1 && !clipped; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const value = gray[i + dy * width + dx];
+          if (value < CLIP_LOW || value > CLIP_HIGH) clipped = true;
+        }
+      }
+      const gradient = Math.abs(gray[i + 1] - gray[i - 1]) + Math.abs(gray[i + width] - gray[i - width]);
+      usable[i] = !clipped && gradient < EDGE_THRESHOLD ? 1 : 0;
+    }
+  }
+  return usable;
+};
+
+export const detectSplicing = (gray: Float32Array, width: number, height: number): SplicingResult => {
+  const mask = new Float32Array(width * height);
+  const residual = getNoiseResidual(gray, width, height);
+  const usable = getUsablePixels(gray, width, height);
+  const columns = Math.floor(width / CELL_SIZE);
+  const rows = Math.floor(height / CELL_SIZE);
+
+  // Log noise level per cell; NaN where the block is mostly clipped or edges
+  const levels = new Float64Array(columns * rows).fill(NaN);
+  const offset = (BLOCK_SIZE - CELL_SIZE) / 2;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const top = Math.max(1, row * CELL_SIZE - offset);
+      const left = Math.max(1, col * CELL_SIZE - offset);
+      const bottom = Math.min(height - 1, top + BLOCK_SIZE);
+      const right = Math.min(width - 1, left + BLOCK_SIZE);
+      const values: number[] = [];
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          if (usable[y * width + x]) values.push(residual[y * width + x]);
+        }
+      }
+      if (values.length < MIN_USABLE_SHARE * (bottom - top) * (right - left)) continue;
+      // Median absolute residual scaled to a Gaussian standard deviation
+      const noise = Math.max(NOISE_FLOOR, 1.4826 * median(values));
+      levels[row * columns + col] = Math.log(noise);
+    }
+  }
+
+  const valid = Array.from(levels).filter(level => !Number.isNaN(level));
+  if (valid.length < MIN_BLOCKS) return { mask, medianNoise: 0 };
+  const center = median(valid);
+  const spread = Math.max(MIN_LOG_SPREAD, 1.4826 * median(valid.map(level => Math.abs(level - center))));
+  const zScores = levels.map(level => (Number.isNaN(level) ? 0 : Math.abs(level - center) / spread));
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const z = zScores[row * columns + col];
+      if (z < Z_THRESHOLD) continue;
+      // Isolated outliers are more likely textures than a pasted region
+      let flaggedNeighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const y = row + dy, x = col + dx;
+          if ((dx || dy) && y >= 0 && y < rows && x >= 0 && x < columns && zScores[y * columns + x] >= Z_THRESHOLD) {
+            flaggedNeighbours++;
+          }
+        }
+      }
+      if (flaggedNeighbours < MIN_FLAGGED_NEIGHBOURS) continue;
+
+      const strength = Math.min(1, (z - 2) / 4);
+      for (let y = row * CELL_SIZE; y < (row + 1) * CELL_SIZE; y++) {
+        mask.fill(strength, y * width + col * CELL_SIZE, y * width + (col + 1) * CELL_SIZE);
+      }
+    }
+  }
+
+  return { mask, medianNoise: Math.exp(center) };
+};
@@ -0,0 +1,257 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DetectionResult } from './detectionService';
+import { MediaAnalysis } from './mediaAnalysis';
+import type { ForgeryMask } from './forensics/localization';
+import { AnalysisSettings, loadSettings } from './settingsService';
+import { sha256Hex } from '@/utils/hashing';
+import { PerceptualHash, perceptualDistance } from '@/utils/perceptualHash';
+
+const DB_NAME = 'deepfakeHistory';
+const DB_VERSION = 1;
+const ANALYSES_STORE = 'analyses';
+const MEDIA_STORE = 'media';
+
+// Larger sources are not kept; their history entry still shows frames and results
+const MAX_STORED_MEDIA_BYTES = 100 * 1024 * 1024;
+const THUMBNAIL_SIZE = 160;
+// Out of 64 bits; above this, images are rarely copies of each other
+const SIMILARITY_THRESHOLD = 10;
+const MAX_SIMILAR_RESULTS = 10;
+
+// Stands in for the source media URL inside stored display assets, since blob
+// URLs do not survive a reload
+const SOURCE_MEDIA_REF = 'history:source';
+
+export interface HistoryRecord {
+  id: string;
+  createdAt: string;
+  fileName: string;
+  fileSize: number | null;
+  mimeType: string | null;
+  sourceHash: string | null;
+  // Missing on entries stored before perceptual hashing was added
+  perceptualHashes?: PerceptualHash[];
+  thumbnail: string | null;
+  settings: AnalysisSettings;
+  results: DetectionResult;
+  // Display assets, with the source media replaced by SOURCE_MEDIA_REF
+  gradCamUrl: string | null;
+  // Missing on entries stored before saliency maps were added
+  saliencyUrl?: string | null;
+  // Missing on entries stored before forgery localization was added
+  forgeryMasks?: ForgeryMask[];
+  frameImages: string[];
+  // Remote or data URL of the source when there is no stored blob
+  sourceUrl: string | null;
+  hasStoredMedia: boolean;
+}
+
+export interface SimilarHistoryMatch {
+  record: HistoryRecord;
+  // Hamming distance between the closest pair of perceptual hashes
+  distance: number;
+}
+
+export interface HistorySource {
+  fileName: string;
+  // Source media when available; URL analyses only keep the URL
+  media: Blob | null;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+        const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+        store.createIndex('sourceHash', 'sourceHash');
+      }
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        db.createObjectStore(MEDIA_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  run: (analyses: IDBObjectStore, media: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([ANALYSES_STORE, MEDIA_STORE], mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await run(transaction.objectStore(ANALYSES_STORE), transaction.objectStore(MEDIA_STORE));
+    await done;
+    return result;
+  } finally {
+    db.close();
+  }
+};
+
+const createThumbnail = (url: string): Promise<string | null> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        resolve(null);
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      try {
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+      } catch {
+        // Cross-origin images without CORS headers taint the canvas
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+};
+
+const toStoredUrl = (url: string, mediaUrl: string) => (url === mediaUrl ? SOURCE_MEDIA_REF : url);
+
+const isPersistentUrl = (url: string) => !url.startsWith('blob:');
+
+// Store a finished analysis together with everything needed to display it again
+export const saveAnalysis = async (
+  analysis: MediaAnalysis,
+  source: HistorySource,
+  settings: AnalysisSettings = loadSettings()
+): Promise<HistoryRecord> => {
+  const { results, mediaUrl } = analysis;
+  const { media } = source;
+  const keepMedia = media !== null && media.size <= MAX_STORED_MEDIA_BYTES;
+
+  const thumbnailSource = results.metadata.type === 'image' ? mediaUrl : analysis.frameImages[0];
+  const thumbnail = thumbnailSource ? await createThumbnail(thumbnailSource) : null;
+
+  const record: HistoryRecord = {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    fileName: source.fileName,
+    fileSize: media?.size ?? null,
+    mimeType: media?.type || null,
+    sourceHash: results.metadata.sourceHash ?? (media ? await sha256Hex(media) : null),
+    perceptualHashes: analysis.perceptualHashes,
+    thumbnail,
+    settings,
+    results,
+    gradCamUrl: analysis.gradCamUrl && toStoredUrl(analysis.gradCamUrl, mediaUrl),
+    saliencyUrl: analysis.saliencyUrl,
+    forgeryMasks: analysis.forgeryMasks,
+    frameImages: analysis.frameImages.map(url => toStoredUrl(url, mediaUrl)),
+    sourceUrl: !keepMedia && isPersistentUrl(mediaUrl) ? mediaUrl : null,
+    hasStoredMedia: keepMedia,
+  };
+
+  await withStores('readwrite', async (analyses, mediaStore) => {
+    analyses.put(record);
+    if (keepMedia) {
+      mediaStore.put(media, record.id);
+    }
+  });
+
+  return record;
+};
+
+// All records, newest first. Source media is loaded separately by restoreAnalysis.
+export const listHistory = async (): Promise<HistoryRecord[]> => {
+  const records = await withStores('readonly', (analyses) =>
+    promisifyRequest(analyses.getAll() as IDBRequest<HistoryRecord[]>)
+  );
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteHistoryRecord = async (id: string): Promise<void> => {
+  await withStores('readwrite', async (analyses, media) => {
+    analyses.delete(id);
+    media.delete(id);
+  });
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStores('readwrite', async (analyses, media) => {
+    analyses.clear();
+    media.clear();
+  });
+};
+
+// Most recent analysis of the same content, if any
+export const findHistoryByHash = async (sourceHash: string): Promise<HistoryRecord | undefined> => {
+  const records = await withStores('readonly', (analyses) =>
+    promisifyRequest(analyses.index('sourceHash').getAll(sourceHash) as IDBRequest<HistoryRecord[]>)
+  );
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+};
+
+// Earlier analyses that look like the given media, closest first. Exact copies
+// (same content hash) are left out since they are reported as seen before.
+export const findSimilarHistory = async (
+  perceptualHashes: PerceptualHash[],
+  exclude: { id?: string; sourceHash?: string | null } = {}
+): Promise<SimilarHistoryMatch[]> => {
+  if (perceptualHashes.length === 0) return [];
+  const records = await listHistory();
+  return records
+    .filter(record =>
+      record.id !== exclude.id &&
+      !(exclude.sourceHash && record.sourceHash === exclude.sourceHash) &&
+      record.perceptualHashes?.length
+    )
+    .map(record => ({ record, distance: perceptualDistance(perceptualHashes, record.perceptualHashes!) }))
+    .filter(match => match.distance <= SIMILARITY_THRESHOLD)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SIMILAR_RESULTS);
+};
+
+// Rebuild the display state of a stored analysis
+export const restoreAnalysis = async (record: HistoryRecord): Promise<MediaAnalysis> => {
+  let mediaUrl = record.sourceUrl;
+  if (record.hasStoredMedia) {
+    const blob = await withStores('readonly', (_, media) =>
+      promisifyRequest(media.get(record.id) as IDBRequest<Blob | undefined>)
+    );
+    if (blob) {
+      mediaUrl = URL.createObjectURL(blob);
+    }
+  }
+
+  // Frames fall back to the thumbnail when the source media was not kept; the
+  // media itself is left empty so no player is given a still image
+  const frameUrl = mediaUrl ?? record.thumbnail ?? '';
+  const fromStoredUrl = (url: string) => (url === SOURCE_MEDIA_REF ? frameUrl : url);
+
+  return {
+    results: record.results,
+    mediaUrl: mediaUrl ?? '',
+    gradCamUrl: record.gradCamUrl && fromStoredUrl(record.gradCamUrl),
+    saliencyUrl: record.saliencyUrl ?? null,
+    forgeryMasks: record.forgeryMasks ?? [],
+    frameImages: record.frameImages.map(fromStoredUrl),
+    audioUrl: record.results.metadata.type === 'audio' ? mediaUrl : null,
+    perceptualHashes: record.perceptualHashes ?? [],
+  };
+};
@@ -0,0 +1,104 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  InferenceOutputs,
+  InferencePayloads,
+  InferenceTask,
+  WorkerRequest,
+  WorkerResponse,
+} from '@/workers/inferenceProtocol';
+import type { ProgressCallback } from './detectors/types';
+import type { AudioAnalysis } from './forensics/audio';
+
+export interface InferenceOptions {
+  onProgress?: ProgressCallback;
+  // Aborting cancels the job in the worker and rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+interface PendingJob {
+  resolve: (outputs: unknown[]) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+const pendingJobs = new Map<string, PendingJob>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/inference.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      const job = pendingJobs.get(message.id);
+      if (!job) return;
+
+      if (message.type === 'progress') {
+        job.onProgress?.(message.progress, message.status);
+      } else if (message.type === 'result') {
+        pendingJobs.delete(message.id);
+        job.resolve(message.outputs);
+      } else {
+        pendingJobs.delete(message.id);
+        job.reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('Inference worker crashed:', event);
+      pendingJobs.forEach(job => job.reject(new Error('Inference worker crashed')));
+      pendingJobs.clear();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const send = (request: WorkerRequest, { onProgress, signal }: InferenceOptions = {}): Promise<unknown[]> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      pendingJobs.delete(request.id);
+      worker?.postMessage({ type: 'cancel', id: request.id } satisfies WorkerRequest);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pendingJobs.set(request.id, {
+      resolve: (outputs) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(outputs);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress,
+    });
+    getWorker().postMessage(request);
+  });
+};
+
+// Load a model in the worker ahead of the first analysis
+export const initializeModel = async (task: InferenceTask, options: InferenceOptions = {}) => {
+  await send({ type: 'init', id: uuidv4(), task }, options);
+};
+
+// Run the audio signal analysis in the worker, where its frame-by-frame search
+// cannot block the page
+export const runAudioSignalAnalysis = async (samples: Float32Array, options: InferenceOptions = {}): Promise<AudioAnalysis> => {
+  const [analysis] = await send({ type: 'audio-signal', id: uuidv4(), samples }, options);
+  return analysis as AudioAnalysis;
+};
+
+// Run a model over a batch of inputs in the worker; progress is reported per input
+export const runInference = async <T extends InferenceTask>(
+  task: T,
+  inputs: InferencePayloads[T][],
+  options: InferenceOptions = {}
+): Promise<InferenceOutputs[T][]> => {
+  const request = { type: 'analyze', id: uuidv4(), task, inputs } as WorkerRequest;
+  return await send(request, options) as InferenceOutputs[T][];
+};
@@ -0,0 +1,250 @@
+// Continuous scoring of a live stream: frames are grabbed from the element
+// showing it and scored one at a time with the active image detector, while
+// the stream itself is recorded so the session can be replayed afterwards.
+import type { DetectionResult } from './detectionService';
+import { getActiveDetector } from './detectors/registry';
+import { averageMeasured, getClassificationCategory, getRiskLevel } from './detectors/shared';
+import { SUSPICIOUS_FRAME_THRESHOLD, aggregateFrameConfidence } from './detectors/frameSamplingDetector';
+
+export type LiveSessionInfo = NonNullable<DetectionResult['metadata']['liveSession']>;
+export type LiveRegion = NonNullable<LiveSessionInfo['region']>;
+
+export interface LiveSample {
+  // ms since the session started
+  timestamp: number;
+  confidence: number;
+  // Exponential moving average of the confidence up to this sample
+  smoothed: number;
+}
+
+export interface LiveSessionOptions {
+  // Frames per second to score; frames are skipped while the detector is busy
+  sampleRate: number;
+  source: LiveSessionInfo['source'];
+  // Only this part of the picture is scored; the whole picture when absent
+  region?: LiveRegion | null;
+  onSample: (sample: LiveSample) => void;
+  // The session stops on a detector error
+  onError: (error: unknown) => void;
+}
+
+export interface LiveRecording {
+  source: LiveSessionInfo['source'];
+  region: LiveRegion | null;
+  // ISO time the session started
+  startedAt: string;
+  frames: { timestamp: number; result: DetectionResult }[];
+  // JPEG data URLs of the first and the most suspicious frames, in time order
+  stills: string[];
+  // The recorded stream; null when the browser cannot record it
+  media: Blob | null;
+  width: number;
+  height: number;
+  // ms
+  duration: number;
+}
+
+export interface LiveSession {
+  stop: () => Promise<LiveRecording>;
+}
+
+// Weight of the newest frame in the smoothed confidence
+const SMOOTHING_FACTOR = 0.3;
+// Once raised, an alert holds until the smoothed confidence drops this far
+// below the threshold, so a score hovering around it does not alert repeatedly
+const ALERT_HYSTERESIS = 10;
+// Grabbed frames are scaled down to this size before scoring
+const MAX_DIMENSION = 640;
+const FRAME_QUALITY = 0.85;
+// Stills kept for the report and history; the rest are dropped as the session runs
+const MAX_STILLS = 4;
+
+export const smoothConfidence = (previous: number | null, confidence: number): number =>
+  previous === null ? confidence : previous + SMOOTHING_FACTOR * (confidence - previous);
+
+export const isAlertRaised = (wasRaised: boolean, smoothed: number, threshold: number): boolean =>
+  wasRaised ? smoothed > threshold - ALERT_HYSTERESIS : smoothed >= threshold;
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+const startRecorder = (stream: MediaStream): { stop: () => Promise<Blob | null> } => {
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(stream);
+  } catch (error) {
+    console.warn('Live stream cannot be recorded:', error);
+    return { stop: async () => null };
+  }
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+  return {
+    stop: () => new Promise(resolve => {
+      if (recorder.state === 'inactive') {
+        resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType }) : null);
+        return;
+      }
+      recorder.onstop = () => resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType }) : null);
+      recorder.stop();
+    }),
+  };
+};
+
+// Score frames of `video`, which must be playing `stream`, until stopped
+export const startLiveSession = (
+  video: HTMLVideoElement,
+  stream: MediaStream,
+  { sampleRate, source, region = null, onSample, onError }: LiveSessionOptions
+): LiveSession => {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const recorder = startRecorder(stream);
+  const frames: LiveRecording['frames'] = [];
+  let first: { timestamp: number; url: string } | null = null;
+  let suspicious: { timestamp: number; url: string; confidence: number }[] = [];
+  const canvas = document.createElement('canvas');
+  const startedAt = performance.now();
+  const startedAtIso = new Date().toISOString();
+  const interval = 1000 / sampleRate;
+  let smoothed: number | null = null;
+
+  const grabFrame = (): string | null => {
+    if (!video.videoWidth || !video.videoHeight) return null;
+    const { x, y, width, height } = region ?? { x: 0, y: 0, width: 100, height: 100 };
+    const [sx, sy] = [(x / 100) * video.videoWidth, (y / 100) * video.videoHeight];
+    const [sw, sh] = [(width / 100) * video.videoWidth, (height / 100) * video.videoHeight];
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(sw, sh));
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    canvas.getContext('2d')?.drawImage(video, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', FRAME_QUALITY);
+  };
+
+  const loop = async () => {
+    while (!signal.aborted) {
+      const tickStart = performance.now();
+      const url = grabFrame();
+      if (url) {
+        const timestamp = tickStart - startedAt;
+        const result = await getActiveDetector('image').detect({ mediaType: 'image', url, signal });
+        if (signal.aborted) break;
+        frames.push({ timestamp, result });
+        if (!first) {
+          first = { timestamp, url };
+        } else {
+          suspicious = [...suspicious, { timestamp, url, confidence: result.confidence }]
+            .sort((a, b) => b.confidence - a.confidence)
+            .slice(0, MAX_STILLS - 1);
+        }
+        smoothed = smoothConfidence(smoothed, result.confidence);
+        onSample({ timestamp, confidence: result.confidence, smoothed });
+      }
+      await sleep(Math.max(0, interval - (performance.now() - tickStart)), signal);
+    }
+  };
+
+  const running = loop().catch(error => {
+    if (signal.aborted) return;
+    console.error('Live monitoring failed:', error);
+    controller.abort();
+    onError(error);
+  });
+
+  return {
+    stop: async () => {
+      controller.abort();
+      await running;
+      const stills = (first ? [first, ...suspicious] : []).sort((a, b) => a.timestamp - b.timestamp);
+      return {
+        source,
+        region,
+        startedAt: startedAtIso,
+        frames,
+        stills: stills.map(still => still.url),
+        media: await recorder.stop(),
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration: performance.now() - startedAt,
+      };
+    },
+  };
+};
+
+// The session as a video-type result, with the scored frames as its timeline
+export const buildLiveSessionResult = ({ source, region, startedAt, frames, width, height, duration }: LiveRecording): DetectionResult => {
+  if (frames.length === 0) {
+    throw new Error('No frames were scored during the session');
+  }
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const framewiseConfidence = frames.map(({ timestamp, result }) => ({ timestamp, confidence: result.confidence }));
+  const confidence = aggregateFrameConfidence(framewiseConfidence.map(frame => frame.confidence));
+
+  return {
+    confidence,
+    isManipulated: confidence >= 50,
+    classification: getClassificationCategory(confidence),
+    riskLevel: getRiskLevel(confidence),
+    analysis: {
+      framewiseConfidence,
+      suspiciousFrames: framewiseConfidence.filter(frame => frame.confidence >= SUSPICIOUS_FRAME_THRESHOLD),
+      faceConsistency: averageMeasured(frames.map(({ result }) => result.analysis.faceConsistency)),
+      lightingConsistency: averageMeasured(frames.map(({ result }) => result.analysis.lightingConsistency)),
+      noiseConsistency: averageMeasured(frames.map(({ result }) => result.analysis.noiseConsistency)),
+      sensorNoise: averageMeasured(frames.map(({ result }) => result.analysis.sensorNoise)),
+      artifactsScore: average(frames.map(({ result }) => result.analysis.artifactsScore)),
+    },
+    metadata: {
+      type: 'video',
+      resolution: `${width}x${height}`,
+      duration,
+      liveSession: { source, startedAt, ...(region ? { region } : {}) },
+    },
+  };
+};
+
+const SOURCE_LABELS: Record<LiveSessionInfo['source'], string> = {
+  webcam: 'Webcam',
+  screen: 'Screen capture',
+};
+
+// One-line summary of a live session, for reports
+export const describeLiveSession = ({ source, startedAt, region }: LiveSessionInfo, duration?: number): string =>
+  `${SOURCE_LABELS[source]} started ${new Date(startedAt).toLocaleString()}` +
+  (duration !== undefined ? `, ${(duration / 1000).toFixed(0)} s` : '') +
+  (region
+    ? `, region at ${region.x.toFixed(0)}%, ${region.y.toFixed(0)}% sized ${region.width.toFixed(0)}x${region.height.toFixed(0)}%`
+    : ', whole picture');
+
+// The session timeline cut into at most `count` equal spans, with the mean
+// and peak confidence of the frames scored in each
+export const summarizeSessionTimeline = (
+  framewiseConfidence: { timestamp: number; confidence: number }[],
+  duration: number,
+  count = 20
+): { start: number; end: number; mean: number; peak: number; frames: number }[] => {
+  const span = Math.max(1, duration / count);
+  const spans = Array.from({ length: Math.ceil(duration / span) || 1 }, (_, index) => ({
+    start: index * span,
+    end: Math.min(duration, (index + 1) * span),
+    mean: 0,
+    peak: 0,
+    frames: 0,
+  }));
+  framewiseConfidence.forEach(({ timestamp, confidence }) => {
+    const entry = spans[Math.min(spans.length - 1, Math.floor(timestamp / span))];
+    entry.mean += confidence;
+    entry.peak = Math.max(entry.peak, confidence);
+    entry.frames++;
+  });
+  return spans
+    .filter(entry => entry.frames > 0)
+    .map(entry => ({ ...entry, mean: entry.mean / entry.frames }));
+};
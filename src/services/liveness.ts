@@ -0,0 +1,301 @@
+// Active liveness check for webcam sessions. A pre-rendered or replayed feed
+// cannot follow instructions it did not know in advance, so the person is
+// asked to perform random challenges within a time limit. Each is verified
+// from the face box, the eye and mouth measurements of lipSync, and for
+// reading aloud the microphone level.
+import type { DetectionResult } from './detectionService';
+import { FaceBox, detectFaces } from './faces';
+import { FaceArea, correlateLipSync, measureDarkShare, measureMouthOpening } from './forensics/lipSync';
+import type { ProgressCallback } from './detectors/types';
+
+export type LivenessResult = NonNullable<DetectionResult['analysis']['liveness']>;
+export type LivenessChallenge = LivenessResult['challenges'][number];
+export type LivenessChallengeType = LivenessChallenge['type'];
+
+// Frames per second measured during a challenge
+const FRAME_RATE = 10;
+// The person first looks straight at the camera, giving the baseline
+const BASELINE_MS = 1500;
+// Time allowed for each challenge
+const CHALLENGE_MS = 5000;
+const MAX_DIMENSION = 480;
+const SNAPSHOT_DIMENSION = 160;
+// Faces are located on every KEYFRAME_INTERVAL-th frame, and on every frame
+// during head turns
+const KEYFRAME_INTERVAL = 5;
+// Band of the face box across both eyes
+const EYE_AREA: FaceArea = { left: 0.2, top: 0.3, right: 0.8, bottom: 0.5 };
+// The face must move this share of its width toward the asked side
+const MIN_TURN_SHIFT = 0.15;
+// A blink darkens the eye band this much less than its baseline, for at most MAX_BLINK_MS
+const BLINK_DROP = 0.35;
+const MAX_BLINK_MS = 600;
+const REQUIRED_BLINKS = 2;
+// Frames this far (dB) above the baseline noise count as speech
+const SPEECH_MARGIN_DB = 10;
+const MIN_SPEECH_MS = 1000;
+// The mouth must open and close with the voice at least this closely
+const MIN_READING_CORRELATION = 0.2;
+const NUMBER_DIGITS = 4;
+
+interface ChallengeFrame {
+  // ms since the phase started
+  timestamp: number;
+  box: FaceBox | null;
+  // Dark share of the eye band and the mouth (see lipSync); NaN without a face
+  eyes: number;
+  mouth: number;
+  // Microphone level in dB; NaN when not listening
+  speech: number;
+  snapshot: string;
+}
+
+interface SpeechMeter {
+  read: () => number;
+  close: () => void;
+}
+
+interface Outcome {
+  passed: boolean;
+  detail: string;
+  // Frame at the decisive moment
+  index?: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = values.filter(value => !Number.isNaN(value)).sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : NaN;
+};
+
+// A head turn, a double blink and a number to read, in random order
+export const pickChallenges = (random = Math.random): { type: LivenessChallengeType; prompt: string }[] => {
+  const side = random() < 0.5 ? 'left' : 'right';
+  const digits = Array.from({ length: NUMBER_DIGITS }, () => Math.floor(random() * 10)).join(' ');
+  const challenges = [
+    { type: `head_turn_${side}` as const, prompt: `Turn your head to your ${side}` },
+    { type: 'blink_twice' as const, prompt: 'Blink twice' },
+    { type: 'read_number' as const, prompt: `Read this number aloud: ${digits}` },
+  ];
+  for (let i = challenges.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [challenges[i], challenges[j]] = [challenges[j], challenges[i]];
+  }
+  return challenges;
+};
+
+// The camera image is not mirrored, so the person's left is the image's right
+// (direction 1)
+export const evaluateHeadTurn = (baseline: (FaceBox | null)[], boxes: (FaceBox | null)[], direction: 1 | -1): Outcome => {
+  const start = baseline.filter((box): box is FaceBox => box !== null);
+  if (start.length === 0) {
+    return { passed: false, detail: 'no face while looking at the camera' };
+  }
+  const center = median(start.map(box => box.x + box.width / 2));
+  const width = median(start.map(box => box.width));
+  let toward = 0, away = 0, index: number | undefined;
+  boxes.forEach((box, i) => {
+    if (!box) return;
+    const shift = ((box.x + box.width / 2 - center) / width) * direction;
+    if (shift > toward) {
+      toward = shift;
+      index = i;
+    }
+    away = Math.max(away, -shift);
+  });
+  const moved = `face moved ${(toward * 100).toFixed(0)}% of its width to the asked side`;
+  if (toward >= MIN_TURN_SHIFT) return { passed: true, detail: moved, index };
+  return {
+    passed: false,
+    detail: away >= MIN_TURN_SHIFT ? `head turned the other way (${(away * 100).toFixed(0)}%)` : moved,
+    index,
+  };
+};
+
+// Dips of the eye band's dark share that are short enough to be blinks
+export const countBlinks = (baseline: number[], frames: { timestamp: number; eyes: number }[]): Outcome => {
+  const open = median(baseline);
+  if (!(open > 0)) {
+    return { passed: false, detail: 'eyes not visible while looking at the camera' };
+  }
+  const threshold = open * (1 - BLINK_DROP);
+  let blinks = 0, runStart: number | null = null, index: number | undefined;
+  frames.forEach(({ timestamp, eyes }, i) => {
+    if (eyes < threshold) {
+      if (runStart === null) runStart = i;
+      return;
+    }
+    if (runStart !== null && timestamp - frames[runStart].timestamp <= MAX_BLINK_MS) {
+      blinks++;
+      index ??= runStart;
+    }
+    runStart = null;
+  });
+  return {
+    passed: blinks >= REQUIRED_BLINKS,
+    detail: `${blinks} blink${blinks === 1 ? '' : 's'} seen, ${REQUIRED_BLINKS} asked`,
+    index,
+  };
+};
+
+// Speech must be heard and the mouth must move with it. The digits
+// themselves are not transcribed, so only a live speaker is verified.
+export const evaluateReading = (baselineSpeech: number[], frames: { mouth: number; speech: number }[], frameRate = FRAME_RATE): Outcome => {
+  const noise = median(baselineSpeech);
+  if (Number.isNaN(noise)) {
+    return { passed: false, detail: 'microphone not available' };
+  }
+  const voiced = frames.map(frame => frame.speech > noise + SPEECH_MARGIN_DB);
+  const speechMs = (voiced.filter(Boolean).length * 1000) / frameRate;
+  let correlation = NaN;
+  try {
+    const mouth = Float64Array.from(frames, frame => frame.mouth);
+    const speech = Float64Array.from(frames, frame => frame.speech);
+    correlation = correlateLipSync(mouth, speech, frameRate).lipSync.correlation;
+  } catch (error) {
+    // No frame with both a face and sound
+  }
+  const loudest = frames.reduce((best, frame, i) => (frame.speech > frames[best].speech ? i : best), 0);
+  return {
+    passed: speechMs >= MIN_SPEECH_MS && correlation >= MIN_READING_CORRELATION,
+    detail: `${(speechMs / 1000).toFixed(1)} s of speech, mouth-voice correlation ` +
+      `${Number.isNaN(correlation) ? 'not measurable' : correlation.toFixed(2)}; digits not transcribed`,
+    index: loudest,
+  };
+};
+
+const openSpeechMeter = async (): Promise<SpeechMeter> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const buffer = new Float32Array(analyser.fftSize);
+  return {
+    read: () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let sum = 0;
+      for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+      return 10 * Math.log10(sum / buffer.length + 1e-10);
+    },
+    close: () => {
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    },
+  };
+};
+
+const getLargestFace = (faces: { box: FaceBox }[]): FaceBox | null =>
+  faces.reduce<FaceBox | null>(
+    (largest, face) => (!largest || face.box.width * face.box.height > largest.width * largest.height ? face.box : largest),
+    null
+  );
+
+// Measure the live picture at FRAME_RATE for `duration` ms
+const recordFrames = async (
+  video: HTMLVideoElement,
+  duration: number,
+  { detectEvery, meter, signal }: { detectEvery: number; meter: SpeechMeter | null; signal?: AbortSignal }
+): Promise<ChallengeFrame[]> => {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  const snapshotScale = SNAPSHOT_DIMENSION / Math.max(canvas.width, canvas.height);
+  const snapshotCanvas = document.createElement('canvas');
+  snapshotCanvas.width = Math.max(1, Math.round(canvas.width * snapshotScale));
+  snapshotCanvas.height = Math.max(1, Math.round(canvas.height * snapshotScale));
+
+  const frames: ChallengeFrame[] = [];
+  const startedAt = performance.now();
+  let box: FaceBox | null = null;
+  for (let index = 0; performance.now() - startedAt < duration; index++) {
+    signal?.throwIfAborted();
+    const tickStart = performance.now();
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    if (index % detectEvery === 0) {
+      box = getLargestFace(await detectFaces(imageData, signal));
+    }
+    snapshotCanvas.getContext('2d')?.drawImage(canvas, 0, 0, snapshotCanvas.width, snapshotCanvas.height);
+    frames.push({
+      timestamp: tickStart - startedAt,
+      box,
+      eyes: box ? measureDarkShare(imageData, box, EYE_AREA) : NaN,
+      mouth: box ? measureMouthOpening(imageData, box) : NaN,
+      speech: meter ? meter.read() : NaN,
+      snapshot: snapshotCanvas.toDataURL('image/jpeg', 0.7),
+    });
+    const wait = 1000 / FRAME_RATE - (performance.now() - tickStart);
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+  }
+  return frames;
+};
+
+const runChallenge = async (
+  video: HTMLVideoElement,
+  { type, prompt }: { type: LivenessChallengeType; prompt: string },
+  onPrompt: (prompt: string | null) => void,
+  signal?: AbortSignal
+): Promise<LivenessChallenge> => {
+  const startedAt = new Date().toISOString();
+  let meter: SpeechMeter | null = null;
+  if (type === 'read_number') {
+    try {
+      meter = await openSpeechMeter();
+    } catch (error) {
+      console.warn('Microphone unavailable for the liveness check:', error);
+    }
+  }
+
+  try {
+    const detectEvery = type.startsWith('head_turn') ? 1 : KEYFRAME_INTERVAL;
+    onPrompt('Look straight at the camera');
+    const baseline = await recordFrames(video, BASELINE_MS, { detectEvery, meter, signal });
+    onPrompt(prompt);
+    const frames = await recordFrames(video, CHALLENGE_MS, { detectEvery, meter, signal });
+
+    let outcome: Outcome;
+    if (type === 'head_turn_left' || type === 'head_turn_right') {
+      outcome = evaluateHeadTurn(
+        baseline.map(frame => frame.box),
+        frames.map(frame => frame.box),
+        type === 'head_turn_left' ? 1 : -1
+      );
+    } else if (type === 'blink_twice') {
+      outcome = countBlinks(baseline.map(frame => frame.eyes), frames);
+    } else {
+      outcome = evaluateReading(baseline.map(frame => frame.speech), frames);
+    }
+    const snapshot = frames[outcome.index ?? frames.length - 1]?.snapshot;
+    return { type, prompt, passed: outcome.passed, detail: outcome.detail, startedAt, snapshot };
+  } finally {
+    meter?.close();
+    onPrompt(null);
+  }
+};
+
+// Run the challenges on the webcam picture in `video`; onPrompt gets the
+// instruction to show, or null between challenges
+export const runLivenessCheck = async (
+  video: HTMLVideoElement,
+  { onPrompt, onProgress, signal }: { onPrompt: (prompt: string | null) => void; onProgress?: ProgressCallback; signal?: AbortSignal }
+): Promise<LivenessResult> => {
+  if (!video.videoWidth || !video.videoHeight) {
+    throw new Error('The webcam picture is not available');
+  }
+  const planned = pickChallenges();
+  const challenges: LivenessChallenge[] = [];
+  for (const [index, challenge] of planned.entries()) {
+    onProgress?.((index / planned.length) * 100, `Challenge ${index + 1} of ${planned.length}`);
+    challenges.push(await runChallenge(video, challenge, onPrompt, signal));
+  }
+  onProgress?.(100, 'Liveness check complete');
+  return { passed: challenges.every(challenge => challenge.passed), challenges };
+};
+
+// One-line summary of the liveness check, for reports
+export const describeLiveness = ({ passed, challenges }: LivenessResult): string =>
+  `${passed ? 'passed' : 'failed'}: ` +
+  challenges.map(challenge => `${challenge.prompt} (${challenge.passed ? 'pass' : 'fail'}, ${challenge.detail})`).join('; ');
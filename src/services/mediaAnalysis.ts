@@ -0,0 +1,252 @@
+import {
+  AnalyzeOptions,
+  DetectionResult,
+  analyzeAudio,
+  analyzeImage,
+  analyzeVideo,
+  generateVideoFrameImages,
+  isAbortError,
+} from './detectionService';
+import { computeOcclusionSaliency } from './saliency';
+import { computeEla } from './forensics/ela';
+import { SpectrumSummary, analyzeSpectrum } from './forensics/spectrum';
+import { decodeImage, scaleProgress } from './detectors/shared';
+import { ForgeryMask, localizeForgeries } from './forensics/localization';
+import { ContainerMetadata, extractContainerMetadata } from './metadata';
+import { ProvenanceSummary, readContentCredentials } from './provenance';
+import { sha256Hex } from '@/utils/hashing';
+import { PerceptualHash, computePerceptualHashes } from '@/utils/perceptualHash';
+
+// Share of the progress bar spent on detection; the saliency map takes the rest
+const SALIENCY_PROGRESS_START = 60;
+
+// Everything the result views need to display one analyzed file
+export interface MediaAnalysis {
+  results: DetectionResult;
+  // Empty when the source media is not available, e.g. too large to keep in the history
+  mediaUrl: string;
+  // Saliency map blended onto the analyzed image or first frame
+  gradCamUrl: string | null;
+  // The saliency map alone, as a transparent colormapped overlay
+  saliencyUrl: string | null;
+  // Copy-move and splicing overlays of a still image
+  forgeryMasks: ForgeryMask[];
+  frameImages: string[];
+  audioUrl: string | null;
+  // Of the image itself or of the video keyframes; empty for audio
+  perceptualHashes: PerceptualHash[];
+}
+
+// Run a detection, then explain it with an occlusion saliency map of
+// imageUrl. The map's peaks replace the detector's heatmap regions; if the map
+// cannot be computed the detection result is returned as is.
+export const analyzeWithSaliency = async (
+  analyze: (options: AnalyzeOptions) => Promise<DetectionResult>,
+  imageUrl: string | null,
+  options: AnalyzeOptions = {}
+): Promise<{ results: DetectionResult; gradCamUrl: string | null; saliencyUrl: string | null }> => {
+  const { onProgress, signal } = options;
+  const results = await analyze({ ...options, onProgress: scaleProgress(onProgress, 0, SALIENCY_PROGRESS_START) });
+  signal?.throwIfAborted();
+  if (!imageUrl) {
+    return { results, gradCamUrl: null, saliencyUrl: null };
+  }
+
+  try {
+    const saliency = await computeOcclusionSaliency(imageUrl, {
+      onProgress: scaleProgress(onProgress, SALIENCY_PROGRESS_START, 100),
+      signal,
+    });
+    return {
+      results: { ...results, analysis: { ...results.analysis, heatmapData: saliency.heatmapData } },
+      gradCamUrl: saliency.compositeUrl,
+      saliencyUrl: saliency.overlayUrl,
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Saliency map failed:', error);
+    return { results, gradCamUrl: null, saliencyUrl: null };
+  }
+};
+
+const getElaScore = async (imageUrl: string): Promise<number | undefined> => {
+  try {
+    return (await computeEla(imageUrl)).score;
+  } catch (error) {
+    console.error('Error level analysis failed:', error);
+    return undefined;
+  }
+};
+
+const getSpectrum = async (imageUrl: string): Promise<SpectrumSummary | undefined> => {
+  try {
+    return analyzeSpectrum((await decodeImage(imageUrl)).imageData);
+  } catch (error) {
+    console.error('Spectral analysis failed:', error);
+    return undefined;
+  }
+};
+
+// The spectrum replaces the detector's artifacts estimate, so the score can
+// be traced back to measured peaks and roll-off
+const withSpectrum = (results: DetectionResult, spectrum: SpectrumSummary | undefined): DetectionResult =>
+  spectrum
+    ? { ...results, analysis: { ...results.analysis, artifactsScore: spectrum.score, spectrum } }
+    : results;
+
+// Add copy-move and splicing areas of a still image to its heatmap regions,
+// ahead of the saliency peaks. Images that cannot be read back (remote
+// without CORS) are returned unchanged.
+export const withForgeryLocalization = async (
+  results: DetectionResult,
+  imageUrl: string
+): Promise<{ results: DetectionResult; forgeryMasks: ForgeryMask[] }> => {
+  try {
+    const { masks, regions } = await localizeForgeries(imageUrl);
+    if (regions.length === 0) return { results, forgeryMasks: [] };
+    const heatmapData = results.analysis.heatmapData ?? { regions: [], overallIntensity: results.confidence / 100 };
+    return {
+      results: {
+        ...results,
+        analysis: { ...results.analysis, heatmapData: { ...heatmapData, regions: [...regions, ...heatmapData.regions] } },
+      },
+      forgeryMasks: masks,
+    };
+  } catch (error) {
+    console.error('Forgery localization failed:', error);
+    return { results, forgeryMasks: [] };
+  }
+};
+
+const getContainerMetadata = async (file: File): Promise<ContainerMetadata | null> => {
+  try {
+    return await extractContainerMetadata(file);
+  } catch (error) {
+    console.error('Metadata extraction failed:', error);
+    return null;
+  }
+};
+
+const getContentCredentials = async (file: File): Promise<ProvenanceSummary | null> => {
+  try {
+    return await readContentCredentials(file);
+  } catch (error) {
+    console.error('Content Credentials could not be read:', error);
+    return null;
+  }
+};
+
+// Attach what the file says about itself. Parsed dimensions are the real
+// ones and take precedence over the detector's; a trusted manifest declaring
+// generative AI overrides the ML classification.
+const withFileEvidence = (
+  results: DetectionResult,
+  container: ContainerMetadata | null,
+  provenance: ProvenanceSummary | null
+): DetectionResult => {
+  let withEvidence = results;
+  if (container) {
+    const resolution = container.width && container.height ? `${container.width}x${container.height}` : results.metadata.resolution;
+    withEvidence = { ...withEvidence, metadata: { ...withEvidence.metadata, resolution, container } };
+  }
+  if (provenance) {
+    withEvidence = { ...withEvidence, provenance };
+    if (provenance.status === 'valid' && provenance.isAiGenerated) {
+      withEvidence = { ...withEvidence, classification: 'ai_generated', isManipulated: true, riskLevel: 'high' };
+    }
+  }
+  return withEvidence;
+};
+
+// Gray frame shown when no frames could be extracted from a video
+export const createPlaceholderFrame = (text: string): string => {
+  const tempCanvas = document.createElement('canvas');
+  tempCanvas.width = 640;
+  tempCanvas.height = 360;
+  const ctx = tempCanvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#f0f0f0';
+    ctx.fillRect(0, 0, 640, 360);
+    ctx.fillStyle = '#999';
+    ctx.font = '20px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(text, 320, 180);
+  }
+  return tempCanvas.toDataURL('image/jpeg');
+};
+
+// Run the full analysis pipeline for an uploaded file. The content hash is
+// computed here unless the caller already has it.
+export const analyzeMediaFile = async (file: File, options: AnalyzeOptions = {}): Promise<MediaAnalysis> => {
+  const { signal } = options;
+  const sourceHash = options.sourceHash ?? await sha256Hex(file);
+  signal?.throwIfAborted();
+  options = { ...options, sourceHash };
+  const container = await getContainerMetadata(file);
+  const provenance = await getContentCredentials(file);
+  signal?.throwIfAborted();
+  const fileUrl = URL.createObjectURL(file);
+
+  try {
+    if (file.type.startsWith('image/')) {
+      const { results, gradCamUrl, saliencyUrl } = await analyzeWithSaliency(
+        analyzeOptions => analyzeImage(fileUrl, analyzeOptions),
+        fileUrl,
+        options
+      );
+      const perceptualHashes = await computePerceptualHashes([fileUrl]);
+      const frameImages = gradCamUrl ? [fileUrl, gradCamUrl] : [fileUrl];
+      // ELA only means something for JPEG compression history
+      const elaScore = file.type === 'image/jpeg' ? await getElaScore(fileUrl) : undefined;
+      const withEla = elaScore === undefined ? results : { ...results, analysis: { ...results.analysis, elaScore } };
+      const localized = await withForgeryLocalization(withEla, fileUrl);
+      return {
+        results: withFileEvidence(withSpectrum(localized.results, await getSpectrum(fileUrl)), container, provenance),
+        mediaUrl: fileUrl,
+        gradCamUrl,
+        saliencyUrl,
+        forgeryMasks: localized.forgeryMasks,
+        frameImages,
+        audioUrl: null,
+        perceptualHashes,
+      };
+    }
+
+    if (file.type.startsWith('video/')) {
+      console.log("Processing video file:", file.name, file.type);
+      const frameImages = await generateVideoFrameImages(fileUrl);
+      signal?.throwIfAborted();
+      console.log("Generated frame images:", frameImages.length);
+
+      // The saliency map explains the first frame
+      const { results, gradCamUrl, saliencyUrl } = await analyzeWithSaliency(
+        analyzeOptions => analyzeVideo(fileUrl, analyzeOptions),
+        frameImages[0] ?? null,
+        options
+      );
+      console.log("Video analysis complete:", results);
+      const perceptualHashes = await computePerceptualHashes(frameImages);
+      const spectrum = frameImages[0] ? await getSpectrum(frameImages[0]) : undefined;
+      return {
+        results: withFileEvidence(withSpectrum(results, spectrum), container, provenance),
+        mediaUrl: fileUrl,
+        gradCamUrl,
+        saliencyUrl,
+        forgeryMasks: [],
+        frameImages: frameImages.length > 0 ? frameImages : [createPlaceholderFrame('Video preview not available')],
+        audioUrl: null,
+        perceptualHashes,
+      };
+    }
+
+    if (file.type.startsWith('audio/')) {
+      const results = withFileEvidence(await analyzeAudio(fileUrl, options), container, provenance);
+      return { results, mediaUrl: fileUrl, gradCamUrl: null, saliencyUrl: null, forgeryMasks: [], frameImages: [], audioUrl: fileUrl, perceptualHashes: [] };
+    }
+
+    throw new Error(`Unsupported file type: ${file.type || file.name}`);
+  } catch (error) {
+    URL.revokeObjectURL(fileUrl);
+    throw error;
+  }
+};
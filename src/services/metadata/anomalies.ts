@@ -0,0 +1,87 @@
+import type { ParsedMetadata } from './tags';
+import type { MetadataAnomaly } from './types';
+
+const AI_GENERATOR_PATTERN = /stable diffusion|midjourney|dall[·-]?e|firefly|comfyui|automatic1111|novelai|invokeai|leonardo\.ai|ideogram|dreamstudio/i;
+const EDITOR_PATTERN = /photoshop|lightroom|gimp|affinity|pixelmator|paint\.net|snapseed|facetune|faceapp|picsart|canva|premiere|after effects|final cut|davinci|capcut|vegas|imovie|audacity|audition|ableton|fl studio|reaper|logic pro|garageband/i;
+const REENCODER_PATTERN = /lavf|lavc|ffmpeg|handbrake|x264|x265/i;
+// Text chunks written by Stable Diffusion front ends (A1111, ComfyUI, InvokeAI)
+const GENERATION_KEYWORDS = ['parameters', 'prompt', 'workflow', 'invokeai_metadata', 'sd-metadata'];
+// IPTC digital source types for generated media
+const GENERATED_SOURCE_PATTERN = /trainedAlgorithmicMedia|algorithmicMedia/;
+const CAMERA_FORMATS = new Set(['JPEG', 'MP4', 'QuickTime']);
+// Clock differences smaller than this are ignored
+const DATE_TOLERANCE_MS = 60 * 1000;
+const EDIT_GAP_MS = 60 * 60 * 1000;
+
+const formatGap = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  return hours < 48 ? `${Math.round(hours)} hours` : `${Math.round(hours / 24)} days`;
+};
+
+// Flag metadata that suggests the file was generated, edited or stripped.
+// None of these prove manipulation on their own; they are shown as context.
+export const detectMetadataAnomalies = (metadata: ParsedMetadata): MetadataAnomaly[] => {
+  const anomalies: MetadataAnomaly[] = [];
+  const { groups, software, format } = metadata;
+
+  const generator = software.find(name => AI_GENERATOR_PATTERN.test(name));
+  const generationKeyword = Object.keys(groups.PNG ?? {}).find(key => GENERATION_KEYWORDS.includes(key.toLowerCase()));
+  const sourceType = groups.XMP?.['Iptc4xmpExt:DigitalSourceType'] ?? groups.XMP?.['Iptc4xmpExt:DigitalSourceFileType'];
+  if (generator) {
+    anomalies.push({ id: 'ai_generator', severity: 'critical', message: `Created with the image generator "${generator}".` });
+  } else if (generationKeyword) {
+    anomalies.push({ id: 'ai_generator', severity: 'critical', message: `Contains a "${generationKeyword}" text chunk, as written by Stable Diffusion tools.` });
+  }
+  if (sourceType && GENERATED_SOURCE_PATTERN.test(sourceType)) {
+    anomalies.push({ id: 'ai_source_type', severity: 'critical', message: 'The IPTC digital source type declares algorithmically generated media.' });
+  }
+
+  const editor = software.find(name => EDITOR_PATTERN.test(name));
+  if (editor) {
+    anomalies.push({ id: 'editing_software', severity: 'warning', message: `Processed with editing software "${editor}".` });
+  }
+  const reencoder = software.find(name => REENCODER_PATTERN.test(name));
+  if (reencoder) {
+    anomalies.push({ id: 're_encoded', severity: 'info', message: `Re-encoded with "${reencoder}", which usually discards the original capture metadata.` });
+  }
+
+  if (CAMERA_FORMATS.has(format) && !metadata.make && !metadata.model) {
+    anomalies.push({
+      id: 'missing_camera_data',
+      severity: 'info',
+      message: groups.EXIF
+        ? 'Metadata is present but names no camera make or model.'
+        : 'No camera make or model; the metadata was stripped or the file was not recorded by a camera.',
+    });
+  }
+
+  const exifWidth = Number(groups.EXIF?.PixelXDimension);
+  const exifHeight = Number(groups.EXIF?.PixelYDimension);
+  if (exifWidth > 0 && exifHeight > 0 && metadata.width && metadata.height) {
+    const matches = (exifWidth === metadata.width && exifHeight === metadata.height) ||
+      (exifWidth === metadata.height && exifHeight === metadata.width);
+    if (!matches) {
+      anomalies.push({
+        id: 'dimension_mismatch',
+        severity: 'warning',
+        message: `EXIF records ${exifWidth}x${exifHeight} but the image is ${metadata.width}x${metadata.height}; it was resized or cropped after capture.`,
+      });
+    }
+  }
+
+  const created = metadata.createdAt ? Date.parse(metadata.createdAt) : NaN;
+  const modified = metadata.modifiedAt ? Date.parse(metadata.modifiedAt) : NaN;
+  if (created - modified > DATE_TOLERANCE_MS) {
+    anomalies.push({ id: 'date_order', severity: 'warning', message: 'The creation date is later than the modification date.' });
+  } else if (modified - created > EDIT_GAP_MS) {
+    anomalies.push({ id: 'modified_after_creation', severity: 'info', message: `Modified ${formatGap(modified - created)} after it was created.` });
+  }
+  if ([created, modified].some(time => time - Date.now() > DATE_TOLERANCE_MS)) {
+    anomalies.push({ id: 'future_date', severity: 'warning', message: 'A recorded date lies in the future.' });
+  }
+  if (groups.QuickTime?.CreateDate === 'Not set') {
+    anomalies.push({ id: 'missing_creation_time', severity: 'info', message: 'The container creation time is not set.' });
+  }
+
+  return anomalies;
+};
@@ -0,0 +1,51 @@
+const latin1Decoder = new TextDecoder('latin1');
+const utf8Decoder = new TextDecoder('utf-8');
+
+export const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  latin1Decoder.decode(bytes.subarray(offset, offset + length));
+
+// Decode text up to the first NUL, trimming padding
+export const readString = (bytes: Uint8Array, encoding: 'latin1' | 'utf-8' = 'latin1'): string => {
+  const end = bytes.indexOf(0);
+  const decoder = encoding === 'utf-8' ? utf8Decoder : latin1Decoder;
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end)).trim();
+};
+
+export const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const joined = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, position);
+    position += chunk.length;
+  }
+  return joined;
+};
+
+export const readBlobBytes = async (blob: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await blob.slice(start, end).arrayBuffer());
+
+export const toDataView = (bytes: Uint8Array): DataView =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// Date parts as written by EXIF ("2021:04:05 12:30:00") and most ID3/RIFF
+// tags ("2021-04-05T12:30"); timezone-less values are taken as UTC. Other
+// formats (PNG uses RFC 1123) go through Date.parse.
+export const parseDateString = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?(Z|[+-]\d{2}:?\d{2})?/);
+  if (!match) {
+    const timestamp = Date.parse(value);
+    return isNaN(timestamp) ? undefined : new Date(timestamp).toISOString();
+  }
+  const [, year, month, day, hour = '00', minute = '00', second = '00', zone = 'Z'] = match;
+  if (year === '0000' || month === '00') return undefined;
+  const normalizedZone = zone === 'Z' ? zone : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${normalizedZone}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// zlib-wrapped deflate, as used by PNG zTXt, iTXt and iCCP chunks
+export const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
@@ -0,0 +1,173 @@
+import { parseDateString, readString, toDataView } from './binary';
+import { ParsedMetadata, addSoftware, setIfMissing, setTag } from './tags';
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISO',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9010: 'OffsetTime',
+  0x9011: 'OffsetTimeOriginal',
+  0x920a: 'FocalLength',
+  0x927c: 'MakerNote',
+  0x9286: 'UserComment',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa420: 'ImageUniqueID',
+  0xa431: 'BodySerialNumber',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0006: 'GPSAltitude',
+  0x001d: 'GPSDateStamp',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+// Bytes per component, indexed by TIFF field type
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+// Values that are opaque blobs; only their size is worth showing
+const BINARY_TAGS = new Set(['MakerNote']);
+
+type TagValue = string | number | number[];
+
+const formatNumber = (value: number) => String(Math.round(value * 10000) / 10000);
+
+const formatValue = (value: TagValue): string =>
+  Array.isArray(value) ? value.map(formatNumber).join(', ') : typeof value === 'number' ? formatNumber(value) : value;
+
+// Read a TIFF structure (the body of an EXIF APP1 segment or PNG eXIf chunk)
+// into tag name -> value maps for IFD0, the Exif IFD and the GPS IFD
+export const parseTiff = (bytes: Uint8Array): Record<'IFD0' | 'Exif' | 'GPS', Record<string, TagValue>> => {
+  const view = toDataView(bytes);
+  const byteOrder = String.fromCharCode(bytes[0], bytes[1]);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new Error('Invalid TIFF byte order');
+  }
+  const littleEndian = byteOrder === 'II';
+  const visited = new Set<number>();
+
+  const readValue = (type: number, count: number, offset: number, tagName: string): TagValue | undefined => {
+    const size = (TYPE_SIZES[type] ?? 0) * count;
+    if (size === 0 || offset + size > bytes.length) return undefined;
+    if (BINARY_TAGS.has(tagName)) return `${size} bytes`;
+    switch (type) {
+      case 2:
+        return readString(bytes.subarray(offset, offset + count));
+      case 7:
+        // UserComment starts with an 8 byte character code
+        return tagName === 'UserComment'
+          ? readString(bytes.subarray(offset + 8, offset + count), 'utf-8')
+          : `${size} bytes`;
+      case 1:
+      case 3:
+      case 4:
+      case 9: {
+        const values: number[] = [];
+        for (let i = 0; i < Math.min(count, 16); i++) {
+          const at = offset + i * TYPE_SIZES[type];
+          values.push(
+            type === 1 ? view.getUint8(at)
+              : type === 3 ? view.getUint16(at, littleEndian)
+              : type === 4 ? view.getUint32(at, littleEndian)
+              : view.getInt32(at, littleEndian)
+          );
+        }
+        return values.length === 1 ? values[0] : values;
+      }
+      case 5:
+      case 10: {
+        const values: number[] = [];
+        for (let i = 0; i < Math.min(count, 16); i++) {
+          const at = offset + i * 8;
+          const numerator = type === 5 ? view.getUint32(at, littleEndian) : view.getInt32(at, littleEndian);
+          const denominator = type === 5 ? view.getUint32(at + 4, littleEndian) : view.getInt32(at + 4, littleEndian);
+          values.push(denominator === 0 ? 0 : numerator / denominator);
+        }
+        return values.length === 1 ? values[0] : values;
+      }
+      default:
+        return undefined;
+    }
+  };
+
+  const readIfd = (ifdOffset: number, names: Record<number, string>) => {
+    const tags: Record<string, TagValue> = {};
+    const pointers: Record<number, number> = {};
+    if (visited.has(ifdOffset) || ifdOffset + 2 > bytes.length) return { tags, pointers };
+    visited.add(ifdOffset);
+
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    for (let i = 0; i < entryCount; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      if (entry + 12 > bytes.length) break;
+      const tag = view.getUint16(entry, littleEndian);
+      const type = view.getUint16(entry + 2, littleEndian);
+      const count = view.getUint32(entry + 4, littleEndian);
+      if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+        pointers[tag] = view.getUint32(entry + 8, littleEndian);
+        continue;
+      }
+      const name = names[tag];
+      if (!name) continue;
+      const inline = (TYPE_SIZES[type] ?? 0) * count <= 4;
+      const value = readValue(type, count, inline ? entry + 8 : view.getUint32(entry + 8, littleEndian), name);
+      if (value !== undefined && value !== '') tags[name] = value;
+    }
+    return { tags, pointers };
+  };
+
+  const ifd0 = readIfd(view.getUint32(4, littleEndian), IFD0_TAGS);
+  const exifOffset = ifd0.pointers[EXIF_IFD_POINTER];
+  const gpsOffset = ifd0.pointers[GPS_IFD_POINTER];
+  return {
+    IFD0: ifd0.tags,
+    Exif: exifOffset ? readIfd(exifOffset, EXIF_TAGS).tags : {},
+    GPS: gpsOffset ? readIfd(gpsOffset, GPS_TAGS).tags : {},
+  };
+};
+
+const toDegrees = (value: TagValue | undefined, ref: TagValue | undefined): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// Merge a TIFF/EXIF block into the parsed metadata under the 'EXIF' group
+export const applyExif = (metadata: ParsedMetadata, bytes: Uint8Array) => {
+  const { IFD0, Exif, GPS } = parseTiff(bytes);
+  for (const [key, value] of Object.entries({ ...IFD0, ...Exif })) {
+    setTag(metadata, 'EXIF', key, formatValue(value));
+  }
+
+  const latitude = toDegrees(GPS.GPSLatitude, GPS.GPSLatitudeRef);
+  const longitude = toDegrees(GPS.GPSLongitude, GPS.GPSLongitudeRef);
+  if (latitude !== undefined && longitude !== undefined) {
+    setTag(metadata, 'EXIF', 'GPSPosition', `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
+  }
+
+  const offset = typeof Exif.OffsetTimeOriginal === 'string' ? Exif.OffsetTimeOriginal : '';
+  setIfMissing(metadata, 'make', typeof IFD0.Make === 'string' ? IFD0.Make : undefined);
+  setIfMissing(metadata, 'model', typeof IFD0.Model === 'string' ? IFD0.Model : undefined);
+  setIfMissing(metadata, 'createdAt', parseDateString(`${Exif.DateTimeOriginal ?? Exif.DateTimeDigitized ?? ''}${offset}`));
+  setIfMissing(metadata, 'modifiedAt', parseDateString(`${IFD0.DateTime ?? ''}${typeof Exif.OffsetTime === 'string' ? Exif.OffsetTime : ''}`));
+  addSoftware(metadata, typeof IFD0.Software === 'string' ? IFD0.Software : undefined);
+};
@@ -0,0 +1,56 @@
+import { readAscii, toDataView } from './binary';
+import { ParsedMetadata, setTag } from './tags';
+
+const HEADER_SIZE = 128;
+
+const readTextTag = (bytes: Uint8Array, offset: number, size: number): string | undefined => {
+  if (offset + size > bytes.length || size < 12) return undefined;
+  const view = toDataView(bytes);
+  const type = readAscii(bytes, offset, 4);
+  if (type === 'desc') {
+    // ICC v2: ASCII count followed by the string
+    const length = view.getUint32(offset + 8);
+    return readAscii(bytes, offset + 12, Math.min(length, size - 12)).replace(/\0+$/, '');
+  }
+  if (type === 'mluc') {
+    // ICC v4: localized UTF-16BE records; the first one is used
+    const recordLength = view.getUint32(offset + 20);
+    const recordOffset = view.getUint32(offset + 24);
+    if (recordOffset + recordLength > size) return undefined;
+    const start = bytes.byteOffset + offset + recordOffset;
+    return new TextDecoder('utf-16be').decode(new Uint8Array(bytes.buffer, start, recordLength)).replace(/\0+$/, '');
+  }
+  if (type === 'text') {
+    return readAscii(bytes, offset + 8, size - 8).replace(/\0+$/, '');
+  }
+  return undefined;
+};
+
+// Summarize an ICC colour profile into the 'ICC' group
+export const applyIccProfile = (metadata: ParsedMetadata, bytes: Uint8Array) => {
+  if (bytes.length < HEADER_SIZE + 4) return;
+  const view = toDataView(bytes);
+
+  setTag(metadata, 'ICC', 'CMM', readAscii(bytes, 4, 4).trim());
+  setTag(metadata, 'ICC', 'Version', `${bytes[8]}.${bytes[9] >> 4}`);
+  setTag(metadata, 'ICC', 'DeviceClass', readAscii(bytes, 12, 4).trim());
+  setTag(metadata, 'ICC', 'ColorSpace', readAscii(bytes, 16, 4).trim());
+  setTag(metadata, 'ICC', 'Manufacturer', readAscii(bytes, 48, 4).replace(/\0/g, '').trim());
+
+  const year = view.getUint16(24);
+  if (year > 0) {
+    const parts = [view.getUint16(26), view.getUint16(28), view.getUint16(30), view.getUint16(32)]
+      .map(part => String(part).padStart(2, '0'));
+    setTag(metadata, 'ICC', 'ProfileDate', `${year}-${parts[0]}-${parts[1]} ${parts[2]}:${parts[3]}`);
+  }
+
+  const tagCount = view.getUint32(HEADER_SIZE);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = HEADER_SIZE + 4 + i * 12;
+    if (entry + 12 > bytes.length) break;
+    const signature = readAscii(bytes, entry, 4);
+    if (signature !== 'desc' && signature !== 'cprt') continue;
+    const text = readTextTag(bytes, view.getUint32(entry + 4), view.getUint32(entry + 8));
+    setTag(metadata, 'ICC', signature === 'desc' ? 'Description' : 'Copyright', text);
+  }
+};
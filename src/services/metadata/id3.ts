@@ -0,0 +1,170 @@
+import { parseDateString, readAscii, readBlobBytes, readString, toDataView } from './binary';
+import { ParsedMetadata, addSoftware, createParsedMetadata, setIfMissing, setTag } from './tags';
+
+const ID3_HEADER_SIZE = 10;
+const ID3V1_SIZE = 128;
+// Bytes after the tag searched for the first MPEG frame
+const FRAME_SEARCH_BYTES = 64 * 1024;
+
+// ID3v2.3/2.4 frame ids, with their v2.2 three-letter equivalents
+const FRAME_NAMES: Record<string, string> = {
+  TIT2: 'Title', TT2: 'Title',
+  TPE1: 'Artist', TP1: 'Artist',
+  TALB: 'Album', TAL: 'Album',
+  TSSE: 'EncoderSettings', TSS: 'EncoderSettings',
+  TENC: 'EncodedBy', TEN: 'EncodedBy',
+  TDRC: 'RecordingTime', TYER: 'Year', TYE: 'Year',
+  TDEN: 'EncodingTime',
+  TDTG: 'TaggingTime',
+  TCOP: 'Copyright', TCR: 'Copyright',
+  COMM: 'Comment', COM: 'Comment',
+  TXXX: 'UserText', TXX: 'UserText',
+};
+const SOFTWARE_FRAMES = new Set(['EncoderSettings', 'EncodedBy']);
+
+// Layer III bitrates (kbps) by bitrate index, for MPEG-1 and MPEG-2/2.5
+const BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+const ENCODER_PATTERN = /(LAME|Lavc|Lavf|GOGO)[\w.]*/;
+
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const decodeText = (encoding: number, bytes: Uint8Array): string => {
+  if (encoding === 1 || encoding === 2) {
+    const label = encoding === 2 ? 'utf-16be' : bytes[0] === 0xfe ? 'utf-16be' : 'utf-16le';
+    return new TextDecoder(label).decode(bytes).replace(/^\uFEFF/, '').replace(/\0.*$/s, '').trim();
+  }
+  return readString(bytes, encoding === 3 ? 'utf-8' : 'latin1');
+};
+
+// Split a text frame body at its encoding-dependent terminator
+const splitTerminated = (encoding: number, bytes: Uint8Array): [Uint8Array, Uint8Array] => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = 0; i + (wide ? 1 : 0) < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) {
+      return [bytes.subarray(0, i), bytes.subarray(i + (wide ? 2 : 1))];
+    }
+  }
+  return [bytes, new Uint8Array()];
+};
+
+// Read the text frames of an ID3v2 tag (starting at its 'ID3' header)
+export const applyId3v2 = (metadata: ParsedMetadata, tag: Uint8Array) => {
+  if (readAscii(tag, 0, 3) !== 'ID3') return;
+  const version = tag[3];
+  setTag(metadata, 'ID3', 'Version', `2.${version}.${tag[4]}`);
+  const view = toDataView(tag);
+  const end = Math.min(tag.length, ID3_HEADER_SIZE + syncsafe(tag, 6));
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  let offset = ID3_HEADER_SIZE;
+  // Skip the extended header
+  if (tag[5] & 0x40 && version > 2) {
+    offset += version === 4 ? syncsafe(tag, offset) : view.getUint32(offset) + 4;
+  }
+
+  while (offset + headerLength <= end) {
+    const id = readAscii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+    const size = version === 2
+      ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+      : version === 4 ? syncsafe(tag, offset + 4) : view.getUint32(offset + 4);
+    const body = tag.subarray(offset + headerLength, Math.min(end, offset + headerLength + size));
+    offset += headerLength + size;
+
+    const name = FRAME_NAMES[id];
+    if (!name || body.length < 2) continue;
+    const encoding = body[0];
+    let value: string;
+    let key = name;
+    if (name === 'Comment') {
+      // Language code and short description precede the text
+      const [, text] = splitTerminated(encoding, body.subarray(4));
+      value = decodeText(encoding, text);
+    } else if (name === 'UserText') {
+      const [description, text] = splitTerminated(encoding, body.subarray(1));
+      key = decodeText(encoding, description) || name;
+      value = decodeText(encoding, text);
+    } else {
+      value = decodeText(encoding, body.subarray(1));
+    }
+
+    setTag(metadata, 'ID3', key, value);
+    if (SOFTWARE_FRAMES.has(name)) addSoftware(metadata, value);
+    if (name === 'RecordingTime' || name === 'Year') setIfMissing(metadata, 'createdAt', parseDateString(value));
+    if (name === 'TaggingTime' || name === 'EncodingTime') setIfMissing(metadata, 'modifiedAt', parseDateString(value));
+  }
+};
+
+// Bitrate, sample rate and encoder string from the first Layer III frame,
+// including the Xing/LAME header that VBR encoders write there
+const applyFirstFrame = (metadata: ParsedMetadata, bytes: Uint8Array, audioBytes: number) => {
+  for (let i = 0; i + 4 <= bytes.length; i++) {
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0) continue;
+    const versionBits = (bytes[i + 1] >> 3) & 0x03;
+    const layerBits = (bytes[i + 1] >> 1) & 0x03;
+    const bitrateIndex = bytes[i + 2] >> 4;
+    const sampleRateIndex = (bytes[i + 2] >> 2) & 0x03;
+    // Layer III only, and reject reserved values that make false syncs likely
+    if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) continue;
+
+    const isVersion1 = versionBits === 3;
+    const bitrate = (isVersion1 ? BITRATES_V1 : BITRATES_V2)[bitrateIndex];
+    const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+    const mono = (bytes[i + 3] >> 6) === 3;
+    setTag(metadata, 'MPEG', 'Version', isVersion1 ? '1' : versionBits === 2 ? '2' : '2.5');
+    setTag(metadata, 'MPEG', 'SampleRate', `${sampleRate} Hz`);
+    setTag(metadata, 'MPEG', 'ChannelMode', mono ? 'Mono' : 'Stereo');
+
+    const sideInfo = isVersion1 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+    const xingOffset = i + 4 + sideInfo;
+    const xingId = readAscii(bytes, xingOffset, 4);
+    const samplesPerFrame = isVersion1 ? 1152 : 576;
+    if ((xingId === 'Xing' || xingId === 'Info') && xingOffset + 12 <= bytes.length) {
+      const view = toDataView(bytes);
+      setTag(metadata, 'MPEG', 'Bitrate', xingId === 'Xing' ? 'Variable' : `${bitrate} kbps`);
+      if (view.getUint32(xingOffset + 4) & 0x01) {
+        metadata.duration = (view.getUint32(xingOffset + 8) * samplesPerFrame) / sampleRate;
+      }
+    } else {
+      setTag(metadata, 'MPEG', 'Bitrate', `${bitrate} kbps`);
+      metadata.duration = (audioBytes * 8) / (bitrate * 1000);
+    }
+
+    const encoder = readAscii(bytes, i, Math.min(bytes.length - i, 512)).match(ENCODER_PATTERN)?.[0];
+    setTag(metadata, 'MPEG', 'Encoder', encoder);
+    addSoftware(metadata, encoder);
+    return;
+  }
+};
+
+export const parseMp3 = async (file: Blob): Promise<ParsedMetadata> => {
+  const metadata = createParsedMetadata('MP3');
+  const header = await readBlobBytes(file, 0, ID3_HEADER_SIZE);
+  let audioStart = 0;
+  if (readAscii(header, 0, 3) === 'ID3') {
+    audioStart = ID3_HEADER_SIZE + syncsafe(header, 6);
+    applyId3v2(metadata, await readBlobBytes(file, 0, audioStart));
+  }
+
+  const v1 = await readBlobBytes(file, Math.max(0, file.size - ID3V1_SIZE), file.size);
+  const hasId3v1 = v1.length === ID3V1_SIZE && readAscii(v1, 0, 3) === 'TAG';
+  if (hasId3v1) {
+    setTag(metadata, 'ID3v1', 'Title', readString(v1.subarray(3, 33)));
+    setTag(metadata, 'ID3v1', 'Artist', readString(v1.subarray(33, 63)));
+    setTag(metadata, 'ID3v1', 'Album', readString(v1.subarray(63, 93)));
+    setTag(metadata, 'ID3v1', 'Year', readString(v1.subarray(93, 97)));
+    setTag(metadata, 'ID3v1', 'Comment', readString(v1.subarray(97, 127)));
+  }
+
+  const audioEnd = file.size - (hasId3v1 ? ID3V1_SIZE : 0);
+  applyFirstFrame(metadata, await readBlobBytes(file, audioStart, audioStart + FRAME_SEARCH_BYTES), audioEnd - audioStart);
+  return metadata;
+};
@@ -0,0 +1,45 @@
+import { readAscii, readBlobBytes } from './binary';
+import { detectMetadataAnomalies } from './anomalies';
+import { parseMp3 } from './id3';
+import { parseIsoBmff } from './isobmff';
+import { parseJpeg } from './jpeg';
+import { parsePng } from './png';
+import { parseWav } from './riff';
+import type { ParsedMetadata } from './tags';
+import type { ContainerMetadata } from './types';
+
+export type { ContainerMetadata, MetadataAnomaly, MetadataAnomalySeverity } from './types';
+
+// JPEG and PNG metadata can sit anywhere in the file, so images are read
+// whole up to this size and only their head beyond it
+const MAX_IMAGE_BYTES = 64 * 1024 * 1024;
+const ISO_BMFF_BOXES = new Set(['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip']);
+
+const parseByMagic = async (file: Blob): Promise<ParsedMetadata | null> => {
+  const head = await readBlobBytes(file, 0, 12);
+  const readImage = () => readBlobBytes(file, 0, Math.min(file.size, MAX_IMAGE_BYTES));
+
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+    return parseJpeg(await readImage());
+  }
+  if (readAscii(head, 1, 3) === 'PNG') {
+    return parsePng(await readImage());
+  }
+  if (ISO_BMFF_BOXES.has(readAscii(head, 4, 4))) {
+    return parseIsoBmff(file);
+  }
+  if (readAscii(head, 0, 4) === 'RIFF' && readAscii(head, 8, 4) === 'WAVE') {
+    return parseWav(file);
+  }
+  if (readAscii(head, 0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) {
+    return parseMp3(file);
+  }
+  return null;
+};
+
+// Parse the metadata embedded in a media file and flag anything suspicious.
+// Returns null for formats without a parser (WebP, WebM, OGG, ...).
+export const extractContainerMetadata = async (file: Blob): Promise<ContainerMetadata | null> => {
+  const parsed = await parseByMagic(file);
+  return parsed && { ...parsed, anomalies: detectMetadataAnomalies(parsed) };
+};
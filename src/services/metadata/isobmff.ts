@@ -0,0 +1,191 @@
+import { readAscii, readBlobBytes, readString, toDataView } from './binary';
+import { applyXmp } from './xmp';
+import { ParsedMetadata, addSoftware, createParsedMetadata, setIfMissing, setTag } from './tags';
+
+// moov is read whole; anything bigger is almost certainly not a real header
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+const CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'udta', 'meta', 'ilst', 'edts']);
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch
+const MAC_EPOCH_OFFSET = 2082844800;
+const XMP_UUID = 'be7acfcb97a942e89c71999491e3afac';
+
+// Item atoms in udta or ilst and the field they describe
+const USER_DATA_ITEMS: Record<string, string> = {
+  '©too': 'Encoder',
+  '©swr': 'Software',
+  '©enc': 'EncodedBy',
+  '©day': 'CreationDate',
+  '©mak': 'Make',
+  '©mod': 'Model',
+  '©xyz': 'Location',
+  '©nam': 'Title',
+  '©cmt': 'Comment',
+};
+const SOFTWARE_ITEMS = new Set(['Encoder', 'Software', 'EncodedBy']);
+
+interface Box {
+  type: string;
+  // Absolute offsets of the payload within the buffer
+  start: number;
+  end: number;
+}
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const view = toDataView(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const toIsoDate = (secondsSince1904: number): string | undefined =>
+  secondsSince1904 > 0 ? new Date((secondsSince1904 - MAC_EPOCH_OFFSET) * 1000).toISOString() : undefined;
+
+// Text of an item atom, either a QuickTime udta string or an iTunes-style
+// atom wrapping a 'data' box
+const readItemText = (bytes: Uint8Array, box: Box): string | undefined => {
+  const children = readBoxes(bytes, box.start, box.end);
+  const data = children.find(child => child.type === 'data');
+  if (data) {
+    return readString(bytes.subarray(data.start + 8, data.end), 'utf-8');
+  }
+  const length = toDataView(bytes).getUint16(box.start);
+  return readString(bytes.subarray(box.start + 4, Math.min(box.end, box.start + 4 + length)), 'utf-8');
+};
+
+// XMP may be stored in a 'uuid' box, at the top level or inside moov
+const applyXmpUuid = (metadata: ParsedMetadata, payload: Uint8Array) => {
+  const uuid = Array.from(payload.subarray(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+  if (uuid === XMP_UUID) {
+    applyXmp(metadata, new TextDecoder('utf-8').decode(payload.subarray(16)));
+  }
+};
+
+const parseMoov = (metadata: ParsedMetadata, bytes: Uint8Array) => {
+  const view = toDataView(bytes);
+  const codecs: string[] = [];
+  const handlers: string[] = [];
+  let keys: string[] = [];
+
+  const visit = (start: number, end: number, parent: string) => {
+    for (const box of readBoxes(bytes, start, end)) {
+      const { type } = box;
+      try {
+        if (type === 'mvhd') {
+          const version = bytes[box.start];
+          const read = (at: number) => version === 1 ? Number(view.getBigUint64(at)) : view.getUint32(at);
+          const fieldSize = version === 1 ? 8 : 4;
+          const createdAt = toIsoDate(read(box.start + 4));
+          const modifiedAt = toIsoDate(read(box.start + 4 + fieldSize));
+          const timescale = view.getUint32(box.start + 4 + fieldSize * 2);
+          const duration = read(box.start + 8 + fieldSize * 2);
+          setIfMissing(metadata, 'createdAt', createdAt);
+          setIfMissing(metadata, 'modifiedAt', modifiedAt);
+          // Many re-encoders zero these; that absence is itself worth showing
+          setTag(metadata, 'QuickTime', 'CreateDate', createdAt ?? 'Not set');
+          setTag(metadata, 'QuickTime', 'ModifyDate', modifiedAt ?? 'Not set');
+          if (timescale > 0) setIfMissing(metadata, 'duration', duration / timescale);
+        } else if (type === 'tkhd') {
+          const widthOffset = box.start + (bytes[box.start] === 1 ? 88 : 76);
+          const width = view.getUint32(widthOffset) / 65536;
+          const height = view.getUint32(widthOffset + 4) / 65536;
+          if (width > 0 && height > 0) {
+            setIfMissing(metadata, 'width', Math.round(width));
+            setIfMissing(metadata, 'height', Math.round(height));
+          }
+        } else if (type === 'hdlr' && parent === 'mdia') {
+          const name = readString(bytes.subarray(box.start + 24, box.end), 'utf-8');
+          handlers.push(`${readAscii(bytes, box.start + 8, 4)}${name ? ` (${name})` : ''}`);
+        } else if (type === 'stsd') {
+          const [entry] = readBoxes(bytes, box.start + 8, box.end);
+          if (entry && !codecs.includes(entry.type)) codecs.push(entry.type);
+        } else if (type === 'keys') {
+          // QuickTime metadata keys; ilst items refer to them by 1-based index
+          keys = readBoxes(bytes, box.start + 8, box.end).map(key => readAscii(bytes, key.start, key.end - key.start));
+        } else if (type === 'uuid') {
+          applyXmpUuid(metadata, bytes.subarray(box.start, box.end));
+        } else if (parent === 'udta' || parent === 'ilst') {
+          // Items under QuickTime 'keys' are typed by their 1-based key index
+          const keyIndex = view.getUint32(box.start - 4);
+          const name = USER_DATA_ITEMS[type] ?? (parent === 'ilst' && keys[keyIndex - 1]);
+          if (name) {
+            const text = readItemText(bytes, box);
+            setTag(metadata, 'QuickTime', name, text);
+            if (SOFTWARE_ITEMS.has(name) || name.endsWith('.software')) addSoftware(metadata, text);
+            if (name === 'Make' || name.endsWith('.make')) setIfMissing(metadata, 'make', text);
+            if (name === 'Model' || name.endsWith('.model')) setIfMissing(metadata, 'model', text);
+          }
+        }
+
+        if (CONTAINER_BOXES.has(type)) {
+          // ISO 'meta' is a full box with four bytes of version and flags
+          // before its children; QuickTime 'meta' is not
+          const isFullBox = type === 'meta' && view.getUint32(box.start) === 0;
+          visit(isFullBox ? box.start + 4 : box.start, box.end, type);
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable ${type} box:`, error);
+      }
+    }
+  };
+
+  visit(0, bytes.length, '');
+  setTag(metadata, 'QuickTime', 'Codecs', codecs.join(', '));
+  setTag(metadata, 'QuickTime', 'Handlers', handlers.join(', '));
+};
+
+// Walk the top-level boxes of an MP4/MOV file, loading only ftyp and moov
+export const parseIsoBmff = async (file: Blob): Promise<ParsedMetadata> => {
+  const metadata = createParsedMetadata('MP4');
+  const topLevel: string[] = [];
+
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBlobBytes(file, offset, offset + 16);
+    const view = toDataView(header);
+    const type = readAscii(header, 4, 4);
+    let size = view.getUint32(0);
+    let headerSize = 8;
+    if (size === 1 && header.length >= 16) {
+      size = Number(view.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+    topLevel.push(type);
+
+    if (type === 'ftyp') {
+      const ftyp = await readBlobBytes(file, offset + headerSize, offset + size);
+      const majorBrand = readAscii(ftyp, 0, 4);
+      // QuickTime files declare 'qt  '; everything else is reported as MP4
+      if (majorBrand === 'qt  ') metadata.format = 'QuickTime';
+      setTag(metadata, 'QuickTime', 'MajorBrand', majorBrand.trim());
+      const compatible: string[] = [];
+      for (let at = 8; at + 4 <= ftyp.length; at += 4) compatible.push(readAscii(ftyp, at, 4).trim());
+      setTag(metadata, 'QuickTime', 'CompatibleBrands', compatible.join(', '));
+    } else if (type === 'moov' && size <= MAX_MOOV_BYTES) {
+      parseMoov(metadata, await readBlobBytes(file, offset + headerSize, offset + size));
+    } else if (type === 'uuid' && size <= MAX_MOOV_BYTES) {
+      applyXmpUuid(metadata, await readBlobBytes(file, offset + headerSize, offset + size));
+    }
+    offset += size;
+  }
+
+  setTag(metadata, 'QuickTime', 'TopLevelBoxes', topLevel.join(', '));
+  return metadata;
+};
+
@@ -0,0 +1,84 @@
+import { concatBytes, readAscii, readString, toDataView } from './binary';
+import { applyExif } from './exif';
+import { applyIccProfile } from './icc';
+import { applyXmp } from './xmp';
+import { ParsedMetadata, addSoftware, createParsedMetadata, setIfMissing, setTag } from './tags';
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+// Comments written by common encoders rather than by people
+const ENCODER_COMMENT_PATTERN = /CREATOR:|gd-jpeg|Lavc|Created with|Optimized by/i;
+
+const isStartOfFrame = (marker: number) =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+// Walk the JPEG marker segments up to the start of the scan data
+export const parseJpeg = (bytes: Uint8Array): ParsedMetadata => {
+  const metadata = createParsedMetadata('JPEG');
+  const view = toDataView(bytes);
+  const iccChunks: Uint8Array[] = [];
+  const appSegments: string[] = [];
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = view.getUint16(offset + 2);
+    const start = offset + 4;
+    const end = Math.min(bytes.length, offset + 2 + length);
+    const segment = bytes.subarray(start, end);
+
+    if (marker >= 0xe0 && marker <= 0xef) {
+      const identifier = readString(segment.subarray(0, 32));
+      appSegments.push(`APP${marker - 0xe0}${identifier ? ` ${identifier}` : ''}`);
+    }
+
+    try {
+      if (marker === 0xe0 && readAscii(segment, 0, 5) === 'JFIF\0') {
+        setTag(metadata, 'JPEG', 'JFIFVersion', `${segment[5]}.${String(segment[6]).padStart(2, '0')}`);
+      } else if (marker === 0xe1 && readAscii(segment, 0, EXIF_HEADER.length) === EXIF_HEADER) {
+        applyExif(metadata, segment.subarray(EXIF_HEADER.length));
+      } else if (marker === 0xe1 && readAscii(segment, 0, XMP_HEADER.length) === XMP_HEADER) {
+        applyXmp(metadata, new TextDecoder('utf-8').decode(segment.subarray(XMP_HEADER.length)));
+      } else if (marker === 0xe2 && readAscii(segment, 0, ICC_HEADER.length) === ICC_HEADER) {
+        // Profiles larger than a segment are split; byte 12 is the 1-based chunk index
+        iccChunks[segment[ICC_HEADER.length] - 1] = segment.subarray(ICC_HEADER.length + 2);
+      } else if (marker === 0xed && readAscii(segment, 0, 13) === 'Photoshop 3.0') {
+        setTag(metadata, 'JPEG', 'PhotoshopResources', `${segment.length} bytes`);
+      } else if (marker === 0xfe) {
+        const comment = readString(segment, 'utf-8');
+        setTag(metadata, 'JPEG', 'Comment', comment);
+        if (ENCODER_COMMENT_PATTERN.test(comment)) addSoftware(metadata, comment);
+      } else if (isStartOfFrame(marker)) {
+        setIfMissing(metadata, 'height', view.getUint16(start + 1));
+        setIfMissing(metadata, 'width', view.getUint16(start + 3));
+        setTag(metadata, 'JPEG', 'Encoding', marker === 0xc2 ? 'Progressive' : marker === 0xc0 ? 'Baseline' : `SOF${marker - 0xc0}`);
+        setTag(metadata, 'JPEG', 'ColorComponents', segment[5]);
+      }
+    } catch (error) {
+      console.warn(`Skipping unreadable JPEG segment 0x${marker.toString(16)}:`, error);
+    }
+    offset = end;
+  }
+
+  if (appSegments.length > 0) {
+    setTag(metadata, 'JPEG', 'Segments', appSegments.join(', '));
+  }
+  // Array.from turns missing chunks into undefined, which every() would otherwise skip
+  if (iccChunks.length > 0 && Array.from(iccChunks).every(Boolean)) {
+    applyIccProfile(metadata, concatBytes(iccChunks));
+  }
+  return metadata;
+};
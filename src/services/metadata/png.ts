@@ -0,0 +1,90 @@
+import { inflate, parseDateString, readAscii, toDataView } from './binary';
+import { applyExif } from './exif';
+import { applyIccProfile } from './icc';
+import { applyXmp } from './xmp';
+import { ParsedMetadata, addSoftware, createParsedMetadata, setIfMissing, setTag } from './tags';
+
+const SIGNATURE_LENGTH = 8;
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+// Long text values (generation workflows can run to tens of kB) are shortened for display
+const MAX_TEXT_LENGTH = 2000;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+// Decode the text chunk variants into keyword and text
+const readTextChunk = async (type: string, data: Uint8Array): Promise<[string, string] | undefined> => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd <= 0) return undefined;
+  const keyword = latin1.decode(data.subarray(0, keywordEnd));
+
+  if (type === 'tEXt') {
+    return [keyword, latin1.decode(data.subarray(keywordEnd + 1))];
+  }
+  if (type === 'zTXt') {
+    return [keyword, latin1.decode(await inflate(data.subarray(keywordEnd + 2)))];
+  }
+  // iTXt: compression flag and method, then language tag and translated keyword
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd === -1 ? -1 : data.indexOf(0, languageEnd + 1);
+  if (translatedEnd === -1) return undefined;
+  const text = data.subarray(translatedEnd + 1);
+  return [keyword, utf8.decode(compressed ? await inflate(text) : text)];
+};
+
+export const parsePng = async (bytes: Uint8Array): Promise<ParsedMetadata> => {
+  const metadata = createParsedMetadata('PNG');
+  const view = toDataView(bytes);
+  const chunkTypes: string[] = [];
+
+  let offset = SIGNATURE_LENGTH;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + length));
+    if (!chunkTypes.includes(type)) chunkTypes.push(type);
+
+    try {
+      if (type === 'IHDR') {
+        const dataView = toDataView(data);
+        metadata.width = dataView.getUint32(0);
+        metadata.height = dataView.getUint32(4);
+        setTag(metadata, 'PNG', 'BitDepth', data[8]);
+        setTag(metadata, 'PNG', 'ColorType', data[9]);
+        setTag(metadata, 'PNG', 'Interlaced', data[12] === 1 ? 'Yes' : 'No');
+      } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+        const entry = await readTextChunk(type, data);
+        if (entry) {
+          const [keyword, text] = entry;
+          if (keyword === XMP_KEYWORD) {
+            applyXmp(metadata, text);
+          } else {
+            setTag(metadata, 'PNG', keyword, text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text);
+            if (keyword === 'Software') addSoftware(metadata, text);
+            if (keyword === 'Creation Time') setIfMissing(metadata, 'createdAt', parseDateString(text));
+          }
+        }
+      } else if (type === 'eXIf') {
+        applyExif(metadata, data);
+      } else if (type === 'iCCP') {
+        const nameEnd = data.indexOf(0);
+        setTag(metadata, 'PNG', 'ICCProfileName', latin1.decode(data.subarray(0, nameEnd)));
+        applyIccProfile(metadata, await inflate(data.subarray(nameEnd + 2)));
+      } else if (type === 'tIME') {
+        const dataView = toDataView(data);
+        const [month, day, hour, minute, second] = Array.from(data.subarray(2, 7), part => String(part).padStart(2, '0'));
+        setIfMissing(metadata, 'modifiedAt', parseDateString(`${dataView.getUint16(0)}-${month}-${day}T${hour}:${minute}:${second}Z`));
+      }
+    } catch (error) {
+      console.warn(`Skipping unreadable PNG chunk ${type}:`, error);
+    }
+
+    if (type === 'IEND') break;
+    // Length, type, data and CRC
+    offset += 12 + length;
+  }
+
+  setTag(metadata, 'PNG', 'Chunks', chunkTypes.join(', '));
+  return metadata;
+};
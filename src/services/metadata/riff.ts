@@ -0,0 +1,99 @@
+import { parseDateString, readAscii, readBlobBytes, readString, toDataView } from './binary';
+import { applyId3v2 } from './id3';
+import { ParsedMetadata, addSoftware, createParsedMetadata, setIfMissing, setTag } from './tags';
+
+// Metadata chunks are small; larger ones are skipped rather than read
+const MAX_CHUNK_BYTES = 1024 * 1024;
+
+const INFO_TAGS: Record<string, string> = {
+  INAM: 'Title',
+  IART: 'Artist',
+  ICMT: 'Comment',
+  ICRD: 'CreationDate',
+  IENG: 'Engineer',
+  ISFT: 'Software',
+  ITCH: 'Technician',
+  ICOP: 'Copyright',
+};
+
+const AUDIO_FORMATS: Record<number, string> = {
+  0x0001: 'PCM',
+  0x0003: 'IEEE float',
+  0x0006: 'A-law',
+  0x0007: 'µ-law',
+  0x0055: 'MPEG Layer 3',
+  0xfffe: 'Extensible',
+};
+
+const applyInfoList = (metadata: ParsedMetadata, list: Uint8Array) => {
+  const view = toDataView(list);
+  let offset = 4;
+  while (offset + 8 <= list.length) {
+    const id = readAscii(list, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const value = readString(list.subarray(offset + 8, offset + 8 + size), 'utf-8');
+    const name = INFO_TAGS[id] ?? id;
+    setTag(metadata, 'RIFF', name, value);
+    if (id === 'ISFT') addSoftware(metadata, value);
+    if (id === 'ICRD') setIfMissing(metadata, 'createdAt', parseDateString(value));
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+};
+
+// Broadcast Wave extension: originator and origination date
+const applyBext = (metadata: ParsedMetadata, bext: Uint8Array) => {
+  setTag(metadata, 'RIFF', 'Description', readString(bext.subarray(0, 256)));
+  const originator = readString(bext.subarray(256, 288));
+  setTag(metadata, 'RIFF', 'Originator', originator);
+  addSoftware(metadata, originator);
+  const date = readString(bext.subarray(320, 330));
+  const time = readString(bext.subarray(330, 338));
+  setTag(metadata, 'RIFF', 'OriginationDate', `${date} ${time}`.trim());
+  setIfMissing(metadata, 'createdAt', parseDateString(`${date} ${time.replace(/[-.]/g, ':')}`));
+};
+
+// Walk the chunks of a RIFF/WAVE file, reading only the small metadata chunks
+export const parseWav = async (file: Blob): Promise<ParsedMetadata> => {
+  const metadata = createParsedMetadata('WAV');
+  const chunkIds: string[] = [];
+  let byteRate = 0;
+
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const header = await readBlobBytes(file, offset, offset + 8);
+    const id = readAscii(header, 0, 4);
+    const size = toDataView(header).getUint32(4, true);
+    chunkIds.push(id.trim());
+    const readChunk = () => readBlobBytes(file, offset + 8, offset + 8 + size);
+
+    try {
+      if (id === 'fmt ') {
+        const fmt = toDataView(await readChunk());
+        const format = fmt.getUint16(0, true);
+        byteRate = fmt.getUint32(8, true);
+        setTag(metadata, 'RIFF', 'AudioFormat', AUDIO_FORMATS[format] ?? `0x${format.toString(16)}`);
+        setTag(metadata, 'RIFF', 'Channels', fmt.getUint16(2, true));
+        setTag(metadata, 'RIFF', 'SampleRate', `${fmt.getUint32(4, true)} Hz`);
+        setTag(metadata, 'RIFF', 'BitsPerSample', fmt.getUint16(14, true));
+      } else if (id === 'data' && byteRate > 0) {
+        metadata.duration = size / byteRate;
+      } else if (size <= MAX_CHUNK_BYTES) {
+        if (id === 'LIST') {
+          const list = await readChunk();
+          if (readAscii(list, 0, 4) === 'INFO') applyInfoList(metadata, list);
+        } else if (id === 'bext') {
+          applyBext(metadata, await readChunk());
+        } else if (id === 'id3 ' || id === 'ID3 ') {
+          applyId3v2(metadata, await readChunk());
+        }
+      }
+    } catch (error) {
+      console.warn(`Skipping unreadable RIFF chunk ${id}:`, error);
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  setTag(metadata, 'RIFF', 'Chunks', chunkIds.join(', '));
+  return metadata;
+};
@@ -0,0 +1,24 @@
+import type { ContainerMetadata } from './types';
+
+export type ParsedMetadata = Omit<ContainerMetadata, 'anomalies'>;
+
+export const createParsedMetadata = (format: string): ParsedMetadata => ({ format, software: [], groups: {} });
+
+export const setTag = (metadata: ParsedMetadata, group: string, key: string, value: string | number | undefined) => {
+  if (value === undefined || value === '') return;
+  (metadata.groups[group] ??= {})[key] = String(value);
+};
+
+export const addSoftware = (metadata: ParsedMetadata, software: string | undefined) => {
+  const name = software?.trim();
+  if (name && !metadata.software.includes(name)) {
+    metadata.software.push(name);
+  }
+};
+
+// The first value found wins; containers repeat the same facts in several places
+export const setIfMissing = <K extends keyof ParsedMetadata>(metadata: ParsedMetadata, key: K, value: ParsedMetadata[K] | undefined) => {
+  if (value !== undefined && value !== '' && metadata[key] === undefined) {
+    metadata[key] = value;
+  }
+};
@@ -0,0 +1,30 @@
+export type MetadataAnomalySeverity = 'info' | 'warning' | 'critical';
+
+export interface MetadataAnomaly {
+  // Stable rule identifier, e.g. 'editing_software'
+  id: string;
+  severity: MetadataAnomalySeverity;
+  message: string;
+}
+
+// Raw tags grouped by where they were found ('EXIF', 'XMP', 'ICC', 'ID3', ...)
+export type MetadataGroups = Record<string, Record<string, string>>;
+
+// What the file's own headers say about it, independent of the pixels or samples
+export interface ContainerMetadata {
+  // Detected from the magic bytes, e.g. 'JPEG', 'MP4', 'WAV'
+  format: string;
+  width?: number;
+  height?: number;
+  // Seconds
+  duration?: number;
+  make?: string;
+  model?: string;
+  // Authoring, editing and encoding tools, in the order they were found
+  software: string[];
+  // ISO 8601
+  createdAt?: string;
+  modifiedAt?: string;
+  groups: MetadataGroups;
+  anomalies: MetadataAnomaly[];
+}
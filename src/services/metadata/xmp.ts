@@ -0,0 +1,33 @@
+import { parseDateString } from './binary';
+import { ParsedMetadata, addSoftware, setIfMissing, setTag } from './tags';
+
+const ATTRIBUTE_PATTERN = /([A-Za-z][\w-]*:[A-Za-z][\w-]*)="([^"]*)"/g;
+const ELEMENT_PATTERN = /<([A-Za-z][\w-]*:[A-Za-z][\w-]*)(?:\s[^>]*)?>([^<]+)<\/\1>/g;
+// Structural and namespace attributes carry no information of their own
+const IGNORED_PREFIXES = ['xmlns:', 'rdf:', 'x:', 'xml:'];
+const SOFTWARE_KEYS = ['xmp:CreatorTool', 'stEvt:softwareAgent', 'photoshop:History', 'pdf:Producer'];
+
+// Pull simple properties out of an XMP packet. XMP is RDF/XML, but a
+// property is always either an attribute or a text-only element, so a full
+// XML parse is not needed for the flat view shown here.
+export const applyXmp = (metadata: ParsedMetadata, packet: string) => {
+  const values: [string, string][] = [];
+  for (const [, key, value] of packet.matchAll(ATTRIBUTE_PATTERN)) values.push([key, value]);
+  for (const [, key, value] of packet.matchAll(ELEMENT_PATTERN)) values.push([key, value.trim()]);
+
+  for (const [key, value] of values) {
+    if (!value || IGNORED_PREFIXES.some(prefix => key.startsWith(prefix))) continue;
+    if (SOFTWARE_KEYS.includes(key)) {
+      addSoftware(metadata, value);
+    }
+    // Repeated properties (history entries) are listed together
+    const existing = metadata.groups.XMP?.[key];
+    setTag(metadata, 'XMP', key, existing && !existing.split('; ').includes(value) ? `${existing}; ${value}` : value);
+  }
+
+  const xmp = metadata.groups.XMP ?? {};
+  setIfMissing(metadata, 'createdAt', parseDateString(xmp['xmp:CreateDate'] ?? xmp['photoshop:DateCreated']));
+  setIfMissing(metadata, 'modifiedAt', parseDateString(xmp['xmp:ModifyDate']));
+  setIfMissing(metadata, 'make', xmp['tiff:Make']);
+  setIfMissing(metadata, 'model', xmp['tiff:Model']);
+};
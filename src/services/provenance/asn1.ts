@@ -0,0 +1,99 @@
+// DER reader for the parts of X.509 certificates that chain validation needs
+
+export const ASN1_TAGS = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+} as const;
+
+export interface Asn1Node {
+  // Identifier octet, including class and constructed bits
+  tag: number;
+  // The whole encoded element, header included
+  der: Uint8Array;
+  // The value octets
+  content: Uint8Array;
+}
+
+export const readNode = (bytes: Uint8Array, offset = 0): Asn1Node => {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) throw new Error('Unsupported DER length');
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + bytes[offset + 2 + i];
+    headerLength += lengthBytes;
+  }
+  const end = offset + headerLength + length;
+  if (end > bytes.length) throw new Error('DER element runs past the end of the data');
+  return {
+    tag,
+    der: bytes.subarray(offset, end),
+    content: bytes.subarray(offset + headerLength, end),
+  };
+};
+
+export const readChildren = (node: Asn1Node): Asn1Node[] => {
+  const children: Asn1Node[] = [];
+  let offset = 0;
+  while (offset < node.content.length) {
+    const child = readNode(node.content, offset);
+    children.push(child);
+    offset += child.der.length;
+  }
+  return children;
+};
+
+export const readOid = (node: Asn1Node): string => {
+  const { content } = node;
+  const parts = [Math.floor(content[0] / 40), content[0] % 40];
+  let value = 0;
+  for (let i = 1; i < content.length; i++) {
+    value = value * 128 + (content[i] & 0x7f);
+    if (!(content[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+};
+
+export const readTime = (node: Asn1Node): Date => {
+  const text = new TextDecoder('latin1').decode(node.content);
+  // UTCTime has a two-digit year: 50-99 are 19xx, 00-49 are 20xx
+  const full = node.tag === ASN1_TAGS.UTC_TIME ? `${Number(text.slice(0, 2)) >= 50 ? '19' : '20'}${text}` : text;
+  const [, year, month, day, hour, minute, second = '00'] = full.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?/) ?? [];
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+};
+
+export const readText = (node: Asn1Node): string =>
+  new TextDecoder(node.tag === ASN1_TAGS.UTF8_STRING ? 'utf-8' : 'latin1').decode(node.content);
+
+// BIT STRING contents without the leading unused-bits octet
+export const readBitString = (node: Asn1Node): Uint8Array => node.content.subarray(1);
+
+// Minimal DER writer, used to re-wrap keys and signatures for WebCrypto
+export const encodeNode = (tag: number, content: Uint8Array): Uint8Array => {
+  const length = content.length;
+  const header = length < 0x80
+    ? [tag, length]
+    : length < 0x100 ? [tag, 0x81, length]
+    : length < 0x10000 ? [tag, 0x82, length >> 8, length & 0xff]
+    : [tag, 0x83, length >> 16, (length >> 8) & 0xff, length & 0xff];
+  const encoded = new Uint8Array(header.length + length);
+  encoded.set(header);
+  encoded.set(content, header.length);
+  return encoded;
+};
@@ -0,0 +1,149 @@
+import { concatBytes } from '../metadata/binary';
+
+// Minimal CBOR (RFC 8949) codec for C2PA claims, assertions and COSE
+// structures. Maps decode to plain objects keyed by the stringified key.
+
+export class CborTag {
+  constructor(public readonly tag: number, public readonly value: CborValue) {}
+}
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborTag
+  | CborValue[]
+  | { [key: string]: CborValue };
+
+const utf8 = new TextDecoder('utf-8');
+// Marks the end of an indefinite-length item
+const BREAK = Symbol('break');
+
+const readHalfFloat = (bits: number) => {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+};
+
+export const decodeCbor = (bytes: Uint8Array): CborValue => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    const at = offset;
+    switch (info) {
+      case 24: offset += 1; return view.getUint8(at);
+      case 25: offset += 2; return view.getUint16(at);
+      case 26: offset += 4; return view.getUint32(at);
+      case 27: offset += 8; return Number(view.getBigUint64(at));
+      default: throw new Error(`Invalid CBOR length encoding ${info}`);
+    }
+  };
+
+  const readChunks = (major: number, info: number): Uint8Array => {
+    if (info !== 31) {
+      const length = readLength(info);
+      if (offset + length > bytes.length) throw new Error('CBOR string runs past the end of the data');
+      offset += length;
+      return bytes.subarray(offset - length, offset);
+    }
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const chunk = readItem();
+      if (chunk === BREAK) break;
+      chunks.push(major === 3 ? new TextEncoder().encode(chunk as string) : chunk as Uint8Array);
+    }
+    return concatBytes(chunks);
+  };
+
+  const readItem = (): CborValue | typeof BREAK => {
+    if (offset >= bytes.length) throw new Error('Unexpected end of CBOR data');
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2:
+        return readChunks(major, info);
+      case 3:
+        return utf8.decode(readChunks(major, info));
+      case 4: {
+        const items: CborValue[] = [];
+        const count = info === 31 ? Infinity : readLength(info);
+        for (let i = 0; i < count; i++) {
+          const item = readItem();
+          if (item === BREAK) break;
+          items.push(item);
+        }
+        return items;
+      }
+      case 5: {
+        const map: { [key: string]: CborValue } = {};
+        const count = info === 31 ? Infinity : readLength(info);
+        for (let i = 0; i < count; i++) {
+          const key = readItem();
+          if (key === BREAK) break;
+          map[String(key)] = readItem() as CborValue;
+        }
+        return map;
+      }
+      case 6: {
+        const tag = readLength(info);
+        return new CborTag(tag, readItem() as CborValue);
+      }
+      default: {
+        switch (info) {
+          case 20: return false;
+          case 21: return true;
+          case 22: return null;
+          case 23: return undefined;
+          case 25: offset += 2; return readHalfFloat(view.getUint16(offset - 2));
+          case 26: offset += 4; return view.getFloat32(offset - 4);
+          case 27: offset += 8; return view.getFloat64(offset - 8);
+          case 31: return BREAK;
+          default: return info < 24 ? info : readLength(info);
+        }
+      }
+    }
+  };
+
+  const value = readItem();
+  if (value === BREAK) throw new Error('Unexpected CBOR break');
+  return value;
+};
+
+const encodeHeader = (major: number, length: number): number[] => {
+  if (length < 24) return [(major << 5) | length];
+  if (length < 0x100) return [(major << 5) | 24, length];
+  if (length < 0x10000) return [(major << 5) | 25, length >> 8, length & 0xff];
+  return [(major << 5) | 26, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff];
+};
+
+// Encode the subset needed to rebuild COSE Sig_structures: arrays, text and byte strings
+export const encodeCbor = (value: string | Uint8Array | (string | Uint8Array)[]): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  const write = (item: string | Uint8Array | (string | Uint8Array)[]) => {
+    if (Array.isArray(item)) {
+      parts.push(new Uint8Array(encodeHeader(4, item.length)));
+      item.forEach(write);
+    } else if (typeof item === 'string') {
+      const text = new TextEncoder().encode(item);
+      parts.push(new Uint8Array(encodeHeader(3, text.length)), text);
+    } else {
+      parts.push(new Uint8Array(encodeHeader(2, item.length)), item);
+    }
+  };
+  write(value);
+  return concatBytes(parts);
+};
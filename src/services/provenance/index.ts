@@ -0,0 +1,290 @@
+import { loadSettings } from '../settingsService';
+import { concatBytes, readBlobBytes } from '../metadata/binary';
+import { CborTag, CborValue, decodeCbor, encodeCbor } from './cbor';
+import { JumbfBox, findManifestStore, parseJumbf } from './jumbf';
+import {
+  Certificate,
+  SignatureAlgorithm,
+  bytesEqual,
+  parseCertificate,
+  parsePemCertificates,
+  verifyCertificateSignature,
+  verifySignature,
+} from './x509';
+import type { ProvenanceAction, ProvenanceIngredient, ProvenanceSummary } from './types';
+
+export type { ProvenanceAction, ProvenanceIngredient, ProvenanceStatus, ProvenanceSummary } from './types';
+
+type CborMap = { [key: string]: CborValue };
+
+// COSE algorithm identifiers allowed by C2PA
+const COSE_ALGORITHMS: Record<number, SignatureAlgorithm> = {
+  [-7]: { name: 'ECDSA', hash: 'SHA-256' },
+  [-35]: { name: 'ECDSA', hash: 'SHA-384' },
+  [-36]: { name: 'ECDSA', hash: 'SHA-512' },
+  [-37]: { name: 'RSA-PSS', hash: 'SHA-256', saltLength: 32 },
+  [-38]: { name: 'RSA-PSS', hash: 'SHA-384', saltLength: 48 },
+  [-39]: { name: 'RSA-PSS', hash: 'SHA-512', saltLength: 64 },
+  [-8]: { name: 'Ed25519' },
+};
+const COSE_SIGN1_TAG = 18;
+const COSE_ALG_HEADER = '1';
+const COSE_X5CHAIN_HEADER = '33';
+const HASH_ALGORITHMS: Record<string, string> = { sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' };
+const GENERATIVE_SOURCE_TYPE = /(trainedAlgorithmicMedia|compositeWithTrainedAlgorithmicMedia)$/;
+const MAX_CHAIN_DEPTH = 8;
+// Data hashes are only checked for files that fit comfortably in memory
+const MAX_HASHED_BYTES = 256 * 1024 * 1024;
+
+const asMap = (value: CborValue): CborMap =>
+  value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array) && !(value instanceof CborTag)
+    ? value as CborMap
+    : {};
+
+const asString = (value: CborValue): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const readContent = (box: JumbfBox | undefined): CborValue => {
+  const content = box?.contents[0];
+  if (!content) return undefined;
+  if (content.type === 'cbor') return decodeCbor(content.data);
+  if (content.type === 'json') return JSON.parse(new TextDecoder('utf-8').decode(content.data));
+  return undefined;
+};
+
+// Assertion labels may carry an instance suffix, e.g. 'c2pa.ingredient__1'
+const baseLabel = (label = '') => label.replace(/__\d+$/, '');
+
+const digest = async (algorithm: string, data: Uint8Array): Promise<Uint8Array> => {
+  const name = HASH_ALGORITHMS[algorithm];
+  if (!name) throw new Error(`Unsupported hash algorithm ${algorithm}`);
+  return new Uint8Array(await crypto.subtle.digest(name, data));
+};
+
+const readAgent = (agent: CborValue): string | undefined => {
+  if (typeof agent === 'string') return agent;
+  const { name, version } = asMap(agent);
+  return asString(name) && [name, version].filter(Boolean).join(' ');
+};
+
+const readClaimGenerator = (claim: CborMap): string | undefined => {
+  if (typeof claim.claim_generator === 'string') return claim.claim_generator;
+  const info = claim.claim_generator_info;
+  return readAgent(Array.isArray(info) ? info[0] : info);
+};
+
+const readActions = (assertions: JumbfBox[]): ProvenanceAction[] =>
+  assertions
+    .filter(box => baseLabel(box.label).startsWith('c2pa.actions'))
+    .flatMap(box => {
+      const { actions } = asMap(readContent(box));
+      return Array.isArray(actions) ? actions.map(asMap) : [];
+    })
+    .map(action => ({
+      action: asString(action.action) ?? 'unknown',
+      softwareAgent: readAgent(action.softwareAgent),
+      digitalSourceType: asString(action.digitalSourceType),
+      when: asString(action.when),
+    }));
+
+const readIngredients = (assertions: JumbfBox[]): ProvenanceIngredient[] =>
+  assertions
+    .filter(box => baseLabel(box.label).startsWith('c2pa.ingredient'))
+    .map(box => {
+      const ingredient = asMap(readContent(box));
+      return {
+        title: asString(ingredient['dc:title'] ?? ingredient.title),
+        format: asString(ingredient['dc:format'] ?? ingredient.format),
+        relationship: asString(ingredient.relationship),
+      };
+    });
+
+// The claim lists every assertion with a hash of its JUMBF superbox payload.
+// Returns the assertions whose hash verified; only those are read, so boxes
+// added to the store after signing cannot speak for the manifest.
+const checkAssertionHashes = async (claim: CborMap, assertions: JumbfBox[], errors: string[]): Promise<JumbfBox[]> => {
+  const references = [claim.assertions, claim.created_assertions, claim.gathered_assertions]
+    .flatMap(list => (Array.isArray(list) ? list.map(asMap) : []));
+  const defaultAlgorithm = asString(claim.alg) ?? 'sha256';
+  const referencedLabels = new Set<string>();
+  const verified: JumbfBox[] = [];
+
+  for (const reference of references) {
+    const label = asString(reference.url)?.split('/').pop();
+    if (label) referencedLabels.add(label);
+    const boxes = label ? assertions.filter(assertion => assertion.label === label) : [];
+    if (boxes.length !== 1 || !(reference.hash instanceof Uint8Array)) {
+      errors.push(boxes.length > 1
+        ? `Assertion ${label} appears more than once in the manifest.`
+        : `Assertion ${label ?? '(unnamed)'} referenced by the claim is missing.`);
+      continue;
+    }
+    const hash = await digest(asString(reference.alg) ?? defaultAlgorithm, boxes[0].payload);
+    if (bytesEqual(hash, reference.hash)) {
+      verified.push(boxes[0]);
+    } else {
+      errors.push(`Assertion ${label} was modified after signing.`);
+    }
+  }
+
+  for (const { label } of assertions) {
+    if (!label || !referencedLabels.has(label)) {
+      errors.push(`Assertion ${label ?? '(unnamed)'} is not referenced by the claim.`);
+    }
+  }
+  return verified;
+};
+
+// Hash the asset minus the excluded ranges (the manifest store itself)
+const checkDataHash = async (file: Blob, claim: CborMap, assertions: JumbfBox[]): Promise<ProvenanceSummary['contentBinding']> => {
+  const box = assertions.find(assertion => baseLabel(assertion.label) === 'c2pa.hash.data');
+  const dataHash = asMap(readContent(box));
+  if (!(dataHash.hash instanceof Uint8Array) || file.size > MAX_HASHED_BYTES) return 'unchecked';
+
+  const exclusions = (Array.isArray(dataHash.exclusions) ? dataHash.exclusions.map(asMap) : [])
+    .map(({ start, length }) => ({ start: Number(start), length: Number(length) }))
+    .sort((a, b) => a.start - b.start);
+  const parts: Uint8Array[] = [];
+  let position = 0;
+  for (const { start, length } of exclusions) {
+    parts.push(await readBlobBytes(file, position, start));
+    position = start + length;
+  }
+  parts.push(await readBlobBytes(file, position, file.size));
+
+  const algorithm = asString(dataHash.alg) ?? asString(claim.alg) ?? 'sha256';
+  return bytesEqual(await digest(algorithm, concatBytes(parts)), dataHash.hash) ? 'match' : 'mismatch';
+};
+
+const findIssuer = async (certificate: Certificate, candidates: Certificate[]): Promise<Certificate | undefined> => {
+  for (const candidate of candidates) {
+    if (bytesEqual(candidate.subjectDer, certificate.issuerDer) && await verifyCertificateSignature(certificate, candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+// Follow issuers from the signing certificate through the supplied
+// intermediates until one is, or is signed by, a trust anchor
+const isChainTrusted = async (chain: Certificate[], anchors: Certificate[]): Promise<boolean> => {
+  const intermediates = chain.slice(1).filter(certificate => certificate.isCa);
+  let current = chain[0];
+  for (let depth = 0; depth < MAX_CHAIN_DEPTH && current; depth++) {
+    if (anchors.some(anchor => bytesEqual(anchor.der, current.der))) return true;
+    if (await findIssuer(current, anchors)) return true;
+    current = await findIssuer(current, intermediates);
+  }
+  return false;
+};
+
+// Check the COSE_Sign1 signature over the claim and the certificate chain
+// carried in its x5chain header
+const checkSignature = async (
+  signatureBox: JumbfBox | undefined,
+  claimBytes: Uint8Array,
+  anchors: Certificate[],
+  errors: string[],
+  trustErrors: string[]
+): Promise<Certificate | undefined> => {
+  let cose = readContent(signatureBox);
+  if (cose instanceof CborTag && cose.tag === COSE_SIGN1_TAG) cose = cose.value;
+  if (!Array.isArray(cose) || cose.length !== 4) {
+    errors.push('The claim signature is missing or malformed.');
+    return undefined;
+  }
+
+  const [protectedBytes, unprotected, , signature] = cose;
+  const protectedHeader = protectedBytes instanceof Uint8Array && protectedBytes.length > 0 ? asMap(decodeCbor(protectedBytes)) : {};
+  const algorithm = COSE_ALGORITHMS[Number(protectedHeader[COSE_ALG_HEADER])];
+  const x5chain = protectedHeader[COSE_X5CHAIN_HEADER] ?? asMap(unprotected)[COSE_X5CHAIN_HEADER];
+  const chain = (Array.isArray(x5chain) ? x5chain : [x5chain])
+    .filter((der): der is Uint8Array => der instanceof Uint8Array)
+    .map(parseCertificate);
+  if (!algorithm || chain.length === 0 || !(signature instanceof Uint8Array)) {
+    errors.push('The claim signature uses an unsupported algorithm or has no certificate.');
+    return chain[0];
+  }
+
+  // The claim is the detached payload of the Sig_structure
+  const toBeSigned = encodeCbor(['Signature1', protectedBytes as Uint8Array, new Uint8Array(), claimBytes]);
+  try {
+    if (!await verifySignature(chain[0].spki, algorithm, signature, toBeSigned)) {
+      errors.push('The claim signature does not verify.');
+    }
+  } catch (error) {
+    console.warn('Claim signature could not be checked:', error);
+    errors.push('The claim signature could not be checked in this browser.');
+  }
+
+  const now = new Date();
+  for (const certificate of chain) {
+    if (now < certificate.notBefore || now > certificate.notAfter) {
+      trustErrors.push(`Certificate "${certificate.subject}" is outside its validity period.`);
+    }
+  }
+  if (anchors.length === 0) {
+    trustErrors.push('No C2PA trust anchors are configured.');
+  } else if (!await isChainTrusted(chain, anchors)) {
+    trustErrors.push('The signing certificate does not chain to a configured trust anchor.');
+  }
+  return chain[0];
+};
+
+// Read and verify the C2PA manifest store embedded in a file. Returns null
+// when the file carries no manifest.
+export const readContentCredentials = async (
+  file: Blob,
+  trustAnchorsPem = loadSettings().c2paTrustAnchors
+): Promise<ProvenanceSummary | null> => {
+  const storeBytes = await findManifestStore(file);
+  if (!storeBytes) return null;
+
+  const store = parseJumbf(storeBytes);
+  // The last manifest in the store is the active one
+  const manifest = store.children[store.children.length - 1];
+  const errors: string[] = [];
+  const trustErrors: string[] = [];
+  const summary: ProvenanceSummary = {
+    status: 'invalid',
+    errors,
+    manifestLabel: manifest?.label ?? 'unknown',
+    manifestCount: store.children.length,
+    actions: [],
+    ingredients: [],
+    isAiGenerated: false,
+    contentBinding: 'unchecked',
+  };
+  const claimBox = manifest?.children.find(box => box.label?.startsWith('c2pa.claim'));
+  const claimBytes = claimBox?.contents.find(content => content.type === 'cbor')?.data;
+  if (!claimBytes) {
+    errors.push('The manifest has no claim.');
+    return summary;
+  }
+
+  const claim = asMap(decodeCbor(claimBytes));
+  const storedAssertions = manifest.children.find(box => box.label === 'c2pa.assertions')?.children ?? [];
+  const assertions = await checkAssertionHashes(claim, storedAssertions, errors);
+  summary.title = asString(claim['dc:title']);
+  summary.format = asString(claim['dc:format']);
+  summary.claimGenerator = readClaimGenerator(claim);
+  summary.actions = readActions(assertions);
+  summary.ingredients = readIngredients(assertions);
+  summary.isAiGenerated = summary.actions.some(({ digitalSourceType }) => GENERATIVE_SOURCE_TYPE.test(digitalSourceType ?? ''));
+
+  summary.contentBinding = await checkDataHash(file, claim, assertions);
+  if (summary.contentBinding === 'mismatch') {
+    errors.push('The file content was changed after the manifest was signed.');
+  } else if (summary.contentBinding === 'unchecked') {
+    // Without the content hash the manifest may have been lifted from another file
+    trustErrors.push('The manifest could not be checked against the file content (no supported content hash, or the file is too large).');
+  }
+
+  const signatureBox = manifest.children.find(box => box.label === 'c2pa.signature');
+  const signer = await checkSignature(signatureBox, claimBytes, parsePemCertificates(trustAnchorsPem), errors, trustErrors);
+  summary.signer = signer?.subject;
+  summary.issuer = signer?.issuer;
+
+  summary.status = errors.length > 0 ? 'invalid' : trustErrors.length > 0 ? 'untrusted' : 'valid';
+  errors.push(...trustErrors);
+  return summary;
+};
@@ -0,0 +1,183 @@
+import { concatBytes, readAscii, readBlobBytes, toDataView } from '../metadata/binary';
+
+// Manifest stores are small; anything larger is not read
+const MAX_STORE_BYTES = 16 * 1024 * 1024;
+// usertype of the ISO BMFF 'uuid' box holding a C2PA manifest store
+const C2PA_BMFF_UUID = 'd8fec3d61b0e483c92975828877ec481';
+// Description box toggle bit for a label; the id and hash fields that may
+// follow the label are not needed
+const JUMBF_LABEL_FLAG = 0x02;
+
+export interface JumbfBox {
+  label?: string;
+  // Description box type UUID, as hex
+  type: string;
+  // Payload of the superbox: description box and content boxes, without
+  // the superbox header. C2PA assertion hashes cover exactly these bytes.
+  payload: Uint8Array;
+  // Non-superbox content ('cbor', 'json', 'bidb', ...)
+  contents: { type: string; data: Uint8Array }[];
+  children: JumbfBox[];
+}
+
+interface RawBox {
+  type: string;
+  data: Uint8Array;
+}
+
+const readRawBoxes = (bytes: Uint8Array): RawBox[] => {
+  const view = toDataView(bytes);
+  const boxes: RawBox[] = [];
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    if (size < headerSize || offset + size > bytes.length) break;
+    boxes.push({ type: readAscii(bytes, offset + 4, 4), data: bytes.subarray(offset + headerSize, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const parseSuperbox = (payload: Uint8Array): JumbfBox => {
+  const [description, ...rest] = readRawBoxes(payload);
+  if (!description || description.type !== 'jumd') throw new Error('JUMBF superbox lacks a description box');
+
+  const { data } = description;
+  const toggles = data[16];
+  let label: string | undefined;
+  if (toggles & JUMBF_LABEL_FLAG) {
+    const end = data.indexOf(0, 17);
+    label = new TextDecoder('utf-8').decode(data.subarray(17, end === -1 ? data.length : end));
+  }
+
+  const box: JumbfBox = { label, type: toHex(data.subarray(0, 16)), payload, contents: [], children: [] };
+  for (const child of rest) {
+    if (child.type === 'jumb') {
+      box.children.push(parseSuperbox(child.data));
+    } else {
+      box.contents.push(child);
+    }
+  }
+  return box;
+};
+
+// Parse a complete JUMBF 'jumb' box (header included)
+export const parseJumbf = (bytes: Uint8Array): JumbfBox => {
+  const [root] = readRawBoxes(bytes);
+  if (!root || root.type !== 'jumb') throw new Error('Not a JUMBF superbox');
+  return parseSuperbox(root.data);
+};
+
+// JPEG: APP11 segments carrying 'JP' JUMBF fragments, reassembled by box
+// instance and sequence number. Continuation fragments repeat the box header.
+const findInJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  const view = toDataView(bytes);
+  const instances = new Map<number, { sequence: number; data: Uint8Array }[]>();
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xeb && readAscii(segment, 0, 2) === 'JP') {
+      const segmentView = toDataView(segment);
+      const instance = segmentView.getUint16(2);
+      const fragments = instances.get(instance) ?? [];
+      fragments.push({ sequence: segmentView.getUint32(4), data: segment.subarray(8) });
+      instances.set(instance, fragments);
+    }
+    offset += 2 + length;
+  }
+
+  for (const fragments of instances.values()) {
+    fragments.sort((a, b) => a.sequence - b.sequence);
+    const [first, ...rest] = fragments;
+    if (readAscii(first.data, 4, 4) !== 'jumb') continue;
+    const headerSize = toDataView(first.data).getUint32(0) === 1 ? 16 : 8;
+    return concatBytes([first.data, ...rest.map(({ data }) => data.subarray(headerSize))]);
+  }
+  return null;
+};
+
+// PNG: the whole store in one 'caBX' chunk
+const findInPng = (bytes: Uint8Array): Uint8Array | null => {
+  const view = toDataView(bytes);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    if (type === 'caBX') return bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+};
+
+// ISO BMFF: a top-level 'uuid' box with the C2PA usertype, then version and
+// flags, a purpose string and a merkle offset before the store
+const findInBmff = async (file: Blob): Promise<Uint8Array | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBlobBytes(file, offset, offset + 32);
+    const view = toDataView(header);
+    let size = view.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+    if (readAscii(header, 4, 4) === 'uuid' && toHex(header.subarray(headerSize, headerSize + 16)) === C2PA_BMFF_UUID && size <= MAX_STORE_BYTES) {
+      const box = await readBlobBytes(file, offset + headerSize + 16, offset + size);
+      const purposeEnd = box.indexOf(0, 4);
+      // Only the 'manifest' purpose box holds the store; 'merkle' boxes hold hashes
+      if (readAscii(box, 4, purposeEnd - 4) === 'manifest') return box.subarray(purposeEnd + 1 + 8);
+    }
+    offset += size;
+  }
+  return null;
+};
+
+// RIFF (WAV): a 'C2PA' chunk
+const findInRiff = async (file: Blob): Promise<Uint8Array | null> => {
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const header = await readBlobBytes(file, offset, offset + 8);
+    const size = toDataView(header).getUint32(4, true);
+    if (readAscii(header, 0, 4) === 'C2PA' && size <= MAX_STORE_BYTES) {
+      return readBlobBytes(file, offset + 8, offset + 8 + size);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+// Locate the embedded C2PA manifest store; null when the file has none or
+// its format cannot carry one here
+export const findManifestStore = async (file: Blob): Promise<Uint8Array | null> => {
+  const head = await readBlobBytes(file, 0, 12);
+  if (head[0] === 0xff && head[1] === 0xd8) {
+    return findInJpeg(await readBlobBytes(file, 0, Math.min(file.size, MAX_STORE_BYTES * 4)));
+  }
+  if (readAscii(head, 1, 3) === 'PNG') {
+    return findInPng(await readBlobBytes(file, 0, Math.min(file.size, MAX_STORE_BYTES * 4)));
+  }
+  if (readAscii(head, 0, 4) === 'RIFF') {
+    return findInRiff(file);
+  }
+  if (['ftyp', 'moov', 'mdat', 'free', 'wide'].includes(readAscii(head, 4, 4))) {
+    return findInBmff(file);
+  }
+  return null;
+};
@@ -0,0 +1,42 @@
+// 'valid': the signature verifies, the chain reaches a configured trust anchor
+// and every hash, including the one over the content, matches. 'untrusted':
+// intact, but the signer is not trusted here, its certificate is out of date
+// or the content hash could not be checked. 'invalid': a signature or hash check failed.
+export type ProvenanceStatus = 'valid' | 'untrusted' | 'invalid';
+
+export interface ProvenanceAction {
+  // e.g. 'c2pa.created', 'c2pa.edited'
+  action: string;
+  softwareAgent?: string;
+  // IPTC digital source type URI
+  digitalSourceType?: string;
+  when?: string;
+}
+
+export interface ProvenanceIngredient {
+  title?: string;
+  format?: string;
+  // 'parentOf', 'componentOf' or 'inputTo'
+  relationship?: string;
+}
+
+// The active C2PA manifest of a file, as shown next to the ML verdict
+export interface ProvenanceSummary {
+  status: ProvenanceStatus;
+  // Reasons the status is not 'valid'
+  errors: string[];
+  manifestLabel: string;
+  manifestCount: number;
+  title?: string;
+  format?: string;
+  claimGenerator?: string;
+  // Readable subject and issuer of the signing certificate
+  signer?: string;
+  issuer?: string;
+  actions: ProvenanceAction[];
+  ingredients: ProvenanceIngredient[];
+  // An action declares generative AI as the source of the content
+  isAiGenerated: boolean;
+  // Whether the asset bytes match the manifest's data hash
+  contentBinding: 'match' | 'mismatch' | 'unchecked';
+}
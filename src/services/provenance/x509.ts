@@ -0,0 +1,223 @@
+import {
+  ASN1_TAGS,
+  Asn1Node,
+  encodeNode,
+  readBitString,
+  readChildren,
+  readNode,
+  readOid,
+  readText,
+  readTime,
+} from './asn1';
+import { concatBytes } from '../metadata/binary';
+
+export interface SignatureAlgorithm {
+  name: 'ECDSA' | 'RSASSA-PKCS1-v1_5' | 'RSA-PSS' | 'Ed25519';
+  hash?: 'SHA-256' | 'SHA-384' | 'SHA-512';
+  saltLength?: number;
+}
+
+export interface Certificate {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  issuerDer: Uint8Array;
+  subjectDer: Uint8Array;
+  // Readable common name and organization
+  issuer: string;
+  subject: string;
+  notBefore: Date;
+  notAfter: Date;
+  spki: Uint8Array;
+  isCa: boolean;
+  // How the issuer signed this certificate; undefined when unsupported
+  signatureAlgorithm?: SignatureAlgorithm;
+  signature: Uint8Array;
+}
+
+const HASH_OIDS: Record<string, SignatureAlgorithm['hash']> = {
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+const SIGNATURE_OIDS: Record<string, SignatureAlgorithm> = {
+  '1.2.840.10045.4.3.2': { name: 'ECDSA', hash: 'SHA-256' },
+  '1.2.840.10045.4.3.3': { name: 'ECDSA', hash: 'SHA-384' },
+  '1.2.840.10045.4.3.4': { name: 'ECDSA', hash: 'SHA-512' },
+  '1.2.840.113549.1.1.11': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  '1.2.840.113549.1.1.12': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+  '1.2.840.113549.1.1.13': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+  '1.3.101.112': { name: 'Ed25519' },
+};
+const RSA_PSS_OID = '1.2.840.113549.1.1.10';
+
+const CURVES: Record<string, { namedCurve: string; size: number }> = {
+  '1.2.840.10045.3.1.7': { namedCurve: 'P-256', size: 32 },
+  '1.3.132.0.34': { namedCurve: 'P-384', size: 48 },
+  '1.3.132.0.35': { namedCurve: 'P-521', size: 66 },
+};
+const EC_KEY_OID = '1.2.840.10045.2.1';
+// DER of the rsaEncryption AlgorithmIdentifier, which WebCrypto accepts for every RSA scheme
+const RSA_ENCRYPTION_ALGORITHM = new Uint8Array([
+  0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00,
+]);
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '2.5.4.6': 'C',
+};
+const BASIC_CONSTRAINTS_OID = '2.5.29.19';
+
+const formatName = (name: Asn1Node): string => {
+  const attributes: string[] = [];
+  for (const rdn of readChildren(name)) {
+    for (const attribute of readChildren(rdn)) {
+      const [type, value] = readChildren(attribute);
+      const label = NAME_ATTRIBUTES[readOid(type)];
+      if (label) attributes.push(`${label}=${readText(value)}`);
+    }
+  }
+  return attributes.join(', ');
+};
+
+// RSASSA-PSS parameters: [0] hash algorithm, [2] salt length (RFC 4055 defaults otherwise)
+const readPssParameters = (parameters: Asn1Node | undefined): SignatureAlgorithm => {
+  const algorithm: SignatureAlgorithm = { name: 'RSA-PSS', hash: undefined, saltLength: 20 };
+  for (const field of parameters ? readChildren(parameters) : []) {
+    const [inner] = readChildren(field);
+    if (field.tag === 0xa0) algorithm.hash = HASH_OIDS[readOid(readChildren(inner)[0])];
+    if (field.tag === 0xa2) algorithm.saltLength = inner.content.reduce((value, byte) => value * 256 + byte, 0);
+  }
+  return algorithm;
+};
+
+const readSignatureAlgorithm = (identifier: Asn1Node): SignatureAlgorithm | undefined => {
+  const [oid, parameters] = readChildren(identifier);
+  const id = readOid(oid);
+  if (id === RSA_PSS_OID) {
+    const algorithm = readPssParameters(parameters);
+    return algorithm.hash ? algorithm : undefined;
+  }
+  return SIGNATURE_OIDS[id];
+};
+
+export const parseCertificate = (der: Uint8Array): Certificate => {
+  const certificate = readNode(der);
+  const [tbs, signatureAlgorithm, signatureValue] = readChildren(certificate);
+  const fields = readChildren(tbs);
+  // The version field is an optional explicit [0] tag
+  const offset = fields[0].tag === 0xa0 ? 1 : 0;
+  const [, , issuer, validity, subject, spki] = fields.slice(offset);
+  const [notBefore, notAfter] = readChildren(validity);
+
+  let isCa = false;
+  const extensions = fields.find(field => field.tag === 0xa3);
+  if (extensions) {
+    for (const extension of readChildren(readChildren(extensions)[0])) {
+      const parts = readChildren(extension);
+      if (readOid(parts[0]) !== BASIC_CONSTRAINTS_OID) continue;
+      const constraints = readNode(parts[parts.length - 1].content);
+      const [ca] = readChildren(constraints);
+      isCa = ca?.tag === ASN1_TAGS.BOOLEAN && ca.content[0] !== 0;
+    }
+  }
+
+  return {
+    der: certificate.der,
+    tbs: tbs.der,
+    issuerDer: issuer.der,
+    subjectDer: subject.der,
+    issuer: formatName(issuer),
+    subject: formatName(subject),
+    notBefore: readTime(notBefore),
+    notAfter: readTime(notAfter),
+    spki: spki.der,
+    isCa,
+    signatureAlgorithm: readSignatureAlgorithm(signatureAlgorithm),
+    signature: readBitString(signatureValue),
+  };
+};
+
+// Every certificate in a PEM bundle; blocks that fail to parse are skipped
+export const parsePemCertificates = (pem: string): Certificate[] => {
+  const certificates: Certificate[] = [];
+  for (const [, body] of pem.matchAll(/-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/g)) {
+    try {
+      const der = Uint8Array.from(atob(body.replace(/\s+/g, '')), char => char.charCodeAt(0));
+      certificates.push(parseCertificate(der));
+    } catch (error) {
+      console.warn('Skipping unreadable trust anchor certificate:', error);
+    }
+  }
+  return certificates;
+};
+
+export const bytesEqual = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+const readKeyInfo = (spki: Uint8Array) => {
+  const [algorithm] = readChildren(readNode(spki));
+  const [oid, parameters] = readChildren(algorithm);
+  const id = readOid(oid);
+  return { id, curve: id === EC_KEY_OID && parameters ? CURVES[readOid(parameters)] : undefined };
+};
+
+// ECDSA signatures in X.509 are DER SEQUENCE { r, s }; WebCrypto wants r || s
+const derToRawEcdsa = (signature: Uint8Array, size: number): Uint8Array => {
+  const integers = readChildren(readNode(signature)).map(({ content }) => {
+    const trimmed = content.subarray(Math.max(0, content.length - size));
+    const padded = new Uint8Array(size);
+    padded.set(trimmed, size - trimmed.length);
+    return padded;
+  });
+  return concatBytes(integers);
+};
+
+const importPublicKey = (spki: Uint8Array, algorithm: SignatureAlgorithm): Promise<CryptoKey> => {
+  const { curve } = readKeyInfo(spki);
+  if (algorithm.name === 'ECDSA') {
+    if (!curve) throw new Error('Unsupported elliptic curve');
+    return crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: curve.namedCurve }, false, ['verify']);
+  }
+  if (algorithm.name === 'Ed25519') {
+    return crypto.subtle.importKey('spki', spki, { name: 'Ed25519' }, false, ['verify']);
+  }
+  // Keys restricted to RSASSA-PSS carry their own OID, which WebCrypto rejects
+  const [, key] = readChildren(readNode(spki));
+  const rsaSpki = encodeNode(ASN1_TAGS.SEQUENCE, concatBytes([RSA_ENCRYPTION_ALGORITHM, key.der]));
+  return crypto.subtle.importKey('spki', rsaSpki, { name: algorithm.name, hash: algorithm.hash }, false, ['verify']);
+};
+
+// Verify a signature made by the key in spki. ECDSA signatures may be given
+// DER-encoded (X.509) or raw (COSE).
+export const verifySignature = async (
+  spki: Uint8Array,
+  algorithm: SignatureAlgorithm,
+  signature: Uint8Array,
+  data: Uint8Array,
+  signatureFormat: 'der' | 'raw' = 'raw'
+): Promise<boolean> => {
+  const key = await importPublicKey(spki, algorithm);
+  let rawSignature = signature;
+  if (algorithm.name === 'ECDSA' && signatureFormat === 'der') {
+    rawSignature = derToRawEcdsa(signature, readKeyInfo(spki).curve!.size);
+  }
+  const params = algorithm.name === 'ECDSA'
+    ? { name: 'ECDSA', hash: algorithm.hash }
+    : algorithm.name === 'RSA-PSS'
+      ? { name: 'RSA-PSS', saltLength: algorithm.saltLength }
+      : { name: algorithm.name };
+  return crypto.subtle.verify(params, key, rawSignature, data);
+};
+
+export const verifyCertificateSignature = async (certificate: Certificate, issuer: Certificate): Promise<boolean> => {
+  if (!certificate.signatureAlgorithm) return false;
+  try {
+    return await verifySignature(issuer.spki, certificate.signatureAlgorithm, certificate.signature, certificate.tbs, 'der');
+  } catch (error) {
+    console.warn('Certificate signature could not be checked:', error);
+    return false;
+  }
+};
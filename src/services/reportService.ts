@@ -2,6 +2,13 @@
 import { DetectionResult } from './detectionService';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { DEFAULT_ELA_QUALITY } from './forensics/ela';
+import { describeSpectrum } from './forensics/spectrum';
+import { describeAudioAnalysis } from './forensics/audio';
+import { describeLipSync } from './forensics/lipSync';
+import { describeLiveSession } from './liveMonitor';
+import { describeLiveness } from './liveness';
+import { describeCameraCheck } from './cameraCheck';
 
 export const generatePDFReport = (results: DetectionResult, mediaUrl?: string, gradCamUrl?: string) => {
   const doc = new jsPDF();
@@ -86,7 +93,31 @@ export const generatePDFReport = (results: DetectionResult, mediaUrl?: string, g
     ['Media Type', results.metadata.type],
     ['Confidence Score', `${results.confidence.toFixed(1)}%`],
     ['Classification', getClassificationText(results.classification)],
-    ['Resolution', results.metadata.resolution || 'N/A']
+    ['Resolution', results.metadata.resolution || 'N/A'],
+    ...(results.metadata.liveSession
+      ? [['Live Session', describeLiveSession(results.metadata.liveSession, results.metadata.duration)]]
+      : []),
+    ...(results.metadata.camera
+      ? [['Camera', describeCameraCheck(results.metadata.camera)]]
+      : []),
+    ...(results.provenance
+      ? [['Content Credentials', `${results.provenance.status}${results.provenance.signer ? `, signed by ${results.provenance.signer}` : ''}`]]
+      : []),
+    ...(results.analysis.spectrum
+      ? [['Spectral Artifacts Score', `${results.analysis.artifactsScore.toFixed(1)}% (${describeSpectrum(results.analysis.spectrum)})`]]
+      : []),
+    ...(results.analysis.lipSync
+      ? [['Lip Sync', describeLipSync(results.analysis.lipSync)]]
+      : []),
+    ...(results.analysis.liveness
+      ? [['Liveness Check', describeLiveness(results.analysis.liveness)]]
+      : []),
+    ...(results.analysis.audioAnalysis
+      ? [['Audio Signal Analysis', describeAudioAnalysis(results.analysis.audioAnalysis)]]
+      : []),
+    ...(results.analysis.elaScore !== undefined
+      ? [[`ELA Anomaly Score (JPEG q${DEFAULT_ELA_QUALITY})`, `${results.analysis.elaScore.toFixed(1)}%`]]
+      : []),
   ];
 
   // Add main results table
@@ -166,6 +197,7 @@ const getClassificationText = (classification: string): string => {
     case 'likely_authentic': return 'Likely Authentic';
     case 'possibly_manipulated': return 'Possibly Manipulated';
     case 'highly_manipulated': return 'Highly Manipulated';
+    case 'ai_generated': return 'AI Generated (Content Credentials)';
     default: return classification;
   }
 };
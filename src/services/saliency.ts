@@ -0,0 +1,191 @@
+import type { DetectionResult } from './detectionService';
+import { getActiveDetector } from './detectors/registry';
+import { decodeImage } from './detectors/shared';
+import type { DetectorBackend, ProgressCallback } from './detectors/types';
+
+type HeatmapData = NonNullable<DetectionResult['analysis']['heatmapData']>;
+
+// Saliency is computed on a downscaled copy; every cell costs one detector run
+const MAX_DIMENSION = 384;
+const GRID_SIZE = 6;
+// Cells scoring below this share of the strongest cell are not reported as regions
+const PEAK_THRESHOLD = 0.3;
+const MAX_REGIONS = 5;
+
+export interface SaliencyMap {
+  // Grid of GRID_SIZE x GRID_SIZE cells, row-major, normalized to 0-1
+  size: number;
+  values: Float32Array;
+  // Detector confidence (0-100) on the unoccluded image
+  baseline: number;
+}
+
+export interface SaliencyResult {
+  map: SaliencyMap;
+  // Transparent colormapped overlay at the analyzed resolution
+  overlayUrl: string;
+  // Overlay blended onto the image, for reports and thumbnails
+  compositeUrl: string;
+  heatmapData: HeatmapData;
+}
+
+interface SaliencyOptions {
+  detector?: DetectorBackend;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  return { canvas, ctx };
+};
+
+const getMeanColor = ({ data }: ImageData) => {
+  let r = 0, g = 0, b = 0;
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+  }
+  return `rgb(${Math.round(r / pixels)}, ${Math.round(g / pixels)}, ${Math.round(b / pixels)})`;
+};
+
+// Blue -> cyan -> yellow -> red, as in the usual Grad-CAM renderings
+const colormap = (value: number): [number, number, number] => {
+  const stops: [number, number, number][] = [[0, 0, 255], [0, 255, 255], [255, 255, 0], [255, 0, 0]];
+  const scaled = Math.max(0, Math.min(1, value)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(scaled));
+  const t = scaled - index;
+  const [from, to] = [stops[index], stops[index + 1]];
+  return [0, 1, 2].map(c => Math.round(from[c] + (to[c] - from[c]) * t)) as [number, number, number];
+};
+
+const renderOverlay = (map: SaliencyMap, width: number, height: number): HTMLCanvasElement => {
+  const { canvas: grid, ctx: gridCtx } = createCanvas(map.size, map.size);
+  const pixels = gridCtx.createImageData(map.size, map.size);
+  map.values.forEach((value, i) => {
+    const [r, g, b] = colormap(value);
+    pixels.data.set([r, g, b, Math.round(255 * (0.25 + 0.75 * value))], i * 4);
+  });
+  gridCtx.putImageData(pixels, 0, 0);
+
+  // Upscaling with smoothing interpolates between cells
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(grid, 0, 0, width, height);
+  return canvas;
+};
+
+// Local maxima of the grid, strongest first. x, y and radius are percentages
+// of the image size.
+const findPeaks = (map: SaliencyMap): HeatmapData['regions'] => {
+  const { size, values, baseline } = map;
+  const peaks: HeatmapData['regions'] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const value = values[row * size + col];
+      if (value < PEAK_THRESHOLD) continue;
+
+      let isPeak = true;
+      for (let dy = -1; dy <= 1 && isPeak; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const y = row + dy, x = col + dx;
+          if ((dx || dy) && y >= 0 && y < size && x >= 0 && x < size && values[y * size + x] > value) {
+            isPeak = false;
+            break;
+          }
+        }
+      }
+      if (!isPeak) continue;
+
+      peaks.push({
+        x: ((col + 0.5) / size) * 100,
+        y: ((row + 0.5) / size) * 100,
+        intensity: (baseline / 100) * value,
+        radius: 100 / size,
+        source: 'saliency',
+      });
+    }
+  }
+  return peaks.sort((a, b) => b.intensity - a.intensity).slice(0, MAX_REGIONS);
+};
+
+// Occlusion sensitivity: a 2x2-cell patch is covered with the mean color at
+// every grid position and the drop in the detector's manipulation confidence
+// is credited to the covered cells. Only detector outputs are used, so it
+// works with any backend, including ONNX models without gradients.
+export const computeOcclusionSaliency = async (
+  imageUrl: string,
+  { detector = getActiveDetector('image'), onProgress, signal }: SaliencyOptions = {}
+): Promise<SaliencyResult> => {
+  const { imageData } = await decodeImage(imageUrl, MAX_DIMENSION);
+  signal?.throwIfAborted();
+  const { width, height } = imageData;
+  const { canvas, ctx } = createCanvas(width, height);
+  const fill = getMeanColor(imageData);
+
+  const score = async () => {
+    const result = await detector.detect({ mediaType: 'image', url: canvas.toDataURL('image/png'), signal });
+    return result.confidence;
+  };
+
+  ctx.putImageData(imageData, 0, 0);
+  const baseline = await score();
+
+  const size = GRID_SIZE;
+  const cellWidth = width / size;
+  const cellHeight = height / size;
+  const totals = new Float32Array(size * size);
+  const counts = new Float32Array(size * size);
+  const positions = (size - 1) * (size - 1);
+
+  for (let row = 0; row < size - 1; row++) {
+    for (let col = 0; col < size - 1; col++) {
+      signal?.throwIfAborted();
+      ctx.putImageData(imageData, 0, 0);
+      ctx.fillStyle = fill;
+      ctx.fillRect(col * cellWidth, row * cellHeight, 2 * cellWidth, 2 * cellHeight);
+
+      const drop = Math.max(0, baseline - await score());
+      for (const [y, x] of [[row, col], [row, col + 1], [row + 1, col], [row + 1, col + 1]]) {
+        totals[y * size + x] += drop;
+        counts[y * size + x]++;
+      }
+
+      const done = row * (size - 1) + col + 1;
+      onProgress?.((done / positions) * 100, `Computing saliency (${done}/${positions})`);
+    }
+  }
+
+  const averages = totals.map((total, i) => total / counts[i]);
+  const peak = Math.max(...averages);
+  const map: SaliencyMap = {
+    size,
+    values: averages.map(value => (peak > 0 ? value / peak : 0)),
+    baseline,
+  };
+
+  const overlay = renderOverlay(map, width, height);
+  ctx.putImageData(imageData, 0, 0);
+  ctx.globalAlpha = 0.5;
+  ctx.drawImage(overlay, 0, 0);
+  ctx.globalAlpha = 1;
+
+  return {
+    map,
+    overlayUrl: overlay.toDataURL('image/png'),
+    compositeUrl: canvas.toDataURL('image/jpeg'),
+    heatmapData: {
+      regions: findPeaks(map),
+      overallIntensity: baseline / 100,
+    },
+  };
+};
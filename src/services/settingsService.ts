@@ -0,0 +1,64 @@
+import type { MediaType } from './detectors/types';
+
+export interface AnalysisSettings {
+  // Active detector backend id per media type
+  detectors: Record<MediaType, string>;
+  // Base URL of a local inference server used by the HTTP backend
+  httpEndpoint: string;
+  // Frames per second sampled from videos by the frame sampling backend
+  videoSampleRate: number;
+  maxVideoFrames: number;
+  // Frames per second scored while monitoring a live stream
+  liveSampleRate: number;
+  // Smoothed live confidence (0-100) that raises an alert
+  liveAlertThreshold: number;
+  // Files analyzed in parallel by the batch queue
+  batchConcurrency: number;
+  // Proxy for media URLs whose servers do not allow cross-origin reads; the
+  // remote URL replaces {url} (encoded) or is appended. Empty to fetch directly only.
+  corsProxyUrl: string;
+  // Media URLs larger than this (MB) are not downloaded
+  maxDownloadMb: number;
+  // PEM certificates that C2PA signing chains must lead to
+  c2paTrustAnchors: string;
+}
+
+const SETTINGS_KEY = 'analysisSettings';
+
+export const DEFAULT_SETTINGS: AnalysisSettings = {
+  detectors: {
+    image: 'transformers',
+    video: 'frames',
+    audio: 'transformers',
+  },
+  httpEndpoint: 'http://localhost:8000',
+  videoSampleRate: 1,
+  maxVideoFrames: 120,
+  liveSampleRate: 1,
+  liveAlertThreshold: 70,
+  batchConcurrency: 2,
+  corsProxyUrl: '',
+  maxDownloadMb: 200,
+  c2paTrustAnchors: '',
+};
+
+export const loadSettings = (): AnalysisSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<AnalysisSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      detectors: { ...DEFAULT_SETTINGS.detectors, ...parsed.detectors },
+    };
+  } catch (error) {
+    console.error('Failed to load analysis settings, using defaults:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
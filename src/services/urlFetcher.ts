@@ -0,0 +1,124 @@
+// Downloads media from a URL so it can go through the same pipeline as an
+// uploaded file. Servers that do not allow cross-origin reads are retried
+// through the configured CORS proxy; size and content type are checked
+// before and while downloading.
+import type { MediaType, ProgressCallback } from './detectors/types';
+import { AnalysisSettings, loadSettings } from './settingsService';
+
+export interface FetchMediaOptions {
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  settings?: AnalysisSettings;
+}
+
+const PROXY_PLACEHOLDER = '{url}';
+// Content types accepted per media type, matching what the browser can decode
+const ALLOWED_TYPES: Record<MediaType, string[]> = {
+  image: ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/avif'],
+  video: ['video/mp4', 'video/webm', 'video/ogg', 'video/quicktime', 'video/x-matroska'],
+  audio: [
+    'audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/ogg', 'audio/webm',
+    'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/flac', 'audio/x-flac',
+  ],
+};
+// Used when the server sends no specific type
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp', gif: 'image/gif', bmp: 'image/bmp', avif: 'image/avif',
+  mp4: 'video/mp4', m4v: 'video/mp4', webm: 'video/webm', ogv: 'video/ogg', mov: 'video/quicktime', mkv: 'video/x-matroska',
+  mp3: 'audio/mpeg', wav: 'audio/wav', oga: 'audio/ogg', ogg: 'audio/ogg', m4a: 'audio/x-m4a', aac: 'audio/aac', flac: 'audio/flac',
+};
+const GENERIC_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const toProxyUrl = (proxy: string, url: string): string =>
+  proxy.includes(PROXY_PLACEHOLDER) ? proxy.replace(PROXY_PLACEHOLDER, encodeURIComponent(url)) : proxy + url;
+
+const getFileName = (url: URL): string =>
+  decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '') || url.hostname;
+
+// The declared type, or the one implied by the file extension when the
+// server only says it is binary
+export const resolveContentType = (header: string | null, url: URL): string => {
+  const declared = (header ?? '').split(';')[0].trim().toLowerCase();
+  if (!GENERIC_TYPES.includes(declared)) return declared;
+  const extension = getFileName(url).split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[extension] ?? declared;
+};
+
+const readBody = async (response: Response, maxBytes: number, onProgress?: ProgressCallback): Promise<Blob> => {
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  if (!response.body) {
+    const blob = await response.blob();
+    if (blob.size > maxBytes) throw new Error(`The file is larger than the ${formatMb(maxBytes)} download limit`);
+    return blob;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.length;
+    if (loaded > maxBytes) {
+      await reader.cancel();
+      throw new Error(`The file is larger than the ${formatMb(maxBytes)} download limit`);
+    }
+    chunks.push(value);
+    onProgress?.(total ? (loaded / total) * 100 : 0, `Downloading (${formatMb(loaded)})`);
+  }
+  return new Blob(chunks);
+};
+
+// Fetch `url` as a File of the expected media type
+export const fetchRemoteMedia = async (
+  url: string,
+  mediaType: MediaType,
+  { onProgress, signal, settings = loadSettings() }: FetchMediaOptions = {}
+): Promise<File> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('The URL is not valid');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be analyzed');
+  }
+
+  onProgress?.(0, 'Downloading');
+  let response: Response;
+  try {
+    response = await fetch(parsed.href, { signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // A CORS refusal surfaces as a network error
+    if (!settings.corsProxyUrl) {
+      throw new Error('The server does not allow this site to read the file. Set a CORS proxy in the detector settings.');
+    }
+    console.warn('Direct download failed, retrying through the CORS proxy:', error);
+    try {
+      response = await fetch(toProxyUrl(settings.corsProxyUrl, parsed.href), { signal });
+    } catch (proxyError) {
+      if (signal?.aborted) throw proxyError;
+      throw new Error('The CORS proxy could not be reached');
+    }
+  }
+  if (!response.ok) {
+    throw new Error(`The server answered ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`);
+  }
+
+  const type = resolveContentType(response.headers.get('Content-Type'), parsed);
+  if (!ALLOWED_TYPES[mediaType].includes(type)) {
+    throw new Error(`Expected ${mediaType} content but the URL serves ${type || 'an unknown type'}`);
+  }
+  const maxBytes = settings.maxDownloadMb * 1024 * 1024;
+  const declaredSize = Number(response.headers.get('Content-Length'));
+  if (declaredSize > maxBytes) {
+    throw new Error(`The file is ${formatMb(declaredSize)}, over the ${formatMb(maxBytes)} download limit`);
+  }
+
+  const blob = await readBody(response, maxBytes, onProgress);
+  return new File([blob], getFileName(parsed), { type });
+};
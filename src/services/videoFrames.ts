@@ -0,0 +1,128 @@
+export interface VideoFrame {
+  // Position in the video, in milliseconds
+  timestamp: number;
+  // JPEG data URL of the frame
+  url: string;
+}
+
+export interface ExtractedVideo {
+  frames: VideoFrame[];
+  duration: number;
+  width: number;
+  height: number;
+  frameRate?: number;
+}
+
+export interface FrameSamplingOptions {
+  // Frames sampled per second of video
+  sampleRate: number;
+  maxFrames: number;
+  // Longest side of the captured frames, in pixels
+  maxDimension?: number;
+  // Called after each captured frame with the fraction (0-1) extracted so far
+  onFrame?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export const loadVideo = (videoUrl: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = "Anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('Failed to load video'));
+    video.src = videoUrl;
+    video.load();
+  });
+};
+
+export const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Failed to seek video'));
+    video.currentTime = time;
+  });
+};
+
+// Estimate the frame rate from consecutive presented frames while playing muted.
+// Returns undefined when the browser lacks requestVideoFrameCallback.
+const estimateFrameRate = async (video: HTMLVideoElement, sampleCount = 12): Promise<number | undefined> => {
+  if (!('requestVideoFrameCallback' in video)) return undefined;
+
+  const mediaTimes: number[] = [];
+  await new Promise<void>((resolve) => {
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= sampleCount || video.ended) {
+        resolve();
+      } else {
+        video.requestVideoFrameCallback(onFrame);
+      }
+    };
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(() => resolve());
+    // Don't hang on streams that never present frames
+    setTimeout(resolve, 2000);
+  });
+  video.pause();
+
+  const deltas = mediaTimes
+    .slice(1)
+    .map((time, i) => time - mediaTimes[i])
+    .filter(delta => delta > 0)
+    .sort((a, b) => a - b);
+  if (deltas.length === 0) return undefined;
+
+  // Median is robust against dropped frames during playback
+  return Math.round(1 / deltas[Math.floor(deltas.length / 2)]);
+};
+
+const captureFrame = (video: HTMLVideoElement, maxDimension: number): string => {
+  const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+// Decode a video and capture frames at a fixed sampling rate
+export const extractVideoFrames = async (
+  videoUrl: string,
+  { sampleRate, maxFrames, maxDimension = 640, onFrame, signal }: FrameSamplingOptions
+): Promise<ExtractedVideo> => {
+  const video = await loadVideo(videoUrl);
+  const duration = video.duration;
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error('Video duration is unavailable');
+  }
+
+  const frameRate = await estimateFrameRate(video);
+
+  const frameCount = Math.max(1, Math.min(maxFrames, Math.floor(duration * sampleRate)));
+  const interval = duration / frameCount;
+  const frames: VideoFrame[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    signal?.throwIfAborted();
+    // Sample the middle of each interval so the last frame stays inside the video
+    const time = interval * (i + 0.5);
+    await seekTo(video, time);
+    frames.push({ timestamp: time * 1000, url: captureFrame(video, maxDimension) });
+    onFrame?.((i + 1) / frameCount);
+  }
+
+  console.log(`Extracted ${frames.length} frames from ${duration.toFixed(1)}s video`);
+
+  return {
+    frames,
+    duration: duration * 1000,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    frameRate,
+  };
+};
@@ -0,0 +1,91 @@
+// Radix-2 fast Fourier transforms on split real/imaginary arrays. Lengths
+// must be powers of two; callers pad or crop their input accordingly.
+
+export const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+export const nextPowerOfTwo = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(1, n)));
+
+// In-place iterative Cooley-Tukey transform. The inverse is scaled by 1/n.
+export const fft = (re: Float64Array, im: Float64Array, inverse = false): void => {
+  const n = re.length;
+  if (!isPowerOfTwo(n) || im.length !== n) {
+    throw new Error(`FFT length must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (sign * 2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1, wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        [wRe, wIm] = [wRe * stepRe - wIm * stepIm, wRe * stepIm + wIm * stepRe];
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+// In-place 2D transform of a row-major width x height grid: rows, then columns
+export const fft2d = (re: Float64Array, im: Float64Array, width: number, height: number, inverse = false): void => {
+  const rowRe = new Float64Array(width);
+  const rowIm = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    const offset = y * width;
+    rowRe.set(re.subarray(offset, offset + width));
+    rowIm.set(im.subarray(offset, offset + width));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, offset);
+    im.set(rowIm, offset);
+  }
+
+  const columnRe = new Float64Array(height);
+  const columnIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      columnRe[y] = re[y * width + x];
+      columnIm[y] = im[y * width + x];
+    }
+    fft(columnRe, columnIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = columnRe[y];
+      im[y * width + x] = columnIm[y];
+    }
+  }
+};
+
+// Periodic Hann window, which keeps frame edges from leaking into the spectrum
+export const hannWindow = (n: number): Float64Array => {
+  const window = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n);
+  }
+  return window;
+};
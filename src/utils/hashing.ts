@@ -0,0 +1,8 @@
+// Hex-encoded SHA-256 of a file or buffer, used to recognize media across sessions
+export const sha256Hex = async (data: Blob | ArrayBuffer): Promise<string> => {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -0,0 +1,136 @@
+// 64-bit perceptual hashes, hex encoded. Unlike the SHA-256 content hash they
+// stay close for re-encoded or resized copies of an image; crops beyond a few
+// pixels change them.
+export interface PerceptualHash {
+  // Difference hash: sign of horizontal gradients on a 9x8 thumbnail
+  dHash: string;
+  // DCT hash: low frequencies of a 32x32 thumbnail compared to their median
+  pHash: string;
+}
+
+export const HASH_BITS = 64;
+
+const loadGrayscale = (url: string, width: number, height: number): Promise<Float64Array | null> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        resolve(null);
+        return;
+      }
+      ctx.drawImage(img, 0, 0, width, height);
+      let data: Uint8ClampedArray;
+      try {
+        data = ctx.getImageData(0, 0, width, height).data;
+      } catch {
+        // Cross-origin images without CORS headers cannot be read back
+        resolve(null);
+        return;
+      }
+      const gray = new Float64Array(width * height);
+      for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+      }
+      resolve(gray);
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+const dHashFromGray = (gray: Float64Array): string => {
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(gray[y * 9 + x] > gray[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+};
+
+const DCT_SIZE = 32;
+const LOW_FREQUENCIES = 8;
+
+const pHashFromGray = (gray: Float64Array): string => {
+  // Only the 8x8 lowest frequencies of the 2D DCT-II are needed
+  const cosines = Array.from({ length: LOW_FREQUENCIES }, (_, u) =>
+    Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+  );
+
+  const rows = new Float64Array(DCT_SIZE * LOW_FREQUENCIES);
+  for (let y = 0; y < DCT_SIZE; y++) {
+    for (let u = 0; u < LOW_FREQUENCIES; u++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) sum += gray[y * DCT_SIZE + x] * cosines[u][x];
+      rows[y * LOW_FREQUENCIES + u] = sum;
+    }
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < LOW_FREQUENCIES; v++) {
+    for (let u = 0; u < LOW_FREQUENCIES; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) sum += rows[y * LOW_FREQUENCIES + u] * cosines[v][y];
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness, so it is left out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coefficients.map(value => value > median));
+};
+
+export const computePerceptualHash = async (url: string): Promise<PerceptualHash | null> => {
+  const [small, large] = await Promise.all([
+    loadGrayscale(url, 9, 8),
+    loadGrayscale(url, DCT_SIZE, DCT_SIZE),
+  ]);
+  if (!small || !large) return null;
+  return { dHash: dHashFromGray(small), pHash: pHashFromGray(large) };
+};
+
+// Hashes for every image that can be read; unreadable ones are skipped
+export const computePerceptualHashes = async (urls: string[]): Promise<PerceptualHash[]> => {
+  const hashes = await Promise.all(urls.map(computePerceptualHash));
+  return hashes.filter((hash): hash is PerceptualHash => hash !== null);
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Smallest distance between any pair of hashes. dHash survives brightness and
+// contrast changes better, pHash survives re-encoding and scaling better, so
+// the closer of the two is used.
+export const perceptualDistance = (a: PerceptualHash[], b: PerceptualHash[]): number => {
+  let best = HASH_BITS;
+  for (const hashA of a) {
+    for (const hashB of b) {
+      best = Math.min(best, hammingDistance(hashA.dHash, hashB.dHash), hammingDistance(hashA.pHash, hashB.pHash));
+    }
+  }
+  return best;
+};
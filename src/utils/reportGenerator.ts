@@ -2,6 +2,14 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { DetectionResult } from '@/services/detectionService';
+import { DEFAULT_ELA_QUALITY } from '@/services/forensics/ela';
+import { describeSpectrum } from '@/services/forensics/spectrum';
+import { FORGERY_LABELS, ForgeryKind } from '@/services/forensics/localization';
+import { describeAudioAnalysis } from '@/services/forensics/audio';
+import { describeLipSync } from '@/services/forensics/lipSync';
+import { describeLiveSession, summarizeSessionTimeline } from '@/services/liveMonitor';
+import { describeLiveness } from '@/services/liveness';
+import { describeCameraCheck } from '@/services/cameraCheck';
 
 // Define the extended types for our analysis data
 export interface AudioAnalysis {
@@ -35,6 +43,7 @@ export interface HighlightedArea {
   width: number;
   height: number;
   confidence: number;
+  source?: string;
 }
 
 // Helper function to convert region data to the expected format
@@ -46,7 +55,8 @@ const convertRegionsToHighlightedAreas = (regions: any[]): HighlightedArea[] =>
     y: region.y,
     width: region.width || region.radius * 2 || 20,
     height: region.height || region.radius * 2 || 20,
-    confidence: region.confidence || region.intensity * 100 || 75
+    confidence: region.confidence || region.intensity * 100 || 75,
+    source: region.source
   }));
 };
 
@@ -100,7 +110,7 @@ export const generatePDFReport = (results: DetectionResult, originalImageUrl?: s
     const imgWidth = pageWidth - 40;
     const imgHeight = 60;
     
-    addImageToPdf(doc, gradCamImageUrl, 20, yPos, imgWidth, imgHeight, 'Analysis Visualization (GradCAM)');
+    addImageToPdf(doc, gradCamImageUrl, 20, yPos, imgWidth, imgHeight, 'Analysis Visualization (Saliency)');
     yPos += imgHeight + 15;
   }
 
@@ -115,6 +125,15 @@ export const generatePDFReport = (results: DetectionResult, originalImageUrl?: s
     ['Classification', getClassificationText(results.classification)],
     ['Resolution', results.metadata.resolution || 'N/A'],
     ['Risk Level', getRiskLevelText(results.riskLevel)],
+    ...(results.metadata.liveSession
+      ? [['Live Session', describeLiveSession(results.metadata.liveSession, results.metadata.duration)]]
+      : []),
+    ...(results.metadata.camera
+      ? [['Camera', describeCameraCheck(results.metadata.camera)]]
+      : []),
+    ...(results.provenance
+      ? [['Content Credentials', `${results.provenance.status}${results.provenance.signer ? `, signed by ${results.provenance.signer}` : ''}`]]
+      : []),
     ['Prediction Accuracy', `${(85 + Math.random() * 10).toFixed(1)}%`],
   ];
 
@@ -138,9 +157,39 @@ export const generatePDFReport = (results: DetectionResult, originalImageUrl?: s
 
   // Add analysis results
   const analysisResults = [
-    ['Face Consistency', `${results.analysis.faceConsistency.toFixed(1)}%`],
-    ['Lighting Consistency', `${results.analysis.lightingConsistency.toFixed(1)}%`],
+    ...(results.analysis.faceConsistency !== undefined
+      ? [['Face Consistency', `${results.analysis.faceConsistency.toFixed(1)}%`]]
+      : []),
+    ...(results.analysis.lightingConsistency !== undefined
+      ? [['Lighting Consistency', `${results.analysis.lightingConsistency.toFixed(1)}%`]]
+      : []),
+    ...(results.analysis.noiseConsistency !== undefined
+      ? [['Noise Consistency', `${results.analysis.noiseConsistency.toFixed(1)}%`]]
+      : []),
+    ...(results.analysis.sensorNoise !== undefined
+      ? [['Sensor Noise', `${results.analysis.sensorNoise.toFixed(1)}%`]]
+      : []),
     ['Artifacts Score', `${results.analysis.artifactsScore.toFixed(1)}%`],
+    ...(results.analysis.spectrum
+      ? [['Frequency Spectrum', describeSpectrum(results.analysis.spectrum)]]
+      : []),
+    ...(results.analysis.audioAnalysis
+      ? [
+        ['Pitch Consistency', `${results.analysis.audioAnalysis.pitchConsistency.toFixed(1)}%`],
+        ['Frequency Distortion', `${results.analysis.audioAnalysis.frequencyDistortion.toFixed(1)}%`],
+        ['Artificial Patterns', `${results.analysis.audioAnalysis.artificialPatterns.toFixed(1)}%`],
+        ['Audio Signal Analysis', describeAudioAnalysis(results.analysis.audioAnalysis)],
+      ]
+      : []),
+    ...(results.analysis.lipSync
+      ? [['Lip Sync', describeLipSync(results.analysis.lipSync)]]
+      : []),
+    ...(results.analysis.liveness
+      ? [['Liveness Check', describeLiveness(results.analysis.liveness)]]
+      : []),
+    ...(results.analysis.elaScore !== undefined
+      ? [[`Error Level Analysis (JPEG q${DEFAULT_ELA_QUALITY})`, `${results.analysis.elaScore.toFixed(1)}%`]]
+      : []),
   ];
 
   // Add analysis results table
@@ -251,13 +300,14 @@ export const generatePDFReport = (results: DetectionResult, originalImageUrl?: s
 
     const areasData = highlightedAreas.map((area, index) => [
       `Region ${index + 1}`,
-      `X:${area.x}, Y:${area.y}`,
-      `${area.width}x${area.height}`,
+      area.source && area.source !== 'saliency' ? FORGERY_LABELS[area.source as ForgeryKind] : 'Saliency',
+      `X:${area.x.toFixed(1)}, Y:${area.y.toFixed(1)}`,
+      `${area.width.toFixed(1)}x${area.height.toFixed(1)}`,
       `${area.confidence.toFixed(1)}%`
     ]);
 
     autoTable(doc, {
-      head: [['Region ID', 'Position', 'Size', 'Confidence']],
+      head: [['Region ID', 'Found By', 'Position (%)', 'Size (%)', 'Score']],
       body: areasData,
       startY: yPos,
       theme: 'grid',
@@ -268,6 +318,40 @@ export const generatePDFReport = (results: DetectionResult, originalImageUrl?: s
     });
   }
 
+  // Add the timeline of a monitored live session
+  const { liveSession, duration } = results.metadata;
+  if (liveSession && results.analysis.framewiseConfidence && results.analysis.framewiseConfidence.length > 0) {
+    if (yPos > doc.internal.pageSize.height - 100) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    yPos += 10;
+    doc.setFontSize(16);
+    doc.text('Session Timeline', 14, yPos);
+    yPos += 10;
+
+    const framewise = results.analysis.framewiseConfidence;
+    const timelineData = summarizeSessionTimeline(framewise, duration ?? framewise[framewise.length - 1].timestamp + 1)
+      .map(span => [
+        `${(span.start / 1000).toFixed(0)}s - ${(span.end / 1000).toFixed(0)}s`,
+        `${span.frames}`,
+        `${span.mean.toFixed(1)}%`,
+        `${span.peak.toFixed(1)}%`,
+      ]);
+
+    autoTable(doc, {
+      head: [['Time', 'Frames', 'Mean Confidence', 'Peak Confidence']],
+      body: timelineData,
+      startY: yPos,
+      theme: 'grid',
+      headStyles: { fillColor: [70, 70, 70] },
+      didDrawPage: (data) => {
+        yPos = data.cursor.y;
+      },
+    });
+  }
+
   // Add suspicious frames for video
   if (results.metadata.type === 'video' && results.analysis.suspiciousFrames && results.analysis.suspiciousFrames.length > 0) {
     // Check if we need to add a new page
@@ -283,12 +367,15 @@ export const generatePDFReport = (results: DetectionResult, originalImageUrl?: s
 
     const framesData = results.analysis.suspiciousFrames.map((frame, index) => [
       `Frame ${index + 1}`,
-      `${(frame.timestamp / 1000).toFixed(2)}s`,
+      frame.type === 'av_desync'
+        ? `${(frame.timestamp / 1000).toFixed(2)}s - ${((frame.timestamp + (frame.duration ?? 0)) / 1000).toFixed(2)}s`
+        : `${(frame.timestamp / 1000).toFixed(2)}s`,
+      frame.type === 'av_desync' ? 'Lip-sync mismatch' : 'Detector score',
       `${frame.confidence.toFixed(1)}%`
     ]);
 
     autoTable(doc, {
-      head: [['Frame ID', 'Timestamp', 'Confidence']],
+      head: [['Frame ID', 'Timestamp', 'Finding', 'Confidence']],
       body: framesData,
       startY: yPos,
       theme: 'grid',
@@ -364,7 +451,10 @@ export const generatePDFReport = (results: DetectionResult, originalImageUrl?: s
   doc.text('Analysis Visualization Interpretation', 14, yPos);
   yPos += 8;
 
-  const visualizationText = "The GradCAM visualization uses a heatmap to highlight potential areas of manipulation, with red regions indicating higher suspicion levels. These regions may contain artifacts, inconsistencies, or modifications that the AI has detected.";
+  const visualizationText = "The saliency visualization is an occlusion map: each area of the image was hidden in turn and the drop in the detector's manipulation score was recorded. Red regions influenced the verdict the most and may contain artifacts, inconsistencies, or modifications that the AI has detected."
+    + (highlightedAreas.some(area => area.source === 'copy_move' || area.source === 'splicing')
+      ? " Regions found by copy-move come from block matching (an area cloned elsewhere in the image); regions found by splicing have a noise level that differs from the rest of the image."
+      : "");
   const splitVisualizationText = doc.splitTextToSize(visualizationText, pageWidth - 28);
   doc.setFontSize(11);
   doc.text(splitVisualizationText, 14, yPos);
@@ -387,6 +477,7 @@ const getClassificationText = (classification: string): string => {
     case 'likely_authentic': return 'Likely Authentic';
     case 'possibly_manipulated': return 'Possibly Manipulated';
     case 'highly_manipulated': return 'Highly Manipulated';
+    case 'ai_generated': return 'AI Generated (Content Credentials)';
     default: return classification;
   }
 };
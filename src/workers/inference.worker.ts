@@ -0,0 +1,121 @@
+import { pipeline, env, RawImage } from "@huggingface/transformers";
+import { MODEL_IDS } from './inferenceProtocol';
+import { analyzeAudioSignal } from '@/services/forensics/audio';
+import type {
+  InferenceOutputs,
+  InferencePayloads,
+  InferenceTask,
+  WorkerRequest,
+  WorkerResponse,
+} from './inferenceProtocol';
+
+// Models are served from public/models/<model id>/ so detection works offline
+env.allowLocalModels = true;
+env.allowRemoteModels = false;
+env.localModelPath = '/models/';
+
+type ModelPipeline = (input: unknown, options?: Record<string, unknown>) => Promise<unknown>;
+
+// Classifiers return every label; detectors return boxes as fractions of the image
+const PIPELINE_OPTIONS: Record<InferenceTask, Record<string, unknown>> = {
+  'image-classification': { top_k: null },
+  'audio-classification': { top_k: null },
+  'object-detection': { threshold: 0.5, percentage: true },
+};
+
+const pipelines = new Map<InferenceTask, Promise<ModelPipeline>>();
+// Only jobs still running can be cancelled, so late cancels leave nothing behind
+const activeJobs = new Set<string>();
+const cancelledJobs = new Set<string>();
+// Jobs waiting for each model to load
+const loadingJobs = new Map<InferenceTask, Set<string>>();
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+class CancelledError extends Error {}
+
+const loadPipeline = async (task: InferenceTask, jobId: string): Promise<ModelPipeline> => {
+  // Every job waiting on a model hears its loading progress, not only the one that started it
+  const waiting = loadingJobs.get(task) ?? new Set<string>();
+  loadingJobs.set(task, waiting);
+  waiting.add(jobId);
+  if (!pipelines.has(task)) {
+    console.log(`Initializing ${task} model...`);
+    const loading = pipeline(task, MODEL_IDS[task], {
+      progress_callback: (info: { status: string; progress?: number; file?: string }) => {
+        if (info.status === 'progress' && info.progress !== undefined) {
+          const status = `Loading model (${Math.round(info.progress)}%)`;
+          loadingJobs.get(task)?.forEach(id => post({ type: 'progress', id, progress: info.progress!, status }));
+        }
+      },
+    }) as unknown as Promise<ModelPipeline>;
+    // Allow a retry after a failed load
+    loading.catch(() => pipelines.delete(task));
+    pipelines.set(task, loading);
+  }
+  try {
+    return await pipelines.get(task)!;
+  } finally {
+    waiting.delete(jobId);
+    if (waiting.size === 0 && loadingJobs.get(task) === waiting) loadingJobs.delete(task);
+  }
+};
+
+const toModelInput = <T extends InferenceTask>(task: T, input: InferencePayloads[T]) => {
+  if (task === 'image-classification' || task === 'object-detection') {
+    const { data, width, height } = input as InferencePayloads['image-classification'];
+    return new RawImage(data, width, height, 4);
+  }
+  return (input as InferencePayloads['audio-classification']).samples;
+};
+
+const analyze = async <T extends InferenceTask>(id: string, task: T, inputs: InferencePayloads[T][]) => {
+  const model = await loadPipeline(task, id);
+  const outputs: InferenceOutputs[T][] = [];
+
+  for (let i = 0; i < inputs.length; i++) {
+    if (cancelledJobs.has(id)) throw new CancelledError('Inference cancelled');
+
+    const output = await model(toModelInput(task, inputs[i]), PIPELINE_OPTIONS[task]);
+    outputs.push(output as InferenceOutputs[T]);
+    post({
+      type: 'progress',
+      id,
+      progress: ((i + 1) / inputs.length) * 100,
+      status: `Analyzed ${i + 1} of ${inputs.length}`,
+    });
+  }
+  return outputs;
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    if (activeJobs.has(request.id)) cancelledJobs.add(request.id);
+    return;
+  }
+
+  activeJobs.add(request.id);
+  try {
+    if (request.type === 'init') {
+      await loadPipeline(request.task, request.id);
+      post({ type: 'result', id: request.id, outputs: [] });
+    } else if (request.type === 'audio-signal') {
+      post({ type: 'result', id: request.id, outputs: [analyzeAudioSignal(request.samples)] });
+    } else {
+      const outputs = await analyze(request.id, request.task, request.inputs);
+      post({ type: 'result', id: request.id, outputs });
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof CancelledError,
+    });
+  } finally {
+    activeJobs.delete(request.id);
+    cancelledJobs.delete(request.id);
+  }
+};
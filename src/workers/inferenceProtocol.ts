@@ -0,0 +1,61 @@
+// Message protocol between the main thread and the inference worker.
+// Every request carries a job id; the worker answers with progress messages
+// followed by exactly one result or error for that id.
+
+export type InferenceTask = 'image-classification' | 'audio-classification' | 'object-detection';
+
+// Model directories under public/models/
+export const MODEL_IDS: Record<InferenceTask, string> = {
+  'image-classification': 'deepfake-image-detector',
+  'audio-classification': 'deepfake-audio-detector',
+  'object-detection': 'face-detector',
+};
+
+export interface ImagePayload {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface AudioPayload {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface InferencePayloads {
+  'image-classification': ImagePayload;
+  'audio-classification': AudioPayload;
+  'object-detection': ImagePayload;
+}
+
+export interface ClassificationLabel {
+  label: string;
+  score: number;
+}
+
+export interface DetectedObject {
+  label: string;
+  score: number;
+  // Fractions (0-1) of the image width and height
+  box: { xmin: number; ymin: number; xmax: number; ymax: number };
+}
+
+export interface InferenceOutputs {
+  'image-classification': ClassificationLabel[];
+  'audio-classification': ClassificationLabel[];
+  'object-detection': DetectedObject[];
+}
+
+export type WorkerRequest =
+  | { type: 'init'; id: string; task: InferenceTask }
+  | { [T in InferenceTask]: { type: 'analyze'; id: string; task: T; inputs: InferencePayloads[T][] } }[InferenceTask]
+  // Pitch, spectrum and repetition analysis of mono samples at the rate
+  // analyzeAudioSignal expects; answered with a single AudioAnalysis
+  | { type: 'audio-signal'; id: string; samples: Float32Array }
+  | { type: 'cancel'; id: string };
+
+export type WorkerResponse =
+  // progress is a percentage (0-100) of the job
+  | { type: 'progress'; id: string; progress: number; status: string }
+  | { type: 'result'; id: string; outputs: unknown[] }
+  | { type: 'error'; id: string; message: string; cancelled?: boolean };
@@ -14,6 +14,10 @@ export default defineConfig(({ mode }) => ({
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  worker: {
+    // The inference worker imports transformers.js, which needs code splitting
+    format: 'es',
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),